@@ -2,7 +2,7 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { createApp, defineComponent, onMounted, onUnmounted, ref, nextTick, computed } from 'vue'; // Keep nextTick here
+import { createApp, defineComponent, onMounted, onUnmounted, ref, nextTick, computed, watch } from 'vue'; // Keep nextTick here
 import { GoogleGenAI } from '@google/genai';
 import { ImageGeneratorService } from './src/image-generator-service';
 
@@ -18,14 +18,22 @@ import { useAdventureState } from './src/composables/useAdventureState';
 import { useAdventureSetup } from './src/composables/useAdventureSetup'; 
 import { useConversationManager } from './src/composables/useConversationManager';
 import { useAppUI } from './src/composables/useAppUI';
+import { useAdventurePersistence } from './src/composables/useAdventurePersistence';
+import { useSoundscape } from './src/composables/useSoundscape';
 
 // Components
 import LiveAudioComponent from './src/components/LiveAudioComponent';
 import SelectionPanel from './src/components/SelectionPanel';
 import SceneDisplayPanel from './src/components/SceneDisplayPanel';
 import CompanionInfoPanel from './src/components/CompanionInfoPanel';
+import InventoryPanel from './src/components/InventoryPanel';
 import ShareModal from './src/components/ShareModal';
 import RawPromptsModal from './src/components/RawPromptsModal';
+import SaveGameModal from './src/components/SaveGameModal';
+import JournalModal from './src/components/JournalModal';
+import QuestEndingModal from './src/components/QuestEndingModal';
+import PacingDebugOverlay from './src/components/PacingDebugOverlay';
+import SoundMixerPanel from './src/components/SoundMixerPanel';
 
 const SCREEN_PADDING = 30; // Base padding unit
 
@@ -44,8 +52,14 @@ const ImagineOrchestrator = defineComponent({
     SelectionPanel,
     SceneDisplayPanel,
     CompanionInfoPanel,
+    InventoryPanel,
     ShareModal,
     RawPromptsModal,
+    SaveGameModal,
+    JournalModal,
+    QuestEndingModal,
+    PacingDebugOverlay,
+    SoundMixerPanel,
   },
   setup() {
     const apiKey = process.env.API_KEY;
@@ -60,6 +74,8 @@ const ImagineOrchestrator = defineComponent({
     const appUI = useAppUI(adventureState);
     const conversationManager = useConversationManager(adventureState, apiKey, liveAudioRef);
     const adventureSetup = useAdventureSetup(ai, imageGeneratorService, adventureState, apiKey);
+    const persistence = useAdventurePersistence(adventureState, conversationManager);
+    useSoundscape(adventureState);
 
 
     const handleUpdateImagePrompt = (prompt: string) => {
@@ -111,10 +127,69 @@ const ImagineOrchestrator = defineComponent({
     };
 
     const showCompanionInfo = ref(false);
+    const showSoundMixer = ref(false);
     const toggleCompanionInfo = () => {
       showCompanionInfo.value = !showCompanionInfo.value;
     };
 
+    const showInventory = ref(false);
+    const toggleInventory = () => {
+      showInventory.value = !showInventory.value;
+    };
+
+    // Quest progress replaces the quest log, so a shallow watch sees every update
+    const showJournal = ref(false);
+    const hasJournalUpdate = ref(false);
+    watch(adventureState.quests, (quests, previousQuests) => {
+      if (previousQuests.length && quests.length && !showJournal.value) hasJournalUpdate.value = true;
+    });
+    const openJournal = () => {
+      showJournal.value = true;
+      hasJournalUpdate.value = false;
+    };
+
+    // The end screen appears once the epilogue and the companion's goodbye have played
+    const showQuestEnding = ref(false);
+    const endingMessage = computed(() => {
+      const ending = adventureState.adventureEnding.value;
+      return ending ? adventureState.chatHistory.value.find(msg => msg.id === ending.messageId) : undefined;
+    });
+    watch(() => !!endingMessage.value && !endingMessage.value.isNarrating && !conversationManager.isProcessing.value, isEndingReady => {
+      if (isEndingReady) showQuestEnding.value = true;
+    });
+    const handleNewAdventureAfterEnding = () => {
+      showQuestEnding.value = false;
+      adventureState.resetFullAdventureState(appUI.isSmallScreen.value);
+    };
+    const handleReplayAfterEnding = async () => {
+      showQuestEnding.value = false;
+      await persistence.replaySameWorld();
+    };
+
+    const showSaveModal = ref(false);
+    const handleSaveGame = async (name: string) => {
+      await persistence.saveNamedSlot(name);
+      showSaveModal.value = false;
+    };
+
+    const handleContinueAdventure = async () => {
+      if (await persistence.continueLatest()) {
+        document.body.style.overflow = 'hidden';
+      }
+    };
+
+    const handleLoadSave = async (id: string) => {
+      if (await persistence.loadSlot(id)) {
+        document.body.style.overflow = 'hidden';
+      }
+    };
+
+    const handleImportAdventure = async (file: File) => {
+      if (await persistence.importAdventureFile(file)) {
+        document.body.style.overflow = 'hidden';
+      }
+    };
+
 
     return {
       // State and computed from adventureState
@@ -125,6 +200,7 @@ const ImagineOrchestrator = defineComponent({
 
       // Adventure setup methods
       handleStartAdventureSetup: () => {
+        persistence.startNewAdventure();
         adventureState.isGameScreenActive.value = true;
         document.body.style.overflow = 'hidden';
         adventureSetup.handleStartAdventureSetup();
@@ -144,6 +220,11 @@ const ImagineOrchestrator = defineComponent({
       },
       handleInvalidVoiceError: conversationManager.handleInvalidVoiceError,
       handleTriggerContextualChange: conversationManager.handleTriggerContextualChange,
+      replayLine: conversationManager.replayLine,
+      playbackState: conversationManager.playbackState,
+      skipLine: conversationManager.skipLine,
+      togglePlaybackPause: conversationManager.togglePlaybackPause,
+      pacing: conversationManager.pacing,
       
       // Chat handlers
       handleUserText,
@@ -163,7 +244,29 @@ const ImagineOrchestrator = defineComponent({
       waveformState,
       micButtonClickHandler,
       showCompanionInfo,
+      showSoundMixer,
       toggleCompanionInfo,
+      showInventory,
+      toggleInventory,
+      showJournal,
+      hasJournalUpdate,
+      openJournal,
+      showQuestEnding,
+      endingMessage,
+      handleNewAdventureAfterEnding,
+      handleReplayAfterEnding,
+
+      // Save / load
+      saveSlots: persistence.saveSlots,
+      isSaving: persistence.isSaving,
+      defaultSaveName: persistence.defaultSaveName,
+      showSaveModal,
+      handleSaveGame,
+      handleContinueAdventure,
+      handleLoadSave,
+      handleDeleteSave: persistence.deleteSlot,
+      handleImportAdventure,
+      handleExportAdventure: persistence.exportAdventure,
     };
   },
   template: `
@@ -179,8 +282,20 @@ const ImagineOrchestrator = defineComponent({
             :is-connecting="isLoadingCharacter || (isLoadingScene && !isCharacterGenerated)"
             :is-genre-selected="isGenreSelected"
             :selection-prompt="selectionPanelPrompt"
+            :save-slots="saveSlots"
+            :is-tabletop-mode="isTabletopMode"
+            :player-character="playerCharacter"
+            :image-model="selectedImageModel"
+            :speech-provider="speechProvider"
             @genre-selected="handleGenreSelected"
             @generate-character="handleStartAdventureSetup"
+            @continue-adventure="handleContinueAdventure"
+            @load-save="handleLoadSave"
+            @delete-save="handleDeleteSave"
+            @import-adventure="handleImportAdventure"
+            @toggle-tabletop-mode="isTabletopMode = !isTabletopMode"
+            @update:player-character="playerCharacter = $event"
+            @update:speech-provider="speechProvider = $event"
           />
         </div>
       </Transition>
@@ -208,15 +323,62 @@ const ImagineOrchestrator = defineComponent({
                   </span>
                 </div>
               </div>
-              <!-- Companion toggle button for screens without companion panel -->
-              <button v-if="!shouldShowCompanionPanel"
-                      @click="toggleCompanionInfo"
-                      class="flex items-center space-x-2 px-3 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg transition-colors">
-                <svg xmlns="http://www.w3.org/2000/svg" class="h-5 w-5 text-gray-300" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
-                </svg>
-                <span class="text-gray-300 text-sm">Companion</span>
-              </button>
+              <div class="flex items-center space-x-2">
+                <div class="relative">
+                  <button @click="showSoundMixer = !showSoundMixer"
+                          :aria-expanded="showSoundMixer"
+                          class="flex items-center space-x-2 px-3 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg transition-colors">
+                    <svg xmlns="http://www.w3.org/2000/svg" class="h-5 w-5 text-gray-300" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M15.536 8.464a5 5 0 010 7.072M18.364 5.636a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" />
+                    </svg>
+                    <span class="text-gray-300 text-sm">Sound</span>
+                  </button>
+                  <SoundMixerPanel v-if="showSoundMixer"
+                    :music-volume="musicVolume"
+                    :ambience-volume="ambienceVolume"
+                    :voice-volume="voiceVolume"
+                    @update:music-volume="musicVolume = $event"
+                    @update:ambience-volume="ambienceVolume = $event"
+                    @update:voice-volume="voiceVolume = $event"
+                    @close="showSoundMixer = false"
+                  />
+                </div>
+                <button v-if="isSceneDataReady"
+                        @click="showSaveModal = true"
+                        class="flex items-center space-x-2 px-3 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg transition-colors">
+                  <svg xmlns="http://www.w3.org/2000/svg" class="h-5 w-5 text-gray-300" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M8 7H5a2 2 0 00-2 2v9a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-3m-1 4l-3 3m0 0l-3-3m3 3V4" />
+                  </svg>
+                  <span class="text-gray-300 text-sm">Save</span>
+                </button>
+                <button v-if="isSceneDataReady && quests.length"
+                        @click="openJournal"
+                        class="relative flex items-center space-x-2 px-3 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg transition-colors">
+                  <svg xmlns="http://www.w3.org/2000/svg" class="h-5 w-5 text-gray-300" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
+                  </svg>
+                  <span class="text-gray-300 text-sm">Journal</span>
+                  <span v-if="hasJournalUpdate" class="absolute top-1 right-1 w-2 h-2 bg-indigo-400 rounded-full"></span>
+                </button>
+                <!-- Inventory toggle button for screens without side panels -->
+                <button v-if="!shouldShowCompanionPanel && isSceneDataReady"
+                        @click="toggleInventory"
+                        class="flex items-center space-x-2 px-3 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg transition-colors">
+                  <svg xmlns="http://www.w3.org/2000/svg" class="h-5 w-5 text-gray-300" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4" />
+                  </svg>
+                  <span class="text-gray-300 text-sm">Inventory ({{ inventory.length }})</span>
+                </button>
+                <!-- Companion toggle button for screens without companion panel -->
+                <button v-if="!shouldShowCompanionPanel"
+                        @click="toggleCompanionInfo"
+                        class="flex items-center space-x-2 px-3 py-2 bg-gray-800 hover:bg-gray-700 rounded-lg transition-colors">
+                  <svg xmlns="http://www.w3.org/2000/svg" class="h-5 w-5 text-gray-300" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+                  </svg>
+                  <span class="text-gray-300 text-sm">Companion</span>
+                </button>
+              </div>
             </div>
           </div>
 
@@ -237,9 +399,21 @@ const ImagineOrchestrator = defineComponent({
                 :chat-history="chatHistory"
                 :companion-name="generatedCharacterName"
                 :is-exploration-mode="true"
+                :encounter="activeEncounter"
+                :inventory="inventory"
+                :is-busy="isMicDisabled"
+                :can-replay="speechProvider !== 'none'"
+                @combat-action="handleUserText"
+                @replay-line="replayLine"
+                @dismiss-encounter="activeEncounter = null"
               />
             </div>
 
+            <!-- Inventory Panel - ABSOLUTE positioned left of centered panel -->
+            <div v-if="shouldShowCompanionPanel && isSceneDataReady" class="absolute top-0 left-0 w-64 h-full">
+              <InventoryPanel :items="inventory" />
+            </div>
+
             <!-- Companion Panel - ABSOLUTE positioned next to centered panel -->
             <div v-if="shouldShowCompanionPanel" class="absolute top-0 right-0 w-80 h-full">
               <CompanionInfoPanel
@@ -254,6 +428,13 @@ const ImagineOrchestrator = defineComponent({
                 :is-loading-character="isLoadingCharacter || (isLoadingAdventure && !isCharacterGenerated)"
                 :is-character-generated="isCharacterGenerated"
                 :is-companion-present="isCompanionPresent"
+                :memory="companionMemory"
+                :relationship-milestones="relationshipMilestones"
+                :mood="currentContextualMood || generatedMood"
+                :speaking-style="currentContextualStyle || generatedStyle"
+                :stats="isTabletopMode ? companionStats : null"
+                :chattiness="companionChattiness"
+                @update:chattiness="companionChattiness = $event"
                 @update:imagePrompt="handleUpdateImagePrompt"
                 @quota-exceeded="() => handleQuotaExceeded('characterImage')"
               />
@@ -284,6 +465,13 @@ const ImagineOrchestrator = defineComponent({
                   :is-loading-character="isLoadingCharacter || (isLoadingAdventure && !isCharacterGenerated)"
                   :is-character-generated="isCharacterGenerated"
                   :is-companion-present="isCompanionPresent"
+                  :memory="companionMemory"
+                  :relationship-milestones="relationshipMilestones"
+                  :mood="currentContextualMood || generatedMood"
+                  :speaking-style="currentContextualStyle || generatedStyle"
+                  :stats="isTabletopMode ? companionStats : null"
+                  :chattiness="companionChattiness"
+                  @update:chattiness="companionChattiness = $event"
                   @update:imagePrompt="handleUpdateImagePrompt"
                   @quota-exceeded="() => handleQuotaExceeded('characterImage')"
                 />
@@ -291,9 +479,22 @@ const ImagineOrchestrator = defineComponent({
             </div>
           </Transition>
 
-
-
-
+          <!-- Inventory Panel Overlay (for screens without side panels) -->
+          <Transition name="slide-right">
+            <div v-if="!shouldShowCompanionPanel && showInventory"
+                 class="fixed inset-y-0 left-0 z-50 w-72 bg-gray-800 shadow-2xl overflow-y-auto">
+              <div class="p-4">
+                <button @click="toggleInventory"
+                        class="mb-4 w-full flex items-center justify-center px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors">
+                  <svg xmlns="http://www.w3.org/2000/svg" class="h-5 w-5 text-gray-300 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                  <span class="text-gray-300">Close</span>
+                </button>
+                <InventoryPanel :items="inventory" />
+              </div>
+            </div>
+          </Transition>
 
           <!-- Bottom Bar: Mic Button -->
           <div v-if="isGameScreenActive" 
@@ -301,7 +502,13 @@ const ImagineOrchestrator = defineComponent({
                :style="{paddingBottom: (isSmallScreen ? SCREEN_PADDING * 1.5 : SCREEN_PADDING) + 'px'}">
 
             <div class="bg-gray-800/95 backdrop-blur-sm rounded-xl shadow-2xl p-4">
-              <div class="flex items-center justify-center">
+              <div class="flex items-center justify-center space-x-3">
+                 <button v-if="playbackState.isPlaying" @click="togglePlaybackPause"
+                         class="rounded-full flex items-center justify-center w-10 h-10 sm:w-12 sm:h-12 bg-gray-700 hover:bg-gray-600 text-white transition-colors"
+                         :aria-label="playbackState.isPaused ? 'Resume speech' : 'Pause speech'">
+                  <svg v-if="playbackState.isPaused" xmlns="http://www.w3.org/2000/svg" class="h-5 w-5" viewBox="0 0 24 24" fill="currentColor"><path d="M8 5v14l11-7z"/></svg>
+                  <svg v-else xmlns="http://www.w3.org/2000/svg" class="h-5 w-5" viewBox="0 0 24 24" fill="currentColor"><path d="M6 5h4v14H6zM14 5h4v14h-4z"/></svg>
+                 </button>
                  <button @click="micButtonClickHandler" 
                       :disabled="isMicDisabled && waveformState !== 'systemSpeaking'"
                       :class="{
@@ -338,6 +545,11 @@ const ImagineOrchestrator = defineComponent({
                       <path d="M12 14c1.66 0 2.99-1.34 2.99-3L15 5c0-1.66-1.34-3-3-3S9 3.34 9 5v6c0 1.66 1.34 3 3 3zm5.3-3c0 3-2.54 5.1-5.3 5.1S6.7 14 6.7 11H5c0 3.41 2.72 6.23 6 6.72V21h2v-3.28c3.28-.48 6-3.3 6-6.72h-1.7z"/>
                   </svg>
               </button>
+                 <button v-if="playbackState.isPlaying" @click="skipLine"
+                         class="rounded-full flex items-center justify-center w-10 h-10 sm:w-12 sm:h-12 bg-gray-700 hover:bg-gray-600 text-white transition-colors"
+                         aria-label="Skip this line">
+                  <svg xmlns="http://www.w3.org/2000/svg" class="h-5 w-5" viewBox="0 0 24 24" fill="currentColor"><path d="M6 18l8.5-6L6 6v12zM16 6v12h2V6h-2z"/></svg>
+                 </button>
               </div>
             </div>
           </div>
@@ -362,6 +574,34 @@ const ImagineOrchestrator = defineComponent({
         @close="showShareModal = false"
         @copy-url="copyShareUrl"
       />
+      <SaveGameModal
+        :is-visible="showSaveModal"
+        :default-name="defaultSaveName()"
+        :save-slots="saveSlots"
+        :is-saving="isSaving"
+        @close="showSaveModal = false"
+        @save="handleSaveGame"
+        @export="handleExportAdventure"
+      />
+      <JournalModal
+        :is-visible="showJournal"
+        :quests="quests"
+        @close="showJournal = false"
+      />
+      <PacingDebugOverlay
+        v-if="showDebugOverlay && isGameScreenActive"
+        :pacing="pacing"
+        :story-arc="storyArc"
+      />
+      <QuestEndingModal
+        :is-visible="showQuestEnding"
+        :ending="adventureEnding"
+        :image-url="endingMessage?.imageUrl || ''"
+        :companion-name="generatedCharacterName"
+        @close="showQuestEnding = false"
+        @replay="handleReplayAfterEnding"
+        @new-adventure="handleNewAdventureAfterEnding"
+      />
       <RawPromptsModal 
         :is-visible="showRawModal"
         :character-generation-prompt="actualCharacterGenerationLLMPrompt"
@@ -0,0 +1,414 @@
+#!/usr/bin/env node
+
+/**
+ * Generate Soundscape Loops Script
+ *
+ * Synthesizes the music and ambience beds listed in public/audio/soundscape.json and writes
+ * them as small mono WAV files. Everything is made from sine waves and filtered noise with a
+ * fixed seed, so the output is the same on every run and needs no third-party recordings.
+ * Each loop is seamless: note tails that run past the end wrap around to the start, and noise
+ * beds crossfade their end into their beginning.
+ *
+ * Usage: node scripts/generateSoundscapeLoops.js
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Configuration
+const OUTPUT_DIR = path.join(__dirname, '..', 'public', 'audio');
+const SAMPLE_RATE = 11025; // Background beds sit under speech, so a low rate is plenty
+const MUSIC_SECONDS = 8;
+const AMBIENCE_SECONDS = 6;
+const LOOP_CROSSFADE_SECONDS = 1;
+const PEAK = 0.8;
+
+/**
+ * Small seeded PRNG (mulberry32) so every run produces identical files
+ */
+function createRandom(seed) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * A loop buffer. Sounds added past the end wrap around to the start.
+ */
+function createTrack(seconds) {
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  return {
+    samples,
+    seconds,
+    add(index, value) {
+      const wrapped = ((index % samples.length) + samples.length) % samples.length;
+      samples[wrapped] += value;
+    }
+  };
+}
+
+const noteFrequency = (midi) => 440 * Math.pow(2, (midi - 69) / 12);
+
+// Rounds a frequency so a whole number of cycles fits in the loop and sustained tones wrap cleanly
+const loopFrequency = (frequency, seconds) => Math.round(frequency * seconds) / seconds;
+
+/**
+ * Plucked note: a few harmonics under an exponential decay
+ */
+function pluck(track, start, midi, { duration = 1.2, gain = 0.3, brightness = 0.4 } = {}) {
+  const frequency = noteFrequency(midi);
+  const first = Math.round(start * SAMPLE_RATE);
+  const length = Math.round(duration * SAMPLE_RATE);
+  for (let i = 0; i < length; i++) {
+    const t = i / SAMPLE_RATE;
+    const envelope = Math.min(1, i / 40) * Math.exp(-t * 4 / duration);
+    const phase = 2 * Math.PI * frequency * t;
+    const value = Math.sin(phase) + brightness * Math.sin(2 * phase) + brightness * 0.4 * Math.sin(3 * phase);
+    track.add(first + i, value * envelope * gain);
+  }
+}
+
+/**
+ * Held note with a slow attack and release, for pads and bass
+ */
+function swell(track, start, midi, { duration = 2, gain = 0.15, attack = 0.4, release = 0.6, harmonics = [1, 0.3] } = {}) {
+  const frequency = noteFrequency(midi);
+  const first = Math.round(start * SAMPLE_RATE);
+  const length = Math.round(duration * SAMPLE_RATE);
+  for (let i = 0; i < length; i++) {
+    const t = i / SAMPLE_RATE;
+    const envelope = Math.min(1, t / attack, (duration - t) / release);
+    let value = 0;
+    harmonics.forEach((level, index) => {
+      value += level * Math.sin(2 * Math.PI * frequency * (index + 1) * t);
+    });
+    track.add(first + i, value * envelope * gain);
+  }
+}
+
+/**
+ * Tone whose pitch glides from one frequency to another, used for drums, drips and chirps
+ */
+function sweep(track, start, from, to, { duration = 0.2, gain = 0.5, decay = 12 } = {}) {
+  const first = Math.round(start * SAMPLE_RATE);
+  const length = Math.round(duration * SAMPLE_RATE);
+  let phase = 0;
+  for (let i = 0; i < length; i++) {
+    const progress = i / length;
+    const frequency = from * Math.pow(to / from, progress);
+    phase += 2 * Math.PI * frequency / SAMPLE_RATE;
+    const envelope = Math.min(1, i / 20) * Math.exp(-progress * decay);
+    track.add(first + i, Math.sin(phase) * envelope * gain);
+  }
+}
+
+/**
+ * Short burst of noise, used for snares and raindrops
+ */
+function burst(track, random, start, { duration = 0.15, gain = 0.3, decay = 10, smoothing = 0 } = {}) {
+  const first = Math.round(start * SAMPLE_RATE);
+  const length = Math.round(duration * SAMPLE_RATE);
+  let filtered = 0;
+  for (let i = 0; i < length; i++) {
+    const white = random() * 2 - 1;
+    filtered = smoothing * filtered + (1 - smoothing) * white;
+    track.add(first + i, filtered * Math.exp(-(i / length) * decay) * gain);
+  }
+}
+
+/**
+ * Noise under a one-pole low-pass filter. cutoff may change over time (0-1, higher is brighter).
+ * Rendered one second longer than the loop and crossfaded, so the filter state does not click
+ * where the loop restarts.
+ */
+function addNoise(track, random, { gain = 0.3, cutoff = () => 0.1, level = () => 1, highPass = 0 }) {
+  const extra = Math.round(LOOP_CROSSFADE_SECONDS * SAMPLE_RATE);
+  const total = track.samples.length + extra;
+  const rendered = new Float32Array(total);
+  let low = 0;
+  let floor = 0;
+  for (let i = 0; i < total; i++) {
+    const t = (i % track.samples.length) / SAMPLE_RATE;
+    const coefficient = Math.min(1, Math.max(0.001, cutoff(t)));
+    low += coefficient * ((random() * 2 - 1) - low);
+    // Subtracting a much slower filter takes out the rumble below the band
+    floor += highPass * (low - floor);
+    rendered[i] = (low - floor) * level(t) * gain;
+  }
+  for (let i = 0; i < track.samples.length; i++) {
+    let value = rendered[i];
+    if (i < extra) {
+      const fade = i / extra;
+      value = rendered[i] * Math.sqrt(fade) + rendered[track.samples.length + i] * Math.sqrt(1 - fade);
+    }
+    track.samples[i] += value;
+  }
+}
+
+/**
+ * Repeating feedback echo that wraps around the loop
+ */
+function addEcho(track, seconds, feedback) {
+  const delay = Math.round(seconds * SAMPLE_RATE);
+  const source = Float32Array.from(track.samples);
+  for (let repeat = 1, level = feedback; level > 0.02; repeat++, level *= feedback) {
+    for (let i = 0; i < source.length; i++) {
+      track.add(i + delay * repeat, source[i] * level);
+    }
+  }
+}
+
+// Music beds
+
+function fantasy(track) {
+  // I - vi - IV - V in D major, one chord every two seconds
+  const chords = [[62, 66, 69], [59, 62, 66], [55, 59, 62], [57, 61, 64]];
+  chords.forEach((chord, bar) => {
+    const start = bar * 2;
+    swell(track, start, chord[0] - 24, { duration: 2, gain: 0.18, attack: 0.3, release: 0.5 });
+    chord.forEach(note => swell(track, start, note, { duration: 2, gain: 0.04, attack: 0.8, release: 0.8 }));
+    [0, 1, 2, 1, 0, 1, 2, 1].forEach((step, index) => {
+      const octave = index >= 4 ? 12 : 0;
+      pluck(track, start + index * 0.25, chord[step] + octave, { duration: 1, gain: 0.14 });
+    });
+  });
+}
+
+function sciFi(track) {
+  // A minor pulse, sixteenth notes at 120 BPM over a shifting pad
+  const roots = [57, 57, 53, 55];
+  roots.forEach((root, bar) => {
+    const start = bar * 2;
+    swell(track, start, root - 12, { duration: 2, gain: 0.05, attack: 0.6, release: 0.6, harmonics: [1, 0.5, 0.3, 0.2] });
+    swell(track, start, root + 3, { duration: 2, gain: 0.04, attack: 0.6, release: 0.6, harmonics: [1, 0.5, 0.3, 0.2] });
+    for (let step = 0; step < 16; step++) {
+      const note = root + [0, 7, 12, 7][step % 4];
+      pluck(track, start + step * 0.125, note, { duration: 0.25, gain: 0.1, brightness: 0.8 });
+    }
+  });
+}
+
+function dread(track) {
+  const seconds = track.seconds;
+  // Two low tones a little apart beat slowly against each other
+  [55, 56.5, 82.5].forEach((frequency, index) => {
+    const f = loopFrequency(frequency, seconds);
+    for (let i = 0; i < track.samples.length; i++) {
+      const t = i / SAMPLE_RATE;
+      const tremolo = 0.7 + 0.3 * Math.sin(2 * Math.PI * t / seconds * (index + 1));
+      track.samples[i] += Math.sin(2 * Math.PI * f * t) * tremolo * (index === 2 ? 0.06 : 0.16);
+    }
+  });
+  // A high, dissonant interval swells in and out once per loop
+  swell(track, 2, 87, { duration: 4, gain: 0.035, attack: 2, release: 2, harmonics: [1] });
+  swell(track, 2.5, 88, { duration: 3.5, gain: 0.025, attack: 1.5, release: 2, harmonics: [1] });
+}
+
+function combat(track, random) {
+  // 120 BPM, four bars of driving drums and an ostinato
+  for (let beat = 0; beat < 16; beat++) {
+    const start = beat * 0.5;
+    sweep(track, start, 120, 45, { duration: 0.35, gain: 0.55, decay: 8 });
+    if (beat % 2 === 1) {
+      burst(track, random, start, { duration: 0.18, gain: 0.28, decay: 9, smoothing: 0.3 });
+    }
+    sweep(track, start + 0.25, 180, 90, { duration: 0.2, gain: 0.25, decay: 10 });
+    const root = beat < 8 ? 38 : (beat < 12 ? 41 : 36);
+    [0, 0.125, 0.25, 0.375].forEach((offset, index) => {
+      pluck(track, start + offset, root + (index === 2 ? 12 : 0), { duration: 0.2, gain: 0.16, brightness: 0.9 });
+    });
+  }
+  [62, 65, 64, 60].forEach((note, bar) => {
+    swell(track, bar * 2, note, { duration: 2, gain: 0.05, attack: 0.2, release: 0.4, harmonics: [1, 0.6, 0.4, 0.3] });
+  });
+}
+
+// Ambience beds
+
+function forest(track, random) {
+  addNoise(track, random, { gain: 0.25, cutoff: t => 0.05 + 0.02 * Math.sin(2 * Math.PI * t / track.seconds), highPass: 0.01 });
+  // Birds: short trills at random moments
+  for (let call = 0; call < 7; call++) {
+    const start = random() * track.seconds;
+    const pitch = 2200 + random() * 1400;
+    const notes = 2 + Math.floor(random() * 4);
+    for (let note = 0; note < notes; note++) {
+      sweep(track, start + note * 0.09, pitch, pitch * (1.2 + random() * 0.3), { duration: 0.07, gain: 0.08, decay: 3 });
+    }
+  }
+}
+
+function rain(track, random) {
+  addNoise(track, random, { gain: 0.5, cutoff: () => 0.6, highPass: 0.05 });
+  for (let drop = 0; drop < track.seconds * 40; drop++) {
+    burst(track, random, random() * track.seconds, { duration: 0.02, gain: 0.15 + random() * 0.2, decay: 6 });
+  }
+}
+
+function cave(track, random) {
+  addNoise(track, random, { gain: 0.6, cutoff: () => 0.01 });
+  // Water dripping somewhere ahead, with the cave echoing it back
+  [0.4, 1.7, 2.3, 3.9, 5.1].forEach(start => {
+    sweep(track, start + random() * 0.2, 1400 + random() * 400, 700, { duration: 0.08, gain: 0.3, decay: 5 });
+  });
+  addEcho(track, 0.23, 0.45);
+}
+
+function wind(track, random) {
+  const seconds = track.seconds;
+  addNoise(track, random, {
+    gain: 0.7,
+    cutoff: t => 0.03 + 0.025 * Math.sin(2 * Math.PI * t / seconds) + 0.01 * Math.sin(6 * Math.PI * t / seconds),
+    level: t => 0.6 + 0.4 * Math.sin(2 * Math.PI * t / seconds + 1),
+    highPass: 0.005
+  });
+}
+
+function ocean(track, random) {
+  const seconds = track.seconds;
+  // Two waves per loop, each a swell of surf that drains away
+  addNoise(track, random, {
+    gain: 0.8,
+    cutoff: t => 0.04 + 0.12 * Math.pow(Math.sin(2 * Math.PI * t / seconds), 2),
+    level: t => 0.25 + 0.75 * Math.pow(Math.sin(2 * Math.PI * t / seconds), 2),
+    highPass: 0.003
+  });
+}
+
+function night(track, random) {
+  addNoise(track, random, { gain: 0.15, cutoff: () => 0.03 });
+  // Crickets: bursts of a high tone pulsed at 30 Hz, two insects out of step
+  [[3950, 0], [4200, 0.27]].forEach(([pitch, offset]) => {
+    const frequency = loopFrequency(pitch, track.seconds);
+    for (let chirp = offset; chirp < track.seconds; chirp += 0.6) {
+      const first = Math.round(chirp * SAMPLE_RATE);
+      const length = Math.round(0.1 * SAMPLE_RATE);
+      for (let i = 0; i < length; i++) {
+        const t = i / SAMPLE_RATE;
+        const pulse = Math.max(0, Math.sin(2 * Math.PI * 30 * t));
+        track.add(first + i, Math.sin(2 * Math.PI * frequency * (chirp + t)) * pulse * 0.06);
+      }
+    }
+  });
+}
+
+function spaceshipHum(track, random) {
+  const seconds = track.seconds;
+  [[55, 0.3], [110, 0.18], [110.5, 0.1], [165, 0.06], [220, 0.04]].forEach(([frequency, gain]) => {
+    const f = loopFrequency(frequency, seconds);
+    for (let i = 0; i < track.samples.length; i++) {
+      track.samples[i] += Math.sin(2 * Math.PI * f * i / SAMPLE_RATE) * gain;
+    }
+  });
+  addNoise(track, random, { gain: 0.12, cutoff: () => 0.2, highPass: 0.05 });
+}
+
+function tavern(track, random) {
+  const seconds = track.seconds;
+  // Voices: a band of noise that rises and falls like overlapping conversations
+  addNoise(track, random, {
+    gain: 0.45,
+    cutoff: () => 0.09,
+    level: t => 0.55 + 0.2 * Math.sin(2 * Math.PI * t / seconds * 3) + 0.15 * Math.sin(2 * Math.PI * t / seconds * 5 + 2),
+    highPass: 0.03
+  });
+  // The fire crackling in the hearth
+  for (let crackle = 0; crackle < seconds * 6; crackle++) {
+    burst(track, random, random() * seconds, { duration: 0.01 + random() * 0.02, gain: 0.1 + random() * 0.15, decay: 8 });
+  }
+  // Mugs knocking together now and then
+  [0.9, 3.4, 4.1].forEach(start => {
+    sweep(track, start, 2600 + random() * 500, 2300, { duration: 0.12, gain: 0.12, decay: 6 });
+  });
+  // A lute somewhere across the room
+  [[62, 0], [66, 0.5], [69, 1], [66, 1.5], [64, 3], [67, 3.5], [71, 4], [67, 4.5]].forEach(([note, start]) => {
+    pluck(track, start, note, { duration: 1.2, gain: 0.05 });
+  });
+}
+
+function city(track, random) {
+  const seconds = track.seconds;
+  // Street noise: a low, shifting rumble of crowds and wheels
+  addNoise(track, random, {
+    gain: 0.6,
+    cutoff: t => 0.04 + 0.015 * Math.sin(2 * Math.PI * t / seconds * 2),
+    level: t => 0.7 + 0.3 * Math.sin(2 * Math.PI * t / seconds + 0.5),
+    highPass: 0.01
+  });
+  // Footsteps passing on stone
+  for (let step = 0; step < 8; step++) {
+    burst(track, random, 0.6 + step * 0.55, { duration: 0.05, gain: 0.2, decay: 10, smoothing: 0.6 });
+  }
+  // A bell tolling in the distance
+  swell(track, 2, 64, { duration: 3, gain: 0.05, attack: 0.01, release: 2.8, harmonics: [1, 0.5, 0.25, 0.2] });
+}
+
+const BEDS = [
+  { file: 'music/fantasy.wav', seconds: MUSIC_SECONDS, render: fantasy },
+  { file: 'music/sci-fi.wav', seconds: MUSIC_SECONDS, render: sciFi },
+  { file: 'music/dread.wav', seconds: MUSIC_SECONDS, render: dread },
+  { file: 'music/combat.wav', seconds: MUSIC_SECONDS, render: combat },
+  { file: 'ambience/forest.wav', seconds: AMBIENCE_SECONDS, render: forest },
+  { file: 'ambience/rain.wav', seconds: AMBIENCE_SECONDS, render: rain },
+  { file: 'ambience/cave.wav', seconds: AMBIENCE_SECONDS, render: cave },
+  { file: 'ambience/wind.wav', seconds: AMBIENCE_SECONDS, render: wind },
+  { file: 'ambience/ocean.wav', seconds: AMBIENCE_SECONDS, render: ocean },
+  { file: 'ambience/night.wav', seconds: AMBIENCE_SECONDS, render: night },
+  { file: 'ambience/spaceship-hum.wav', seconds: AMBIENCE_SECONDS, render: spaceshipHum },
+  { file: 'ambience/tavern.wav', seconds: AMBIENCE_SECONDS, render: tavern },
+  { file: 'ambience/city.wav', seconds: AMBIENCE_SECONDS, render: city }
+];
+
+/**
+ * Scale to a common peak and encode as 16-bit mono PCM WAV
+ */
+function encodeWav(samples) {
+  const peak = samples.reduce((max, value) => Math.max(max, Math.abs(value)), 0) || 1;
+  const data = Buffer.alloc(samples.length * 2);
+  samples.forEach((value, index) => {
+    data.writeInt16LE(Math.round(Math.max(-1, Math.min(1, value * PEAK / peak)) * 32767), index * 2);
+  });
+
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + data.length, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(1, 22); // Mono
+  header.writeUInt32LE(SAMPLE_RATE, 24);
+  header.writeUInt32LE(SAMPLE_RATE * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36);
+  header.writeUInt32LE(data.length, 40);
+  return Buffer.concat([header, data]);
+}
+
+async function main() {
+  console.log(`🎵 Generating ${BEDS.length} soundscape loops...`);
+  for (const [index, bed] of BEDS.entries()) {
+    const track = createTrack(bed.seconds);
+    bed.render(track, createRandom(index + 1));
+    const outputFile = path.join(OUTPUT_DIR, bed.file);
+    await fs.mkdir(path.dirname(outputFile), { recursive: true });
+    await fs.writeFile(outputFile, encodeWav(track.samples));
+    console.log(`✅ ${bed.file} (${bed.seconds}s)`);
+  }
+  console.log('🎉 Done! The beds are listed in public/audio/soundscape.json');
+}
+
+main().catch(error => {
+  console.error('❌ Generating soundscape loops failed:', error);
+  process.exit(1);
+});
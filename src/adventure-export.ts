@@ -0,0 +1,206 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { AdventureSnapshot, SnapshotChatMessage, migrateSnapshot } from './adventure-snapshot';
+
+export const ADVENTURE_FILE_EXTENSION = '.adventure.json';
+const ADVENTURE_FILE_FORMAT = 'ai-companion-rpg/adventure';
+const IMAGE_REF_PREFIX = 'image-ref:';
+
+/**
+ * Portable adventure file. Scene images are pulled out of the snapshot into `images` and
+ * referenced by key, so an image shown in several places is only stored once.
+ */
+export interface AdventureFile {
+  format: typeof ADVENTURE_FILE_FORMAT;
+  exportedAt: number;
+  snapshot: AdventureSnapshot;
+  images: Record<string, string>;
+}
+
+export interface AdventureExportOptions {
+  /** When false, data-URL images are left out entirely and the file stays small. */
+  includeImages?: boolean;
+}
+
+export function serializeAdventureFile(snapshot: AdventureSnapshot, options: AdventureExportOptions = {}): string {
+  const includeImages = options.includeImages ?? true;
+  const images: Record<string, string> = {};
+  const keysByUrl = new Map<string, string>();
+
+  const toReference = (url?: string): string | undefined => {
+    if (!url || !url.startsWith('data:')) return url; // Remote URLs and fallbacks are kept as-is
+    if (!includeImages) return undefined;
+    let key = keysByUrl.get(url);
+    if (!key) {
+      key = `img${keysByUrl.size + 1}`;
+      keysByUrl.set(url, key);
+      images[key] = url;
+    }
+    return `${IMAGE_REF_PREFIX}${key}`;
+  };
+
+  const file: AdventureFile = {
+    format: ADVENTURE_FILE_FORMAT,
+    exportedAt: Date.now(),
+    snapshot: {
+      ...snapshot,
+      scene: { ...snapshot.scene, imageUrl: toReference(snapshot.scene.imageUrl) || '' },
+      player: { ...snapshot.player, portraitUrl: toReference(snapshot.player.portraitUrl) || '' },
+      inventory: snapshot.inventory.map(item => ({ ...item, iconUrl: toReference(item.iconUrl) })),
+      chatHistory: snapshot.chatHistory.map(msg => ({ ...msg, imageUrl: toReference(msg.imageUrl) }))
+    },
+    images
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Reads an exported adventure file back into a current-version snapshot.
+ */
+export function parseAdventureFile(text: string): AdventureSnapshot {
+  let file: AdventureFile;
+  try {
+    file = JSON.parse(text);
+  } catch (error) {
+    throw new Error('[Export] Adventure file is not valid JSON');
+  }
+  if (!file || file.format !== ADVENTURE_FILE_FORMAT || !file.snapshot) {
+    throw new Error('[Export] Not an adventure file');
+  }
+
+  const images = file.images || {};
+  const resolve = (url?: string): string | undefined =>
+    url && url.startsWith(IMAGE_REF_PREFIX) ? images[url.slice(IMAGE_REF_PREFIX.length)] : url;
+
+  const snapshot: any = file.snapshot;
+  return migrateSnapshot({
+    ...snapshot,
+    scene: snapshot.scene ? { ...snapshot.scene, imageUrl: resolve(snapshot.scene.imageUrl) || '' } : snapshot.scene,
+    // Files exported before player characters existed have none; the migration adds one
+    player: snapshot.player ? { ...snapshot.player, portraitUrl: resolve(snapshot.player.portraitUrl) || '' } : snapshot.player,
+    // Files exported before the inventory existed have none; the migration adds it
+    inventory: Array.isArray(snapshot.inventory)
+      ? snapshot.inventory.map((item: any) => ({ ...item, iconUrl: resolve(item.iconUrl) }))
+      : snapshot.inventory,
+    chatHistory: Array.isArray(snapshot.chatHistory)
+      ? snapshot.chatHistory.map((msg: any) => ({ ...msg, imageUrl: resolve(msg.imageUrl) }))
+      : snapshot.chatHistory
+  });
+}
+
+const transcriptTitle = (snapshot: AdventureSnapshot) =>
+  `${snapshot.genre} Adventure with ${snapshot.character.characterName}`;
+
+export function buildMarkdownTranscript(snapshot: AdventureSnapshot): string {
+  const { character } = snapshot;
+  const lines: string[] = [
+    `# ${transcriptTitle(snapshot)}`,
+    '',
+    `*Saved ${new Date(snapshot.savedAt).toLocaleString()}*`,
+    '',
+    `**Companion:** ${character.characterName}, ${character.characterType} (${character.role})`,
+    '',
+    `> ${character.characterDescription}`,
+    '',
+    '---',
+    ''
+  ];
+
+  for (const msg of storyMessages(snapshot)) {
+    if (msg.imageUrl && isEmbeddedImage(msg.imageUrl)) {
+      lines.push(`![Scene](${msg.imageUrl})`, '');
+    }
+    const speaker = transcriptSpeaker(msg, snapshot);
+    if (msg.kind === 'dice_roll' || msg.kind === 'item_event') {
+      lines.push(`*${msg.text}*`, '');
+    } else {
+      lines.push(speaker ? `**${speaker}:** ${msg.text}` : msg.text, '');
+    }
+  }
+
+  return lines.join('\n');
+}
+
+// Only well-formed base64 image data URLs are written into transcripts; imported files can carry anything
+const EMBEDDED_IMAGE_PATTERN = /^data:image\/[\w.+-]+;base64,[A-Za-z0-9+/=]+$/;
+
+const isEmbeddedImage = (url: string) => EMBEDDED_IMAGE_PATTERN.test(url);
+
+// System notices are app chatter, not part of the story
+const storyMessages = (snapshot: AdventureSnapshot) =>
+  snapshot.chatHistory.filter(msg => msg.kind !== 'system');
+
+// Who said a message, or '' for narration and other unvoiced lines
+const transcriptSpeaker = (msg: SnapshotChatMessage, snapshot: AdventureSnapshot) =>
+  msg.kind === 'player' ? snapshot.player.name.trim() || 'You' : 'speaker' in msg ? msg.speaker.name : '';
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Single-file HTML transcript: styles are inline and images stay embedded as data URLs,
+ * so it opens anywhere without network access.
+ */
+export function buildHtmlTranscript(snapshot: AdventureSnapshot): string {
+  const { character } = snapshot;
+  const messages = storyMessages(snapshot).map(msg => {
+    const image = msg.imageUrl && isEmbeddedImage(msg.imageUrl)
+      ? `<img src="${msg.imageUrl}" alt="Scene image">`
+      : '';
+    const speakerName = transcriptSpeaker(msg, snapshot);
+    const speaker = speakerName ? `<div class="speaker">${escapeHtml(speakerName)}</div>` : '';
+    return `<div class="message ${escapeHtml(msg.kind)}">${image}${speaker}<p>${escapeHtml(msg.text)}</p></div>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(transcriptTitle(snapshot))}</title>
+<style>
+  body { background: #111827; color: #e5e7eb; font-family: Georgia, serif; max-width: 760px; margin: 0 auto; padding: 2rem 1rem; line-height: 1.6; }
+  h1 { color: #c084fc; font-family: system-ui, sans-serif; }
+  .meta { color: #9ca3af; font-size: 0.9rem; }
+  .companion { border-left: 3px solid #7c3aed; padding-left: 1rem; color: #d1d5db; }
+  .message { margin: 1.5rem 0; padding: 1rem 1.25rem; border-radius: 1rem; background: #1f2937; }
+  .message.player { background: #1d4ed8; color: #fff; margin-left: 20%; }
+  .message.companion_speech, .message.npc_speech { background: #312e81; }
+  .message.dice_roll, .message.item_event { background: none; padding: 0 1.25rem; color: #9ca3af; font-style: italic; }
+  .speaker { font-family: system-ui, sans-serif; font-size: 0.8rem; font-weight: bold; opacity: 0.8; }
+  .message p { margin: 0.25rem 0 0; white-space: pre-wrap; }
+  img { width: 100%; border-radius: 0.75rem; margin-bottom: 0.75rem; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(transcriptTitle(snapshot))}</h1>
+<p class="meta">Saved ${escapeHtml(new Date(snapshot.savedAt).toLocaleString())}</p>
+<div class="companion">
+  <p><strong>${escapeHtml(character.characterName)}</strong>, ${escapeHtml(character.characterType)} (${escapeHtml(character.role)})</p>
+  <p>${escapeHtml(character.characterDescription)}</p>
+</div>
+${messages}
+</body>
+</html>
+`;
+}
+
+export function adventureFileBaseName(snapshot: AdventureSnapshot): string {
+  const slug = `${snapshot.character.characterName}-${snapshot.genre}`
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  return slug || 'adventure';
+}
+
+export function downloadTextFile(filename: string, content: string, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,303 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { Genre } from './ai-data-types';
+import { WorldModel, createWorldModel } from './world-model';
+import { CompanionMemory, createCompanionMemory } from './companion-memory';
+import { RelationshipMilestone } from './relationship';
+import { InventoryItem } from './inventory';
+import { QuestObjective } from './quests';
+import { CharacterStats, DEFAULT_PLAYER_STATS, createDiceSeed } from './skill-checks';
+import { Encounter } from './combat';
+import { SecondaryNpc } from './npcs';
+import { StoredChatMessage } from './chat-messages';
+import { CompanionChattiness, DEFAULT_CHATTINESS } from './companion-remarks';
+import { AdventureEnding, StoryArc, computeAdventureStats, createStoryArc } from './story-arc';
+import { INITIAL_RELATIONSHIP_LEVEL } from './relationship';
+import { PacingState, createPacingState } from './pacing-director';
+import { PlayerCharacter, createPlayerCharacter } from './player-character';
+
+/**
+ * Bump whenever the snapshot shape changes, and add a migration from the previous version
+ * to SNAPSHOT_MIGRATIONS so existing saves keep loading.
+ */
+export const ADVENTURE_SNAPSHOT_VERSION = 14;
+
+export interface SnapshotCharacter {
+  characterType: string;
+  role: string;
+  mood: string;
+  style: string;
+  voiceName: string;
+  voiceId: string; // ElevenLabs voice picked by voiceSelectionService
+  characterName: string;
+  characterDescription: string;
+  detailedVisualDescription: string;
+  coreTrait: string;
+  mainWant: string;
+  keyFlaw: string;
+  voicePromptInstruction: string;
+  gender: string;
+  age: string;
+  accent: string;
+}
+
+export interface SnapshotScene {
+  narration: string;
+  narratorVoice: string;
+  imagePrompt: string;
+  imageUrl: string;
+}
+
+export interface SnapshotCompanion {
+  isPresent: boolean;
+  currentMood: string;
+  currentStyle: string;
+  relationshipLevel: number;
+  relationshipMilestones: RelationshipMilestone[];
+  memory: CompanionMemory;
+  chattiness: CompanionChattiness;
+}
+
+/**
+ * Turn bookkeeping owned by useConversationManager.
+ */
+export interface SnapshotProgress {
+  pacing: PacingState;
+  currentLocationDescription: string;
+  recentSceneElements: string[];
+  sceneTags: string[]; // Picks the scene's music and ambience
+}
+
+/**
+ * Tabletop mode settings and dice. diceRngState is the seeded RNG's state after the last roll.
+ */
+export interface SnapshotTabletop {
+  enabled: boolean;
+  diceRngState: number;
+  playerStats: CharacterStats;
+  companionStats: CharacterStats;
+}
+
+export type SnapshotChatMessage = StoredChatMessage;
+
+export interface AdventureSnapshot {
+  version: number;
+  id: string;
+  name: string;
+  createdAt: number;
+  savedAt: number;
+  genre: Genre;
+  player: PlayerCharacter;
+  character: SnapshotCharacter;
+  scene: SnapshotScene;
+  companion: SnapshotCompanion;
+  progress: SnapshotProgress;
+  world: WorldModel;
+  inventory: InventoryItem[];
+  quests: QuestObjective[];
+  storyArc: StoryArc;
+  ending: AdventureEnding | null;
+  tabletop: SnapshotTabletop;
+  encounter: Encounter | null;
+  npcs: SecondaryNpc[];
+  chatHistory: SnapshotChatMessage[];
+  settings: {
+    dialogModel: string;
+    imageModel: string;
+  };
+}
+
+export interface SaveSlotSummary {
+  id: string;
+  name: string;
+  genre: Genre;
+  characterName: string;
+  savedAt: number;
+  turnCount: number;
+  isAutosave: boolean;
+}
+
+export const AUTOSAVE_SLOT_ID = 'autosave';
+
+type SnapshotMigration = (snapshot: any) => any;
+
+// Keyed by the version a migration upgrades *from*
+const SNAPSHOT_MIGRATIONS: Record<number, SnapshotMigration> = {
+  // v2: companion long-term memory
+  1: snapshot => ({
+    ...snapshot,
+    companion: { ...snapshot.companion, memory: createCompanionMemory() }
+  }),
+  // v3: relationship threshold events
+  2: snapshot => ({
+    ...snapshot,
+    companion: { ...snapshot.companion, relationshipMilestones: [] }
+  }),
+  // v4: player inventory
+  3: snapshot => ({ ...snapshot, inventory: [] }),
+  // v5: quest log and ending; adventures from before quests simply have none
+  4: snapshot => ({ ...snapshot, quests: [], ending: null }),
+  // v6: tabletop mode, off for adventures started before it existed
+  5: snapshot => ({
+    ...snapshot,
+    tabletop: {
+      enabled: false,
+      diceRngState: createDiceSeed(),
+      playerStats: { ...DEFAULT_PLAYER_STATS },
+      companionStats: { ...DEFAULT_PLAYER_STATS }
+    }
+  }),
+  // v7: combat encounters
+  6: snapshot => ({ ...snapshot, encounter: null }),
+  // v8: secondary NPCs
+  7: snapshot => ({ ...snapshot, npcs: [] }),
+  // v9: message kinds and speakers, inferred from what older messages carried
+  8: snapshot => ({
+    ...snapshot,
+    chatHistory: snapshot.chatHistory.map((msg: any) => withMessageKind(msg, snapshot.character.characterName, snapshot.npcs))
+  }),
+  // v10: how often the companion speaks up unprompted
+  9: snapshot => ({
+    ...snapshot,
+    companion: { ...snapshot.companion, chattiness: DEFAULT_CHATTINESS }
+  }),
+  // v11: story arc, and endings that say how the adventure ended. Adventures under way get a
+  // fresh rising action; the old endings only ever followed a completed main quest
+  10: snapshot => {
+    const turns = snapshot.chatHistory.filter((msg: StoredChatMessage) => msg.kind === 'player').length;
+    return {
+      ...snapshot,
+      storyArc: { stage: snapshot.ending ? 'resolution' : 'rising_action', turn: turns, stageStartedAt: turns },
+      ending: snapshot.ending && {
+        ...snapshot.ending,
+        endingType: 'triumph',
+        title: snapshot.ending.questTitle,
+        mainQuestCompleted: true,
+        stats: computeAdventureStats(snapshot.chatHistory, snapshot.world || createWorldModel(), snapshot.quests, snapshot.companion.relationshipLevel, snapshot.npcs.length)
+      }
+    };
+  },
+  // v12: the pacing director replaces the companion's random appearance threshold
+  11: snapshot => {
+    const { userResponseCount, companionAppearanceThreshold, ...progress } = snapshot.progress;
+    return {
+      ...snapshot,
+      progress: { ...progress, pacing: createPacingState(snapshot.storyArc, snapshot.companion.isPresent) }
+    };
+  },
+  // v13: the player's own character; older adventures were played as an anonymous "you"
+  12: snapshot => ({ ...snapshot, player: createPlayerCharacter() }),
+  // v14: scene tags for the soundscape; older scenes fall back to the genre's music
+  13: snapshot => ({ ...snapshot, progress: { ...snapshot.progress, sceneTags: [] } })
+};
+
+function withMessageKind(msg: any, companionName: string, npcs: SecondaryNpc[]): StoredChatMessage {
+  const { speakerName, skillCheck, ...rest } = msg;
+  if (msg.sender === 'user') {
+    return { ...rest, kind: 'player' };
+  }
+  if (skillCheck) {
+    return { ...rest, kind: 'dice_roll', skillCheck };
+  }
+  if (speakerName && speakerName === companionName) {
+    return { ...rest, kind: 'companion_speech', speaker: { name: speakerName } };
+  }
+  if (speakerName) {
+    const npc = npcs.find(entry => entry.name === speakerName);
+    return { ...rest, kind: 'npc_speech', speaker: { name: speakerName, npcId: npc?.id } };
+  }
+  return { ...rest, kind: 'narration' };
+}
+
+/**
+ * Brings a stored snapshot of any older version up to ADVENTURE_SNAPSHOT_VERSION.
+ */
+export function migrateSnapshot(raw: unknown): AdventureSnapshot {
+  if (!raw || typeof raw !== 'object' || typeof (raw as any).version !== 'number') {
+    throw new Error('[Saves] Not an adventure snapshot');
+  }
+
+  let snapshot: any = raw;
+  if (snapshot.version > ADVENTURE_SNAPSHOT_VERSION) {
+    throw new Error(`[Saves] Snapshot version ${snapshot.version} was written by a newer version of the game`);
+  }
+
+  while (snapshot.version < ADVENTURE_SNAPSHOT_VERSION) {
+    const migrate = SNAPSHOT_MIGRATIONS[snapshot.version];
+    if (!migrate) {
+      throw new Error(`[Saves] No migration from snapshot version ${snapshot.version}`);
+    }
+    console.log(`[Saves] Migrating snapshot "${snapshot.name}" from version ${snapshot.version}`);
+    snapshot = { ...migrate(snapshot), version: snapshot.version + 1 };
+  }
+
+  // Fields every version must have, so a damaged save fails here instead of mid-game
+  if (!snapshot.character?.characterName || !Array.isArray(snapshot.chatHistory)) {
+    throw new Error(`[Saves] Snapshot "${snapshot.name}" is missing character or chat data`);
+  }
+  snapshot.world = snapshot.world || createWorldModel();
+
+  return snapshot as AdventureSnapshot;
+}
+
+/**
+ * A fresh start in the same world: the same genre, companion, opening scene and quests, with
+ * everything the player did, met and earned cleared away.
+ */
+export function buildReplaySnapshot(snapshot: AdventureSnapshot, id: string): AdventureSnapshot {
+  const startingLocation = Object.values(snapshot.world.locations)[0];
+  const now = Date.now();
+  return {
+    ...snapshot,
+    id,
+    createdAt: now,
+    savedAt: now,
+    companion: {
+      isPresent: false,
+      currentMood: '',
+      currentStyle: '',
+      relationshipLevel: INITIAL_RELATIONSHIP_LEVEL,
+      relationshipMilestones: [],
+      memory: createCompanionMemory(),
+      chattiness: snapshot.companion.chattiness
+    },
+    progress: {
+      pacing: createPacingState(createStoryArc(), false),
+      currentLocationDescription: snapshot.scene.narration,
+      recentSceneElements: [],
+      sceneTags: []
+    },
+    world: createWorldModel(snapshot.world.setting, startingLocation && {
+      name: startingLocation.name,
+      description: startingLocation.description
+    }),
+    inventory: [],
+    quests: snapshot.quests.map(({ completedAt, ...objective }) => ({ ...objective, status: 'active', progress: [] })),
+    storyArc: createStoryArc(),
+    ending: null,
+    tabletop: { ...snapshot.tabletop, diceRngState: createDiceSeed() },
+    encounter: null,
+    npcs: [],
+    chatHistory: [{
+      id: 1,
+      sender: 'companion',
+      kind: 'narration',
+      text: snapshot.scene.narration,
+      imageUrl: snapshot.scene.imageUrl || undefined
+    }]
+  };
+}
+
+export function summarizeSnapshot(snapshot: AdventureSnapshot): SaveSlotSummary {
+  return {
+    id: snapshot.id,
+    name: snapshot.name,
+    genre: snapshot.genre,
+    characterName: snapshot.character.characterName,
+    savedAt: snapshot.savedAt,
+    turnCount: snapshot.chatHistory.filter(msg => msg.kind === 'player').length,
+    isAutosave: snapshot.id === AUTOSAVE_SLOT_ID
+  };
+}
@@ -25,4 +25,48 @@ export const INTERRUPT_SENSITIVITY_OPTIONS = [
 // Audio processing thresholds
 export const QUIET_THRESHOLD = 0.2; // Adjust this value based on testing
 export const QUIET_DURATION = 3000; // milliseconds, was 2000, increased for more tolerance
-export const EXTENDED_QUIET_DURATION = 10000; // milliseconds
\ No newline at end of file
+export const EXTENDED_QUIET_DURATION = 10000; // milliseconds
+
+// Text generation providers
+export type TextProviderId = 'groq' | 'openai-compatible' | 'gemini';
+export const DEFAULT_TEXT_PROVIDER: TextProviderId = 'groq';
+export const TEXT_PROVIDER_IDS: TextProviderId[] = ['groq', 'openai-compatible', 'gemini'];
+
+export interface TextModelSet {
+  fast: string;       // Short, low-latency replies (companion dialogue, classification)
+  creative: string;   // Narration and scene writing
+  structured: string; // Requests that send a JSON Schema
+}
+
+export const GROQ_TEXT_MODELS: TextModelSet = {
+  fast: 'llama-3.1-8b-instant',
+  creative: 'llama-3.3-70b-versatile',
+  structured: 'meta-llama/llama-4-maverick-17b-128e-instruct'
+};
+export const GROQ_API_BASE_URL = 'https://api.groq.com/openai/v1';
+export const GROQ_PROXY_URL = '/api/groq';
+
+export const DEFAULT_GEMINI_TEXT_MODEL = 'gemini-2.5-flash';
+
+// Speech output. 'none' is text-only: nothing is spoken and no speech API is called
+export type SpeechProviderId = 'elevenlabs' | 'gemini' | 'browser' | 'none';
+export const DEFAULT_SPEECH_PROVIDER: SpeechProviderId = 'elevenlabs';
+export const SPEECH_PROVIDER_OPTIONS: Array<{ id: SpeechProviderId; label: string }> = [
+  { id: 'elevenlabs', label: 'ElevenLabs' },
+  { id: 'gemini', label: 'Gemini' },
+  { id: 'browser', label: 'Browser' },
+  { id: 'none', label: 'Text only' }
+];
+export const GEMINI_TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+export const ELEVENLABS_TTS_MODEL = 'eleven_turbo_v2_5';
+export const DEFAULT_ELEVENLABS_OUTPUT_FORMAT = 'mp3_44100_128';
+
+// Ollama's OpenAI-compatible endpoint. llama.cpp server uses http://localhost:8080/v1, LM Studio http://localhost:1234/v1
+export const DEFAULT_LOCAL_LLM_BASE_URL = 'http://localhost:11434/v1';
+export const DEFAULT_LOCAL_LLM_MODEL = 'llama3.1';
+
+// Provider modes: 'record' captures live responses to fixtures, 'replay' serves them back,
+// 'mock' returns canned payloads. 'replay' and 'mock' make no network calls.
+export type ProviderMode = 'live' | 'record' | 'replay' | 'mock';
+export const PROVIDER_MODES: ProviderMode[] = ['live', 'record', 'replay', 'mock'];
+export const DEFAULT_PROVIDER_MODE: ProviderMode = 'live';
@@ -0,0 +1,318 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { ref, Ref } from 'vue';
+import { audioEventBus } from './audio-event-bus';
+
+/**
+ * Audio that has started playing and can still be paused or stopped. finished resolves when
+ * playback ends, including when it is stopped, and rejects only if playback itself failed.
+ */
+export interface Playback {
+  finished: Promise<void>;
+  pause(): void;
+  resume(): void;
+  stop(): void;
+  setVolume(volume: number): void; // 0-1
+}
+
+export type PlaybackPriority = 'high' | 'normal' | 'low';
+
+const PRIORITY_RANK: Record<PlaybackPriority, number> = { high: 0, normal: 1, low: 2 };
+
+export interface PlaybackLineOptions {
+  source: 'conversation' | 'narration';
+  priority?: PlaybackPriority;
+  label?: string; // Who or what is speaking, for the logs and to tell replayable lines apart
+  /** Called right before the line's first segment starts playing. */
+  onStart?: () => void;
+  /** Called once the line has finished or was cancelled, only if anything was played. */
+  onEnd?: () => void;
+}
+
+/**
+ * One utterance in the queue: a narration, a reply or a replayed chat line. Its audio arrives
+ * in segments, usually one per sentence, and plays in the order the segments were added.
+ */
+export interface QueuedLine {
+  readonly isCancelled: boolean;
+  /**
+   * Plays a segment once the line's turn has come and every earlier segment has played.
+   * Resolves when the segment has finished, or right away if the line was cancelled.
+   */
+  play(start: () => Playback): Promise<void>;
+  /** No more segments will be added; the queue moves on once the last one has played. */
+  close(): void;
+  /** Resolves when the line has finished playing or was cancelled. */
+  finished: Promise<void>;
+}
+
+export interface PlaybackQueueState {
+  isPlaying: boolean;
+  isPaused: boolean;
+  current: string | null; // Label of the line that is playing
+  pending: number; // Lines waiting behind it
+}
+
+interface Segment {
+  start: () => Playback;
+  done: () => void;
+}
+
+interface LineEntry {
+  id: number;
+  options: PlaybackLineOptions;
+  rank: number;
+  segments: Segment[];
+  playback: Playback | null;
+  isClosed: boolean;
+  isCancelled: boolean;
+  hasStarted: boolean;
+  resolveFinished: () => void;
+  finished: Promise<void>;
+}
+
+/**
+ * Every utterance the game speaks goes through this queue, so only one plays at a time and
+ * all of them can be stopped. Lines play by priority and then in the order they were queued;
+ * a line that has started is never cut off by a more urgent one, only by skip() or a barge-in.
+ * The queue is what tells audioEventBus whether speech is playing.
+ */
+export class AudioPlaybackQueue {
+  private pending: LineEntry[] = [];
+  private current: LineEntry | null = null;
+  private isPaused = false;
+  private isReportingPlayback = false;
+  private nextId = 1;
+  private voiceVolume = 1;
+  private queueState: Ref<PlaybackQueueState> = ref({ isPlaying: false, isPaused: false, current: null, pending: 0 });
+
+  get state() {
+    return this.queueState;
+  }
+
+  get volume(): number {
+    return this.voiceVolume;
+  }
+
+  /** Volume of everything spoken, applied to the line that is playing as well. */
+  setVolume(volume: number): void {
+    this.voiceVolume = volume;
+    this.current?.playback?.setVolume(volume);
+  }
+
+  /**
+   * Queues a line whose segments are added as they become ready. The caller must close() it,
+   * or the lines behind it never play.
+   */
+  openLine(options: PlaybackLineOptions): QueuedLine {
+    let resolveFinished!: () => void;
+    const finished = new Promise<void>(resolve => {
+      resolveFinished = resolve;
+    });
+    const entry: LineEntry = {
+      id: this.nextId++,
+      options,
+      rank: PRIORITY_RANK[options.priority || 'normal'],
+      segments: [],
+      playback: null,
+      isClosed: false,
+      isCancelled: false,
+      hasStarted: false,
+      resolveFinished,
+      finished
+    };
+
+    // Behind every line of the same or higher priority
+    const index = this.pending.findIndex(other => other.rank > entry.rank);
+    this.pending.splice(index < 0 ? this.pending.length : index, 0, entry);
+    this.pump();
+
+    return {
+      get isCancelled() {
+        return entry.isCancelled;
+      },
+      play: start => this.addSegment(entry, start),
+      close: () => {
+        if (entry.isClosed) return;
+        entry.isClosed = true;
+        this.pump();
+      },
+      finished
+    };
+  }
+
+  /**
+   * Queues a line made of a single segment and resolves when it has played.
+   */
+  async speak(options: PlaybackLineOptions, start: () => Playback): Promise<void> {
+    const line = this.openLine(options);
+    const playback = line.play(start);
+    line.close();
+    await playback;
+  }
+
+  /** Stops the line that is playing; the next one starts right away. */
+  skip(): void {
+    if (this.current) {
+      console.log(`[PlaybackQueue] Skipping ${this.describe(this.current)}`);
+      this.cancel(this.current);
+    }
+  }
+
+  /** Stops the line that is playing and drops everything queued behind it. */
+  skipAll(): void {
+    if (!this.current && !this.pending.length) return;
+    console.log(`[PlaybackQueue] Skipping all ${this.pending.length + (this.current ? 1 : 0)} line(s)`);
+    this.cancelAll();
+  }
+
+  /**
+   * The player started talking. What was being said and what was about to be said belong to
+   * the turn they are interrupting, so all of it is dropped.
+   */
+  bargeIn(): void {
+    if (!this.current && !this.pending.length) return;
+    console.log(`[PlaybackQueue] Barge-in, cancelling ${this.current ? this.describe(this.current) : 'queued lines'}`);
+    this.cancelAll();
+  }
+
+  pause(): void {
+    if (this.isPaused) return;
+    this.isPaused = true;
+    this.current?.playback?.pause();
+    this.updateState();
+  }
+
+  resume(): void {
+    if (!this.isPaused) return;
+    this.isPaused = false;
+    this.current?.playback?.resume();
+    this.updateState();
+    this.pump();
+  }
+
+  private addSegment(entry: LineEntry, start: () => Playback): Promise<void> {
+    if (entry.isCancelled || entry.isClosed) return Promise.resolve();
+    return new Promise<void>(resolve => {
+      entry.segments.push({ start, done: resolve });
+      this.pump();
+    });
+  }
+
+  private describe(entry: LineEntry): string {
+    return `line ${entry.id}${entry.options.label ? ` (${entry.options.label})` : ''}`;
+  }
+
+  // Starts the next line or segment if nothing is playing
+  private pump(): void {
+    if (!this.current) {
+      this.current = this.pending.shift() || null;
+      if (!this.current) {
+        this.updateState();
+        return;
+      }
+    }
+
+    const entry = this.current;
+    if (entry.playback || this.isPaused) {
+      this.updateState();
+      return;
+    }
+
+    const segment = entry.segments.shift();
+    if (!segment) {
+      if (entry.isClosed) {
+        this.finishLine(entry);
+        this.pump();
+      } else {
+        this.updateState();
+      }
+      return;
+    }
+
+    if (!entry.hasStarted) {
+      entry.hasStarted = true;
+      entry.options.onStart?.();
+      audioEventBus.startTTS(entry.options.source);
+      this.isReportingPlayback = true;
+    }
+
+    let playback: Playback;
+    try {
+      playback = segment.start();
+    } catch (error) {
+      console.error('[PlaybackQueue] Starting playback failed:', error);
+      segment.done();
+      this.pump();
+      return;
+    }
+    entry.playback = playback;
+    playback.setVolume(this.voiceVolume);
+    this.updateState();
+
+    playback.finished
+      .catch(error => console.error('[PlaybackQueue] Playback failed:', error))
+      .then(() => {
+        segment.done();
+        // A cancelled line has already moved on
+        if (entry.playback !== playback) return;
+        entry.playback = null;
+        this.pump();
+      });
+  }
+
+  private finishLine(entry: LineEntry): void {
+    if (this.current === entry) {
+      this.current = null;
+    }
+    this.pending = this.pending.filter(other => other !== entry);
+    entry.segments.forEach(segment => segment.done());
+    entry.segments = [];
+    if (entry.hasStarted) {
+      entry.options.onEnd?.();
+    }
+    entry.resolveFinished();
+
+    if (this.isReportingPlayback && !this.pending.length) {
+      this.isReportingPlayback = false;
+      audioEventBus.endTTS();
+    }
+  }
+
+  private cancel(entry: LineEntry): void {
+    entry.isCancelled = true;
+    entry.isClosed = true;
+    const playback = entry.playback;
+    entry.playback = null;
+    playback?.stop();
+    this.finishLine(entry);
+    this.pump();
+  }
+
+  private cancelAll(): void {
+    const entries = this.current ? [this.current, ...this.pending] : [...this.pending];
+    // Drop the queue first, so stopping the current line does not start the next one
+    this.pending = [];
+    // Nothing is left to resume, and the next line should be heard
+    this.isPaused = false;
+    entries.forEach(entry => {
+      entry.isCancelled = true;
+      entry.isClosed = true;
+    });
+    entries.forEach(entry => this.cancel(entry));
+  }
+
+  private updateState(): void {
+    this.queueState.value = {
+      isPlaying: !!this.current?.hasStarted,
+      isPaused: this.isPaused,
+      current: this.current?.hasStarted ? this.current.options.label || this.current.options.source : null,
+      pending: this.pending.length
+    };
+  }
+}
+
+// Export singleton instance
+export const audioPlaybackQueue = new AudioPlaybackQueue();
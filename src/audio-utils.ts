@@ -4,7 +4,7 @@
  */
 
 // Decode base64 string to Uint8Array
-function decodeBase64(base64: string): Uint8Array {
+export function decodeBase64(base64: string): Uint8Array {
   const binaryString = atob(base64);
   const len = binaryString.length;
   const bytes = new Uint8Array(len);
@@ -15,7 +15,7 @@ function decodeBase64(base64: string): Uint8Array {
 }
 
 // Encode Uint8Array to base64 string
-function encodeBytes(bytes: Uint8Array): string {
+export function encodeBytes(bytes: Uint8Array): string {
   let binary = '';
   const len = bytes.byteLength;
   for (let i = 0; i < len; i++) {
@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { SkillCheckResult } from './skill-checks';
+
+/**
+ * What a chat message is. The panel renders each kind differently, and prompt builders use it
+ * to label history lines, so the models can tell the narrator from the characters.
+ */
+export type ChatMessageKind =
+  | 'player'            // Typed or spoken by the player
+  | 'narration'         // The narrator describing scenes, outcomes and combat
+  | 'companion_speech'  // The companion talking in character
+  | 'npc_speech'        // A secondary NPC talking in character
+  | 'dice_roll'         // A tabletop stat check
+  | 'item_event'        // An item gained or lost
+  | 'system';           // App notices and failures; never part of the story
+
+export interface ChatSpeaker {
+  name: string;
+  npcId?: string; // Set when the speaker is a secondary NPC
+}
+
+interface ChatMessageBase {
+  id: number;
+  sender: 'user' | 'companion'; // 'companion' is everything the player did not say; kind says what it is
+  text: string;
+  imageUrl?: string; // Optional image URL for messages with images
+}
+
+export type StoredChatMessage = ChatMessageBase & (
+  | { kind: 'player' | 'narration' | 'item_event' | 'system' }
+  | { kind: 'companion_speech' | 'npc_speech'; speaker: ChatSpeaker }
+  | { kind: 'dice_roll'; skillCheck: SkillCheckResult }
+);
+
+export type ChatMessage = StoredChatMessage & {
+  isNarrating?: boolean; // Optional flag to indicate if this message is currently being narrated
+};
+
+/**
+ * The parts of a message a prompt needs. speakerName is only used for speech.
+ */
+export interface HistoryEntry {
+  kind: ChatMessageKind;
+  text: string;
+  speakerName?: string;
+}
+
+export function toHistoryEntry(message: StoredChatMessage): HistoryEntry {
+  return {
+    kind: message.kind,
+    text: message.text,
+    speakerName: 'speaker' in message ? message.speaker.name : undefined
+  };
+}
+
+/**
+ * Label for a history line in a prompt, or null for messages that are not part of the story.
+ */
+export function historyLabel(entry: HistoryEntry): string | null {
+  switch (entry.kind) {
+    case 'player': return 'Player';
+    case 'narration': return 'Narrator';
+    case 'companion_speech': return `${entry.speakerName || 'Companion'} (companion)`;
+    case 'npc_speech': return entry.speakerName || 'Stranger';
+    case 'dice_roll': return 'Dice';
+    case 'item_event': return 'Inventory';
+    case 'system': return null;
+  }
+}
+
+export function formatHistoryForPrompt(entries: HistoryEntry[]): string {
+  return entries
+    .map(entry => {
+      const label = historyLabel(entry);
+      return label && entry.text.trim() ? `${label}: ${entry.text}` : null;
+    })
+    .filter(line => line !== null)
+    .join('\n');
+}
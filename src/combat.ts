@@ -0,0 +1,486 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { Infer, s } from './structured-output';
+import { CharacterStats, SeededRandom } from './skill-checks';
+import { InventoryItem, NewInventoryItem, findInventoryItem } from './inventory';
+import { WorldPatch, worldKey } from './world-model';
+import { StoryArcStage } from './story-arc';
+
+export const ENEMY_THREATS = ['minion', 'standard', 'elite', 'boss'] as const;
+export type EnemyThreat = typeof ENEMY_THREATS[number];
+
+/** How the companion fights, picked by the Story Weaver from the companion's traits */
+export const COMPANION_TACTICS = ['aggressive', 'protective', 'cautious'] as const;
+export type CompanionTactic = typeof COMPANION_TACTICS[number];
+
+export const MAX_ENEMIES = 4;
+export const MAX_LOOT = 3;
+
+export const PLAYER_COMBATANT_ID = 'player';
+export const COMPANION_COMBATANT_ID = 'companion';
+
+export type CombatSide = 'player' | 'ally' | 'enemy';
+export type EncounterPhase = 'active' | 'victory' | 'defeat' | 'fled';
+
+export interface Combatant {
+  id: string; // PLAYER_COMBATANT_ID, COMPANION_COMBATANT_ID or "enemy-<n>"
+  name: string;
+  side: CombatSide;
+  description: string;
+  threat?: EnemyThreat; // Enemies only
+  hp: number;
+  maxHp: number;
+  defense: number; // Attack total needed to hit
+  attackBonus: number;
+  damageDie: number;
+  damageBonus: number;
+  initiative: number;
+  guarding: boolean; // Harder to hit until this combatant's next turn
+}
+
+export interface CombatEvent {
+  round: number;
+  actorId: string;
+  text: string; // Mechanical summary shown in the encounter panel and given to the narrator
+}
+
+/**
+ * A fight in progress. Combatants are kept in initiative order and the encounter always
+ * waits on the player's turn; everyone else acts when the player does.
+ */
+export interface Encounter {
+  id: string;
+  phase: EncounterPhase;
+  round: number;
+  combatants: Combatant[];
+  companionTactic: CompanionTactic;
+  loot: NewInventoryItem[]; // Taken on victory
+  defeatConsequence: string; // What befalls the player if they lose
+  log: CombatEvent[];
+  startedAt: number; // Message id of the narration that started the fight
+}
+
+export const ENCOUNTER_SCHEMA = s.object({
+  enemies: s.array(s.object({
+    name: s.string({ minLength: 1 }),
+    description: s.string(),
+    threat: s.enum(ENEMY_THREATS)
+  }), { description: `1 to ${MAX_ENEMIES} opponents` }),
+  companionTactic: s.enum(COMPANION_TACTICS),
+  loot: s.array(s.object({
+    name: s.string({ minLength: 1 }),
+    description: s.string(),
+    tags: s.array(s.string())
+  }), { description: `Up to ${MAX_LOOT} items the player can take after winning` }),
+  defeatConsequence: s.string({ description: 'What happens to the player if they lose, short of death' })
+});
+
+export type EncounterSetup = Infer<typeof ENCOUNTER_SCHEMA>;
+
+type StatBlock = Pick<Combatant, 'maxHp' | 'defense' | 'attackBonus' | 'damageDie'> & { initiativeBonus: number };
+
+// The model only names the threat level; the numbers come from here so fights stay fair
+const ENEMY_STAT_BLOCKS: Record<EnemyThreat, StatBlock> = {
+  minion: { maxHp: 6, defense: 10, attackBonus: 2, damageDie: 4, initiativeBonus: 1 },
+  standard: { maxHp: 12, defense: 12, attackBonus: 3, damageDie: 6, initiativeBonus: 1 },
+  elite: { maxHp: 20, defense: 13, attackBonus: 4, damageDie: 8, initiativeBonus: 2 },
+  boss: { maxHp: 30, defense: 14, attackBonus: 5, damageDie: 10, initiativeBonus: 3 }
+};
+
+const GUARD_BONUS = 4;
+const ITEM_ATTACK_BONUS = 2;
+const HEALING_TAGS = ['healing', 'medicine', 'potion', 'food'];
+
+export type CombatActionType = 'attack' | 'defend' | 'use_item' | 'flee';
+
+export interface CombatAction {
+  type: CombatActionType;
+  targetId?: string; // attack and use_item
+  itemId?: string; // use_item
+}
+
+/** A suggested action for the encounter panel; the phrase is what gets sent when it is picked */
+export interface CombatActionOption {
+  label: string;
+  phrase: string;
+}
+
+export interface CombatTurnResult {
+  encounter: Encounter;
+  events: CombatEvent[];
+  consumedItemId?: string;
+}
+
+const isDown = (combatant: Combatant) => combatant.hp <= 0;
+
+export const livingEnemies = (encounter: Encounter): Combatant[] =>
+  encounter.combatants.filter(combatant => combatant.side === 'enemy' && !isDown(combatant));
+
+export const getCombatant = (encounter: Encounter, id: string): Combatant | undefined =>
+  encounter.combatants.find(combatant => combatant.id === id);
+
+function heroCombatant(id: string, name: string, side: CombatSide, description: string, stats: CharacterStats, baseHp: number): Combatant {
+  return {
+    id,
+    name,
+    side,
+    description,
+    hp: baseHp + stats.might * 2,
+    maxHp: baseHp + stats.might * 2,
+    defense: 10 + stats.agility,
+    attackBonus: 2 + Math.max(stats.might, stats.agility),
+    damageDie: 6,
+    damageBonus: Math.max(0, stats.might),
+    initiative: 0,
+    guarding: false
+  };
+}
+
+// Repeated names get a number so the player can say which one they mean
+function uniqueEnemyNames(names: string[]): string[] {
+  return names.map((name, index) => {
+    const total = names.filter(other => worldKey(other) === worldKey(name)).length;
+    if (total === 1) return name;
+    const position = names.slice(0, index + 1).filter(other => worldKey(other) === worldKey(name)).length;
+    return `${name} ${position}`;
+  });
+}
+
+/**
+ * Builds the encounter from the Story Weaver's setup and rolls initiative. Anyone faster
+ * than the player acts straight away, so the returned events may already contain attacks.
+ */
+export function createEncounter(
+  setup: EncounterSetup,
+  player: { stats: CharacterStats },
+  companion: { name: string; description: string; stats: CharacterStats } | null,
+  rng: SeededRandom,
+  messageId: number
+): CombatTurnResult {
+  const enemies = setup.enemies.slice(0, MAX_ENEMIES);
+  const names = uniqueEnemyNames(enemies.map(enemy => enemy.name.trim()));
+
+  const rollInitiative = (bonus: number) => rng.rollDie(20) + bonus;
+
+  const combatants: Combatant[] = [
+    { ...heroCombatant(PLAYER_COMBATANT_ID, 'You', 'player', 'The player', player.stats, 20), initiative: rollInitiative(player.stats.agility) }
+  ];
+  if (companion) {
+    combatants.push({
+      ...heroCombatant(COMPANION_COMBATANT_ID, companion.name, 'ally', companion.description, companion.stats, 16),
+      initiative: rollInitiative(companion.stats.agility)
+    });
+  }
+  enemies.forEach((enemy, index) => {
+    const block = ENEMY_STAT_BLOCKS[enemy.threat];
+    combatants.push({
+      id: `enemy-${index + 1}`,
+      name: names[index],
+      side: 'enemy',
+      description: enemy.description,
+      threat: enemy.threat,
+      hp: block.maxHp,
+      maxHp: block.maxHp,
+      defense: block.defense,
+      attackBonus: block.attackBonus,
+      damageDie: block.damageDie,
+      damageBonus: 0,
+      initiative: rollInitiative(block.initiativeBonus),
+      guarding: false
+    });
+  });
+
+  // Highest first; ties go to the player's side
+  combatants.sort((a, b) => b.initiative - a.initiative || (a.side === 'enemy' ? 1 : 0) - (b.side === 'enemy' ? 1 : 0));
+
+  const encounter: Encounter = {
+    id: `encounter-${messageId}`,
+    phase: enemies.length > 0 ? 'active' : 'victory',
+    round: 1,
+    combatants,
+    companionTactic: setup.companionTactic,
+    loot: setup.loot.slice(0, MAX_LOOT),
+    defeatConsequence: setup.defeatConsequence.trim(),
+    log: [],
+    startedAt: messageId
+  };
+
+  const playerIndex = combatants.findIndex(combatant => combatant.id === PLAYER_COMBATANT_ID);
+  const events: CombatEvent[] = [];
+  for (let index = 0; index < playerIndex && encounter.phase === 'active'; index++) {
+    takeAutomaticTurn(encounter, combatants[index], rng, events);
+  }
+  encounter.log = events;
+  return { encounter, events };
+}
+
+function findNamedEnemy(input: string, encounter: Encounter): Combatant | undefined {
+  const text = worldKey(input);
+  const enemies = livingEnemies(encounter);
+  return enemies.find(enemy => text.includes(worldKey(enemy.name)))
+    || enemies.find(enemy => worldKey(enemy.name).split(/\s+/).some(word => word.length > 3 && text.includes(word)));
+}
+
+/**
+ * Reads a spoken or typed command. Returns null when the input does not look like any
+ * combat action, so the caller can list what the player can do instead.
+ */
+export function parseCombatAction(input: string, encounter: Encounter, inventory: InventoryItem[]): CombatAction | null {
+  const text = worldKey(input);
+  const namedEnemy = findNamedEnemy(input, encounter);
+  const defaultTarget = namedEnemy || livingEnemies(encounter)[0];
+
+  if (/\b(flee|run|escape|retreat)\b/.test(text)) {
+    return { type: 'flee' };
+  }
+
+  const useMatch = text.match(/\b(use|drink|throw|light|eat|apply|read|wield|raise)\b\s+(?:the |my |a |an |some )?(.+)/);
+  if (useMatch) {
+    const item = findInventoryItem(inventory, useMatch[2]);
+    if (item) {
+      return { type: 'use_item', itemId: item.id, targetId: defaultTarget?.id };
+    }
+  }
+
+  if (/\b(defend|block|parry|dodge|guard|brace|shield|cover)\b/.test(text)) {
+    return { type: 'defend' };
+  }
+
+  if (namedEnemy || /\b(attack|hit|strike|stab|slash|shoot|fight|punch|kick|swing|charge|smash|cast|fire|bash)\b/.test(text)) {
+    return defaultTarget ? { type: 'attack', targetId: defaultTarget.id } : null;
+  }
+
+  return null;
+}
+
+const isHealingItem = (item: InventoryItem) => item.tags.some(tag => HEALING_TAGS.includes(tag));
+
+export function getCombatActionOptions(encounter: Encounter, inventory: InventoryItem[]): CombatActionOption[] {
+  const options: CombatActionOption[] = livingEnemies(encounter).map(enemy => ({
+    label: `Attack ${enemy.name}`,
+    phrase: `Attack the ${enemy.name}`
+  }));
+  options.push({ label: 'Defend', phrase: 'Defend' });
+  [...inventory]
+    .sort((a, b) => Number(isHealingItem(b)) - Number(isHealingItem(a)))
+    .slice(0, 2)
+    .forEach(item => options.push({ label: `Use ${item.name}`, phrase: `Use the ${item.name}` }));
+  options.push({ label: 'Flee', phrase: 'Flee' });
+  return options;
+}
+
+function attack(encounter: Encounter, attacker: Combatant, target: Combatant, rng: SeededRandom, events: CombatEvent[], bonus = 0, weapon = ''): void {
+  const roll = rng.rollDie(20);
+  const total = roll + attacker.attackBonus + bonus;
+  const defense = target.defense + (target.guarding ? GUARD_BONUS : 0);
+  const targetName = target.id === PLAYER_COMBATANT_ID ? 'you' : target.name;
+  const how = weapon ? ` with the ${weapon}` : '';
+
+  if (roll === 1 || (roll !== 20 && total < defense)) {
+    events.push({ round: encounter.round, actorId: attacker.id, text: `${attacker.name} attack${attacker.id === PLAYER_COMBATANT_ID ? '' : 's'} ${targetName}${how} and miss${attacker.id === PLAYER_COMBATANT_ID ? '' : 'es'} (${total} vs ${defense}).` });
+    return;
+  }
+
+  // A natural 20 rolls the damage die twice
+  const dice = roll === 20 ? rng.rollDie(attacker.damageDie) + rng.rollDie(attacker.damageDie) : rng.rollDie(attacker.damageDie);
+  const damage = Math.max(1, dice + attacker.damageBonus);
+  target.hp = Math.max(0, target.hp - damage);
+
+  const verb = attacker.id === PLAYER_COMBATANT_ID ? 'hit' : 'hits';
+  const critical = roll === 20 ? ' Critical hit!' : '';
+  const downed = isDown(target) ? ` ${target.id === PLAYER_COMBATANT_ID ? 'You fall' : `${target.name} ${target.side === 'enemy' ? 'is defeated' : 'is down'}`}.` : '';
+  events.push({ round: encounter.round, actorId: attacker.id, text: `${attacker.name} ${verb} ${targetName}${how} for ${damage} damage.${critical}${downed}` });
+}
+
+function updatePhase(encounter: Encounter): void {
+  if (encounter.phase !== 'active') return;
+  if (isDown(getCombatant(encounter, PLAYER_COMBATANT_ID)!)) {
+    encounter.phase = 'defeat';
+  } else if (livingEnemies(encounter).length === 0) {
+    encounter.phase = 'victory';
+  }
+}
+
+const lowestHp = (combatants: Combatant[]) => [...combatants].sort((a, b) => a.hp - b.hp)[0];
+const mostDangerous = (combatants: Combatant[]) => [...combatants].sort((a, b) => b.attackBonus - a.attackBonus || b.hp - a.hp)[0];
+
+function takeCompanionTurn(encounter: Encounter, companion: Combatant, rng: SeededRandom, events: CombatEvent[]): void {
+  const player = getCombatant(encounter, PLAYER_COMBATANT_ID)!;
+  const enemies = livingEnemies(encounter);
+
+  switch (encounter.companionTactic) {
+    case 'protective':
+      if (player.hp <= player.maxHp / 2) {
+        player.guarding = true;
+        events.push({ round: encounter.round, actorId: companion.id, text: `${companion.name} moves to shield you.` });
+        return;
+      }
+      attack(encounter, companion, mostDangerous(enemies), rng, events);
+      return;
+    case 'cautious':
+      if (companion.hp <= companion.maxHp / 2) {
+        companion.guarding = true;
+        events.push({ round: encounter.round, actorId: companion.id, text: `${companion.name} hangs back and defends.` });
+        return;
+      }
+      attack(encounter, companion, lowestHp(enemies), rng, events);
+      return;
+    default:
+      attack(encounter, companion, lowestHp(enemies), rng, events);
+  }
+}
+
+function takeEnemyTurn(encounter: Encounter, enemy: Combatant, rng: SeededRandom, events: CombatEvent[]): void {
+  const player = getCombatant(encounter, PLAYER_COMBATANT_ID)!;
+  const companion = getCombatant(encounter, COMPANION_COMBATANT_ID);
+  // Enemies mostly go for the player, but a standing companion draws some of the attacks
+  const target = companion && !isDown(companion) && rng.next() < 0.35 ? companion : player;
+  attack(encounter, enemy, target, rng, events);
+}
+
+function takeAutomaticTurn(encounter: Encounter, combatant: Combatant, rng: SeededRandom, events: CombatEvent[]): void {
+  if (isDown(combatant) || encounter.phase !== 'active') return;
+  combatant.guarding = false;
+  if (combatant.side === 'ally') {
+    takeCompanionTurn(encounter, combatant, rng, events);
+  } else if (combatant.side === 'enemy') {
+    takeEnemyTurn(encounter, combatant, rng, events);
+  }
+  updatePhase(encounter);
+}
+
+function takePlayerTurn(encounter: Encounter, action: CombatAction, stats: CharacterStats, inventory: InventoryItem[], rng: SeededRandom, events: CombatEvent[]): string | undefined {
+  const player = getCombatant(encounter, PLAYER_COMBATANT_ID)!;
+  player.guarding = false;
+  const target = (action.targetId && getCombatant(encounter, action.targetId)) || livingEnemies(encounter)[0];
+
+  switch (action.type) {
+    case 'defend':
+      player.guarding = true;
+      events.push({ round: encounter.round, actorId: player.id, text: 'You brace yourself and defend.' });
+      return undefined;
+
+    case 'flee': {
+      const roll = rng.rollDie(20);
+      const total = roll + stats.agility;
+      const difficulty = 8 + livingEnemies(encounter).length * 2;
+      if (roll !== 1 && total >= difficulty) {
+        encounter.phase = 'fled';
+        events.push({ round: encounter.round, actorId: player.id, text: `You break away and escape (${total} vs ${difficulty}).` });
+      } else {
+        events.push({ round: encounter.round, actorId: player.id, text: `You try to flee but cannot get away (${total} vs ${difficulty}).` });
+      }
+      return undefined;
+    }
+
+    case 'use_item': {
+      const item = inventory.find(entry => entry.id === action.itemId);
+      if (!item) {
+        events.push({ round: encounter.round, actorId: player.id, text: 'You fumble for something you do not have.' });
+        return undefined;
+      }
+      const consumed = item.tags.includes('consumable') ? item.id : undefined;
+      if (isHealingItem(item)) {
+        const healed = Math.min(player.maxHp - player.hp, rng.rollDie(8) + 2);
+        player.hp += healed;
+        events.push({ round: encounter.round, actorId: player.id, text: `You use the ${item.name} and recover ${healed} HP.` });
+        return consumed;
+      }
+      if (target) attack(encounter, player, target, rng, events, ITEM_ATTACK_BONUS, item.name);
+      return consumed;
+    }
+
+    default:
+      if (target) attack(encounter, player, target, rng, events);
+      return undefined;
+  }
+}
+
+/**
+ * Resolves the player's action, then lets everyone else act in initiative order until it
+ * is the player's turn again or the fight is over.
+ */
+export function resolveCombatTurn(
+  current: Encounter,
+  action: CombatAction,
+  playerStats: CharacterStats,
+  inventory: InventoryItem[],
+  rng: SeededRandom
+): CombatTurnResult {
+  const encounter: Encounter = {
+    ...current,
+    combatants: current.combatants.map(combatant => ({ ...combatant })),
+    loot: [...current.loot]
+  };
+  const events: CombatEvent[] = [];
+
+  const consumedItemId = takePlayerTurn(encounter, action, playerStats, inventory, rng, events);
+  updatePhase(encounter);
+
+  const playerIndex = encounter.combatants.findIndex(combatant => combatant.id === PLAYER_COMBATANT_ID);
+  for (let index = playerIndex + 1; index < encounter.combatants.length; index++) {
+    takeAutomaticTurn(encounter, encounter.combatants[index], rng, events);
+  }
+  if (encounter.phase === 'active') {
+    encounter.round++;
+    for (let index = 0; index < playerIndex; index++) {
+      takeAutomaticTurn(encounter, encounter.combatants[index], rng, events);
+    }
+  }
+
+  encounter.log = [...current.log, ...events];
+  return { encounter, events, consumedItemId };
+}
+
+/**
+ * What the finished fight leaves behind in the world. Minions are not worth remembering as
+ * NPCs; tougher opponents are, along with how the fight went.
+ */
+export function buildEncounterWorldPatch(encounter: Encounter, location: string): WorldPatch {
+  const enemies = encounter.combatants.filter(combatant => combatant.side === 'enemy');
+  const names = enemies.map(enemy => enemy.name).join(', ');
+  const place = location ? ` at ${location}` : '';
+  const notable = enemies.filter(enemy => enemy.threat === 'elite' || enemy.threat === 'boss');
+
+  switch (encounter.phase) {
+    case 'victory':
+      return {
+        facts: [`The player defeated ${names}${place}.`],
+        npcs: notable.map(enemy => ({ name: enemy.name, description: enemy.description, disposition: 'defeated by the player' }))
+      };
+    case 'fled':
+      return {
+        facts: [`The player fled from ${names}${place}.`],
+        npcs: notable.map(enemy => ({ name: enemy.name, description: enemy.description, location, disposition: 'hostile, the player escaped them' }))
+      };
+    case 'defeat':
+      return {
+        facts: [`The player was beaten by ${names}${place}. ${encounter.defeatConsequence}`.trim()],
+        npcs: notable.map(enemy => ({ name: enemy.name, description: enemy.description, disposition: 'hostile, beat the player in a fight' }))
+      };
+    default:
+      return {};
+  }
+}
+
+/**
+ * The arc stage a finished fight proposes. A boss fight is a decisive confrontation: it brings
+ * on the climax, and once the climax is under way it settles it, however the fight went.
+ */
+export function proposeArcStageAfterEncounter(encounter: Encounter, stage: StoryArcStage): StoryArcStage | undefined {
+  const hasBoss = encounter.combatants.some(combatant => combatant.side === 'enemy' && combatant.threat === 'boss');
+  if (encounter.phase === 'active' || !hasBoss) return undefined;
+  return stage === 'climax' ? 'resolution' : 'climax';
+}
+
+export function describeEncounterForPrompt(encounter: Encounter): string {
+  return encounter.combatants
+    .map(combatant => {
+      const state = isDown(combatant) ? 'DOWN' : `${combatant.hp}/${combatant.maxHp} HP`;
+      const label = combatant.side === 'enemy' ? `Enemy (${combatant.threat})` : combatant.side === 'ally' ? 'Companion' : 'Player';
+      return `- ${combatant.name} [${label}]: ${state}${combatant.description && combatant.side === 'enemy' ? ` - ${combatant.description}` : ''}`;
+    })
+    .join('\n');
+}
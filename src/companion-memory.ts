@@ -0,0 +1,195 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { GroqService } from './groq-service';
+import { s } from './structured-output';
+import { HistoryEntry, formatHistoryForPrompt } from './chat-messages';
+
+export type MemoryFactCategory = 'player' | 'promise' | 'relationship' | 'world' | 'other';
+
+export const MEMORY_FACT_CATEGORIES: MemoryFactCategory[] = ['player', 'promise', 'relationship', 'world', 'other'];
+
+export interface MemoryFact {
+  text: string;
+  category: MemoryFactCategory;
+  learnedAt: number; // Message id the fact was extracted from
+}
+
+export interface MemorySummary {
+  text: string;
+  fromMessageId: number;
+  toMessageId: number;
+}
+
+/**
+ * What the companion remembers beyond the recent conversation window: rolling summaries of
+ * older messages, plus durable facts extracted from them.
+ */
+export interface CompanionMemory {
+  summaries: MemorySummary[];
+  facts: MemoryFact[];
+  summarizedThroughId: number; // Highest message id already folded into a summary
+}
+
+export interface MemoryTranscriptMessage extends HistoryEntry {
+  id: number;
+}
+
+// Messages newer than this stay out of the summaries; the companion's prompt carries them as they are
+export const RECENT_WINDOW = 10;
+// Summarize once this many older messages have piled up
+const SUMMARY_CHUNK_SIZE = 8;
+// Past this many summaries the oldest ones are condensed into one
+const MAX_SUMMARIES = 6;
+const MAX_FACTS = 60;
+const PROMPT_FACT_LIMIT = 12;
+
+// Fact categories are normalised by mergeFacts, so unknown ones are not a validation error
+const MEMORY_SUMMARY_SCHEMA = s.object({
+  summary: s.string(),
+  facts: s.array(s.object({
+    text: s.string(),
+    category: s.optional(s.string())
+  }))
+});
+
+export function createCompanionMemory(): CompanionMemory {
+  return { summaries: [], facts: [], summarizedThroughId: 0 };
+}
+
+const normalize = (text: string) => text.trim().toLowerCase().replace(/[^a-z0-9 ]+/g, '');
+
+const tokenize = (text: string) => new Set(normalize(text).split(/\s+/).filter(word => word.length > 3));
+
+/**
+ * Picks the facts worth putting in front of the model for this input. Promises and facts
+ * about the player are always candidates; everything else is ranked by word overlap
+ * with the input, then by recency.
+ */
+export function retrieveRelevantFacts(memory: CompanionMemory, query: string, limit = PROMPT_FACT_LIMIT): MemoryFact[] {
+  const queryWords = tokenize(query);
+  const scored = memory.facts.map((fact, index) => {
+    let overlap = 0;
+    tokenize(fact.text).forEach(word => {
+      if (queryWords.has(word)) overlap++;
+    });
+    const pinned = fact.category === 'promise' || fact.category === 'player' ? 2 : 0;
+    return { fact, score: overlap * 3 + pinned + index / memory.facts.length };
+  });
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(entry => entry.fact);
+}
+
+export function describeMemoryForPrompt(memory: CompanionMemory, query: string): string {
+  const sections: string[] = [];
+  if (memory.summaries.length > 0) {
+    sections.push(`Story so far (earlier in this adventure):\n${memory.summaries.map(summary => `- ${summary.text}`).join('\n')}`);
+  }
+  const facts = retrieveRelevantFacts(memory, query);
+  if (facts.length > 0) {
+    sections.push(`Things you remember:\n${facts.map(fact => `- ${fact.text}`).join('\n')}`);
+  }
+  return sections.join('\n\n');
+}
+
+function mergeFacts(existing: MemoryFact[], incoming: Array<{ text: string; category?: string }>, learnedAt: number): MemoryFact[] {
+  const facts = [...existing];
+
+  for (const entry of incoming) {
+    if (!entry.text.trim()) continue;
+    const key = normalize(entry.text);
+    if (facts.some(fact => normalize(fact.text) === key)) continue;
+    facts.push({
+      text: entry.text.trim(),
+      category: MEMORY_FACT_CATEGORIES.includes(entry.category as MemoryFactCategory) ? entry.category as MemoryFactCategory : 'other',
+      learnedAt
+    });
+  }
+
+  // Over the cap, forget the oldest facts first but keep promises as long as possible
+  while (facts.length > MAX_FACTS) {
+    const dropIndex = facts.findIndex(fact => fact.category !== 'promise');
+    facts.splice(dropIndex >= 0 ? dropIndex : 0, 1);
+  }
+  return facts;
+}
+
+export class CompanionMemoryService {
+  private groqService: GroqService;
+
+  constructor(groqApiKey?: string) {
+    this.groqService = new GroqService(groqApiKey);
+  }
+
+  /**
+   * Folds messages that have left the recent window into a new summary and extracts facts
+   * from them. Returns the memory unchanged when there is not enough new material yet.
+   */
+  async update(memory: CompanionMemory, transcript: MemoryTranscriptMessage[], companionName: string): Promise<CompanionMemory> {
+    const olderMessages = transcript
+      .slice(0, Math.max(0, transcript.length - RECENT_WINDOW))
+      .filter(msg => msg.id > memory.summarizedThroughId && msg.kind !== 'system' && msg.text.trim());
+    if (olderMessages.length < SUMMARY_CHUNK_SIZE) {
+      return memory;
+    }
+
+    const startTime = performance.now();
+    const lastId = olderMessages[olderMessages.length - 1].id;
+    const excerpt = formatHistoryForPrompt(olderMessages);
+
+    const prompt = `These are earlier moments from an adventure the player shares with their companion, ${companionName}.
+
+${excerpt}
+
+Respond with JSON:
+{
+  "summary": "2-3 sentences summarising what happened, written from ${companionName}'s point of view about 'the player'",
+  "facts": [{ "text": "A durable fact worth remembering for the rest of the adventure", "category": "player|promise|relationship|world|other" }]
+}
+
+Facts are things that will still matter later: the player's name or background, promises made by either side, how the player treated ${companionName}, important places, people and objects. Skip passing details. Return an empty facts array if nothing qualifies.`;
+
+    const parsed = await this.groqService.generateStructured(
+      'You maintain the long-term memory of a story character. Always respond with valid JSON only.',
+      prompt,
+      MEMORY_SUMMARY_SCHEMA,
+      { purpose: 'memory_summary', temperature: 0.3 }
+    );
+
+    let summaries = memory.summaries;
+    if (parsed.summary.trim()) {
+      summaries = [...summaries, { text: parsed.summary.trim(), fromMessageId: olderMessages[0].id, toMessageId: lastId }];
+    }
+    if (summaries.length > MAX_SUMMARIES) {
+      summaries = await this.condenseSummaries(summaries, companionName);
+    }
+
+    const updated: CompanionMemory = {
+      summaries,
+      facts: mergeFacts(memory.facts, parsed.facts, lastId),
+      summarizedThroughId: lastId
+    };
+    console.log(`[Memory] ⏱️ Summarized ${olderMessages.length} messages in ${(performance.now() - startTime).toFixed(2)}ms: ${updated.summaries.length} summaries, ${updated.facts.length} facts`);
+    return updated;
+  }
+
+  /**
+   * Rolls all but the two newest summaries into a single one so the prompt stays bounded.
+   */
+  private async condenseSummaries(summaries: MemorySummary[], companionName: string): Promise<MemorySummary[]> {
+    const toCondense = summaries.slice(0, -2);
+    const response = await this.groqService.generateResponse(
+      'You maintain the long-term memory of a story character. Respond with plain text only.',
+      `Condense these consecutive summaries of ${companionName}'s adventure with the player into one summary of at most 4 sentences. Keep names, promises and turning points.\n\n${toCondense.map(summary => `- ${summary.text}`).join('\n')}`,
+      false,
+      { purpose: 'memory_condense', temperature: 0.3 }
+    );
+    return [
+      { text: response.trim(), fromMessageId: toCondense[0].fromMessageId, toMessageId: toCondense[toCondense.length - 1].toMessageId },
+      ...summaries.slice(-2)
+    ];
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { GroqService } from './groq-service';
+import { s } from './structured-output';
+import { HistoryEntry, formatHistoryForPrompt } from './chat-messages';
+
+/**
+ * ElevenLabs voice_settings. Lower stability gives a more erratic, emotional delivery;
+ * higher style exaggerates the speaker's expressiveness.
+ */
+export interface ElevenLabsVoiceSettings {
+  stability: number;
+  similarity_boost: number;
+  style?: number;
+}
+
+export const DEFAULT_VOICE_SETTINGS: ElevenLabsVoiceSettings = { stability: 0.5, similarity_boost: 0.8 };
+
+interface MoodVoiceProfile {
+  keywords: string[];
+  settings: ElevenLabsVoiceSettings;
+}
+
+// First matching profile wins, so the more intense moods are listed first
+const MOOD_VOICE_PROFILES: MoodVoiceProfile[] = [
+  { keywords: ['scared', 'afraid', 'terrified', 'fear', 'panic', 'nervous', 'anxious', 'frightened'], settings: { stability: 0.25, similarity_boost: 0.75, style: 0.45 } },
+  { keywords: ['angry', 'furious', 'enraged', 'irritated', 'annoyed', 'hostile', 'bitter'], settings: { stability: 0.3, similarity_boost: 0.8, style: 0.65 } },
+  { keywords: ['delighted', 'joyful', 'excited', 'thrilled', 'elated', 'happy', 'cheerful', 'playful'], settings: { stability: 0.35, similarity_boost: 0.8, style: 0.55 } },
+  { keywords: ['sad', 'grieving', 'melancholy', 'melancholic', 'somber', 'sombre', 'dejected', 'weary'], settings: { stability: 0.7, similarity_boost: 0.8, style: 0.3 } },
+  { keywords: ['calm', 'serene', 'relaxed', 'content', 'peaceful', 'stoic'], settings: { stability: 0.75, similarity_boost: 0.8, style: 0.1 } }
+];
+
+export function voiceSettingsForMood(mood?: string): ElevenLabsVoiceSettings {
+  const normalized = (mood || '').toLowerCase();
+  const profile = MOOD_VOICE_PROFILES.find(entry => entry.keywords.some(keyword => normalized.includes(keyword)));
+  return profile ? profile.settings : DEFAULT_VOICE_SETTINGS;
+}
+
+const MOOD_EVALUATION_SCHEMA = s.object({
+  changed: s.boolean(),
+  mood: s.string(),
+  style: s.string(),
+  reason: s.string()
+});
+
+export interface MoodEvaluation {
+  changed: boolean;
+  mood: string;
+  style: string;
+  reason: string;
+}
+
+export interface MoodEvaluationContext {
+  characterName: string;
+  coreTrait: string;
+  keyFlaw: string;
+  currentMood: string;
+  currentStyle: string;
+}
+
+export class CompanionMoodService {
+  private groqService: GroqService;
+
+  constructor(groqApiKey?: string) {
+    this.groqService = new GroqService(groqApiKey);
+  }
+
+  /**
+   * Decides whether the latest turn was significant enough to shift the companion's mood and
+   * speaking style. Most turns should leave them unchanged.
+   */
+  async evaluate(context: MoodEvaluationContext, recentMessages: HistoryEntry[]): Promise<MoodEvaluation> {
+    const excerpt = formatHistoryForPrompt(recentMessages);
+
+    const prompt = `${context.characterName} is the player's companion in an adventure.
+- Core trait: ${context.coreTrait}
+- Key flaw: ${context.keyFlaw}
+- Current mood: ${context.currentMood || 'neutral'}
+- Current speaking style: ${context.currentStyle || 'conversational'}
+
+Latest moments:
+${excerpt}
+
+Did something significant just happen that would change how ${context.characterName} feels and sounds? Danger, a loss, a betrayal, a victory or a surprise count; ordinary conversation and walking around do not.
+
+Respond with JSON:
+{
+  "changed": true/false,
+  "mood": "One or two words, e.g. scared, angry, delighted, grieving, calm",
+  "style": "How they speak now, e.g. whispering, clipped, breathless, warm",
+  "reason": "One short sentence explaining the change"
+}
+
+If nothing significant happened, set changed to false and repeat the current mood and style.`;
+
+    const parsed = await this.groqService.generateStructured(
+      'You track the emotional state of a story character. Always respond with valid JSON only.',
+      prompt,
+      MOOD_EVALUATION_SCHEMA,
+      { purpose: 'mood_evaluation', temperature: 0.3 }
+    );
+
+    const mood = parsed.mood.trim().toLowerCase() || context.currentMood;
+    const style = parsed.style.trim().toLowerCase() || context.currentStyle;
+    return {
+      changed: parsed.changed && (mood !== context.currentMood || style !== context.currentStyle),
+      mood,
+      style,
+      reason: parsed.reason
+    };
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { GroqService } from './groq-service';
+import { Infer, s } from './structured-output';
+import { HistoryEntry, formatHistoryForPrompt } from './chat-messages';
+import { ConversationConfig } from './conversation-service';
+
+/**
+ * How often the companion speaks up unprompted while the player explores.
+ */
+export type CompanionChattiness = 'quiet' | 'normal' | 'chatty';
+
+export const CHATTINESS_LEVELS: CompanionChattiness[] = ['quiet', 'normal', 'chatty'];
+
+export const CHATTINESS_LABELS: Record<CompanionChattiness, string> = {
+  quiet: 'Quiet',
+  normal: 'Normal',
+  chatty: 'Chatty'
+};
+
+export const DEFAULT_CHATTINESS: CompanionChattiness = 'normal';
+
+interface ChattinessSettings {
+  chance: number; // Chance of considering a remark after an eligible turn
+  cooldownTurns: number; // Turns that must pass after the companion last spoke
+  guidance: string; // Told to the model, which may still decide to stay silent
+}
+
+const CHATTINESS_SETTINGS: Record<CompanionChattiness, ChattinessSettings> = {
+  quiet: { chance: 0.25, cooldownTurns: 3, guidance: 'They are a quiet companion: only speak if it really matters.' },
+  normal: { chance: 0.5, cooldownTurns: 1, guidance: 'Speak if they have something worth saying.' },
+  chatty: { chance: 0.85, cooldownTurns: 0, guidance: 'They are talkative and like to share their thoughts.' }
+};
+
+/**
+ * What just happened, as far as the companion is concerned. Only these turns can prompt a
+ * remark; talking to the companion and the companion's own arrival never do.
+ */
+export type RemarkTrigger = 'new_scene' | 'discovery' | 'item' | 'new_character' | 'danger' | 'conversation';
+
+const TRIGGERS_BY_RESPONSE_TYPE: Record<string, RemarkTrigger> = {
+  exploration: 'new_scene',
+  examination: 'discovery',
+  take_item: 'item',
+  use_item: 'item',
+  npc_introduction: 'new_character',
+  combat: 'danger',
+  npc_dialogue: 'conversation'
+};
+
+const TRIGGER_DESCRIPTIONS: Record<RemarkTrigger, string> = {
+  new_scene: 'The party has just arrived somewhere new.',
+  discovery: 'The player has just looked closely at something.',
+  item: 'The player has just taken or used an item.',
+  new_character: 'Someone new has just appeared.',
+  danger: 'A fight has just broken out.',
+  conversation: 'The player has just been talking with someone else.'
+};
+
+export function remarkTriggerFor(responseType: string): RemarkTrigger | undefined {
+  return TRIGGERS_BY_RESPONSE_TYPE[responseType];
+}
+
+/**
+ * Whether the companion should consider speaking up this turn. Danger always gets a look once
+ * the cooldown has passed; everything else is left to chance.
+ */
+export function shouldConsiderRemark(
+  chattiness: CompanionChattiness,
+  trigger: RemarkTrigger,
+  turnsSinceCompanionSpoke: number,
+  roll: number = Math.random()
+): boolean {
+  const settings = CHATTINESS_SETTINGS[chattiness];
+  if (turnsSinceCompanionSpoke < settings.cooldownTurns) return false;
+  return trigger === 'danger' || roll < settings.chance;
+}
+
+const COMPANION_REMARK_SCHEMA = s.object({
+  speak: s.boolean(),
+  intent: s.enum(['comment', 'warning', 'suggestion']),
+  text: s.string()
+});
+
+export type CompanionRemark = Infer<typeof COMPANION_REMARK_SCHEMA>;
+
+export interface RemarkContext {
+  trigger: RemarkTrigger;
+  chattiness: CompanionChattiness;
+  narration: string; // What the narrator just described, or for a conversation what was just said
+  location: string;
+  recentHistory: HistoryEntry[];
+}
+
+export class CompanionRemarkService {
+  private groqService: GroqService;
+
+  constructor(groqApiKey?: string) {
+    this.groqService = new GroqService(groqApiKey);
+  }
+
+  /**
+   * Lets the companion react to the turn that just played out: a comment on the scene, a
+   * warning about danger, or a suggestion of what to do next. Returns null when they stay quiet.
+   */
+  async generateRemark(config: ConversationConfig, context: RemarkContext): Promise<string | null> {
+    const prompt = `${config.characterName} is the player's companion in a ${config.genre} adventure, travelling with them.
+- Who they are: ${config.characterDescription}
+- Core trait: ${config.coreTrait}
+- Main want: ${config.mainWant}
+- Key flaw: ${config.keyFlaw}
+- Current mood: ${config.currentMood || 'neutral'}
+- Speaking style: ${config.currentStyle || 'conversational'}
+- Relationship with the player: ${config.relationshipLevel ?? 50}/100
+${config.playerContext ? `
+The player:
+${config.playerContext}
+` : ''}
+Location: ${context.location || 'unknown'}
+${TRIGGER_DESCRIPTIONS[context.trigger]}
+
+${context.trigger === 'conversation' ? 'What was just said' : 'What the narrator just described'}:
+${context.narration}
+
+Recent story:
+${formatHistoryForPrompt(context.recentHistory) || 'Nothing yet.'}
+${config.memoryContext ? `
+What ${config.characterName} remembers:
+${config.memoryContext}
+` : ''}
+Would ${config.characterName} say something now, unprompted? ${CHATTINESS_SETTINGS[context.chattiness].guidance}
+- comment: a short reaction to what they see, in character
+- warning: point out a danger the player may have missed
+- suggestion: propose what to do next, in line with their traits and wants
+
+Respond with JSON:
+{
+  "speak": true/false,
+  "intent": "comment|warning|suggestion",
+  "text": "One or two spoken sentences, no stage directions"
+}
+
+If nothing is worth saying, set speak to false and leave text empty. Never repeat what the narrator said.`;
+
+    const remark = await this.groqService.generateStructured(
+      'You voice a companion character in an interactive story. Always respond with valid JSON only.',
+      prompt,
+      COMPANION_REMARK_SCHEMA,
+      { purpose: 'companion_remark', useCreativeModel: true, temperature: 0.8 }
+    );
+
+    const text = remark.text.trim();
+    if (!remark.speak || !text) {
+      return null;
+    }
+    console.log(`[CompanionRemarks] ${config.characterName} speaks up (${remark.intent})`);
+    return text;
+  }
+}
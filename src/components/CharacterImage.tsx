@@ -17,7 +17,7 @@ export default defineComponent({
     model: { type: String, default: DEFAULT_IMAGE_MODEL },
     genre: { type: String as () => Genre | '', required: true },
   },
-  emits: ['update:imagePrompt', 'quota-exceeded'],
+  emits: ['update:imagePrompt', 'update:imageUrl', 'quota-exceeded'],
   setup(props, { emit }) {
     const imageUrl = ref('');
     const imageFallbackText = ref('');
@@ -197,6 +197,8 @@ export default defineComponent({
       }
     });
 
+    watch(imageUrl, url => emit('update:imageUrl', url));
+
     watch(() => [props.detailedVisualDescription, props.model, props.genre], async () => {
         if (props.detailedVisualDescription && props.genre) {
             await generateImage();
@@ -2,9 +2,13 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { defineComponent, ref, watch, PropType } from 'vue';
+import { defineComponent, ref, watch, computed, PropType } from 'vue';
 import CharacterImage from './CharacterImage.tsx';
 import { Genre } from '../ai-data-types';
+import { CompanionMemory, createCompanionMemory } from '../companion-memory';
+import { RelationshipMilestone, getRelationshipTier, getRelationshipEvent } from '../relationship';
+import { CharacterStats, STAT_LABELS, STAT_NAMES, formatModifier } from '../skill-checks';
+import { CHATTINESS_LABELS, CHATTINESS_LEVELS, CompanionChattiness, DEFAULT_CHATTINESS } from '../companion-remarks';
 
 export default defineComponent({
   name: 'CompanionInfoPanel',
@@ -22,10 +26,34 @@ export default defineComponent({
     isLoadingCharacter: { type: Boolean, default: false },
     isCharacterGenerated: { type: Boolean, default: false },
     isCompanionPresent: { type: Boolean, default: false }, // New prop for companion presence in scene
+    memory: { type: Object as PropType<CompanionMemory>, default: () => createCompanionMemory() },
+    relationshipMilestones: { type: Array as PropType<RelationshipMilestone[]>, default: () => [] },
+    mood: { type: String, default: '' },
+    speakingStyle: { type: String, default: '' },
+    stats: { type: Object as PropType<CharacterStats | null>, default: null }, // Only passed in tabletop mode
+    chattiness: { type: String as PropType<CompanionChattiness>, default: DEFAULT_CHATTINESS }, // How often they speak up unprompted
   },
-  emits: ['update:imagePrompt', 'quota-exceeded'],
+  emits: ['update:imagePrompt', 'quota-exceeded', 'update:chattiness'],
   setup(props, { emit }) {
     const characterImageRef = ref<InstanceType<typeof CharacterImage> | null>(null);
+    const showMemory = ref(false);
+    const moodJustChanged = ref(false);
+    let moodHighlightTimer: number | undefined;
+
+    // Briefly highlight the mood line when the companion's mood shifts mid-adventure
+    watch(() => props.mood, (newMood, oldMood) => {
+      if (!oldMood || newMood === oldMood) return;
+      moodJustChanged.value = true;
+      window.clearTimeout(moodHighlightTimer);
+      moodHighlightTimer = window.setTimeout(() => {
+        moodJustChanged.value = false;
+      }, 4000);
+    });
+
+    const relationshipTierLabel = computed(() => getRelationshipTier(props.relationshipLevel).label);
+    const milestoneLabels = computed(() =>
+      props.relationshipMilestones.map(milestone => getRelationshipEvent(milestone.eventId)?.label || milestone.eventId)
+    );
 
     const triggerRegenerateImage = () => {
       if (characterImageRef.value) {
@@ -41,11 +69,25 @@ export default defineComponent({
       emit('quota-exceeded');
     };
 
+    const setChattiness = (level: CompanionChattiness) => {
+      emit('update:chattiness', level);
+    };
+
     return {
       characterImageRef,
+      showMemory,
+      moodJustChanged,
+      relationshipTierLabel,
+      milestoneLabels,
+      STAT_NAMES,
+      STAT_LABELS,
+      CHATTINESS_LEVELS,
+      CHATTINESS_LABELS,
+      formatModifier,
       triggerRegenerateImage,
       handleImagePromptUpdate,
       handleQuotaExceeded,
+      setChattiness,
     };
   },
   template: `
@@ -92,11 +134,63 @@ export default defineComponent({
             <p class="text-sm text-gray-300 leading-relaxed px-2" :title="characterDescription">{{ characterDescription }}</p>
           </div>
         </div>
+        <div v-if="mood" class="mb-3 text-center text-xs rounded-lg px-2 py-1 transition-colors duration-500" :class="moodJustChanged ? 'bg-yellow-600/40 text-yellow-100' : 'text-gray-400'">
+          Mood: <span class="text-gray-200">{{ mood }}</span><span v-if="speakingStyle"> · Speaking: <span class="text-gray-200">{{ speakingStyle }}</span></span>
+        </div>
         <div>
           <label for="relationshipBar" class="block text-xs font-medium text-gray-300 mb-1">Relationship:</label>
           <div id="relationshipBar" class="w-full bg-gray-600 rounded-full h-2.5" role="progressbar" :aria-valuenow="relationshipLevel" aria-valuemin="0" aria-valuemax="100" :aria-label="'Relationship level with ' + (characterName || 'Companion') + ' is ' + relationshipLevel + '%'">
             <div class="bg-blue-500 h-2.5 rounded-full transition-all duration-300 ease-in-out" :style="{ width: relationshipLevel + '%' }"></div>
           </div>
+          <div class="text-xs text-gray-400 mt-1 text-center">{{ relationshipTierLabel }} ({{ relationshipLevel }})</div>
+          <div v-if="milestoneLabels.length" class="flex flex-wrap justify-center gap-1 mt-2">
+            <span v-for="(label, index) in milestoneLabels" :key="'milestone-' + index" class="text-xs px-1.5 rounded bg-gray-700 text-gray-300">{{ label }}</span>
+          </div>
+        </div>
+        <div v-if="stats" class="grid grid-cols-4 gap-1 mt-3">
+          <div v-for="stat in STAT_NAMES" :key="stat" class="text-center bg-gray-700 rounded-md py-1">
+            <div class="text-[10px] uppercase tracking-wide text-gray-400">{{ STAT_LABELS[stat] }}</div>
+            <div class="text-sm font-semibold text-gray-100">{{ formatModifier(stats[stat]) }}</div>
+          </div>
+        </div>
+
+        <!-- How often the companion speaks up unprompted -->
+        <div class="mt-3">
+          <div class="block text-xs font-medium text-gray-300 mb-1" id="chattinessLabel">Chattiness:</div>
+          <div class="grid grid-cols-3 gap-1 bg-gray-700 rounded-lg p-0.5" role="radiogroup" aria-labelledby="chattinessLabel">
+            <button v-for="level in CHATTINESS_LEVELS" :key="level" @click="setChattiness(level)"
+                    role="radio" :aria-checked="chattiness === level"
+                    class="text-xs rounded-md py-1 transition-colors"
+                    :class="chattiness === level ? 'bg-indigo-600 text-white' : 'text-gray-300 hover:text-white'">
+              {{ CHATTINESS_LABELS[level] }}
+            </button>
+          </div>
+        </div>
+
+        <!-- Long-term Memory -->
+        <div class="mt-4 border-t border-gray-700 pt-3">
+          <button @click="showMemory = !showMemory" class="w-full flex items-center justify-between text-xs font-medium text-gray-300 hover:text-white" :aria-expanded="showMemory">
+            <span>Memory ({{ memory.facts.length }} facts, {{ memory.summaries.length }} summaries)</span>
+            <span>{{ showMemory ? '−' : '+' }}</span>
+          </button>
+          <div v-if="showMemory" class="mt-2 space-y-3 max-h-64 overflow-y-auto pr-1">
+            <p v-if="!memory.facts.length && !memory.summaries.length" class="text-xs text-gray-500">
+              Nothing remembered yet. Older moments are summarized as the adventure goes on.
+            </p>
+            <div v-if="memory.summaries.length">
+              <div class="text-xs uppercase tracking-wide text-gray-500 mb-1">Story so far</div>
+              <p v-for="(summary, index) in memory.summaries" :key="'summary-' + index" class="text-xs text-gray-300 leading-relaxed mb-1">{{ summary.text }}</p>
+            </div>
+            <div v-if="memory.facts.length">
+              <div class="text-xs uppercase tracking-wide text-gray-500 mb-1">Facts</div>
+              <ul class="space-y-1">
+                <li v-for="(fact, index) in memory.facts" :key="'fact-' + index" class="text-xs text-gray-300 flex items-start">
+                  <span class="mr-2 px-1.5 rounded bg-gray-700 text-gray-400 flex-shrink-0">{{ fact.category }}</span>
+                  <span>{{ fact.text }}</span>
+                </li>
+              </ul>
+            </div>
+          </div>
         </div>
       </div>
     </div>
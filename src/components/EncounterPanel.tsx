@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { defineComponent, PropType, computed } from 'vue';
+import { Combatant, Encounter, EncounterPhase, getCombatActionOptions } from '../combat';
+import { InventoryItem } from '../inventory';
+
+const PHASE_LABELS: Record<EncounterPhase, string> = {
+  active: 'Combat',
+  victory: 'Victory',
+  defeat: 'Defeated',
+  fled: 'Escaped'
+};
+
+const PHASE_STYLES: Record<EncounterPhase, string> = {
+  active: 'border-red-500/50',
+  victory: 'border-emerald-500/50',
+  defeat: 'border-red-700/60',
+  fled: 'border-yellow-400/50'
+};
+
+const RECENT_EVENT_COUNT = 4;
+
+export default defineComponent({
+  name: 'EncounterPanel',
+  props: {
+    encounter: { type: Object as PropType<Encounter>, required: true },
+    inventory: { type: Array as PropType<InventoryItem[]>, default: () => [] },
+    disabled: { type: Boolean, default: false },
+  },
+  emits: ['action', 'dismiss'],
+  setup(props, { emit }) {
+    const isActive = computed(() => props.encounter.phase === 'active');
+    const actionOptions = computed(() => isActive.value ? getCombatActionOptions(props.encounter, props.inventory) : []);
+    const recentEvents = computed(() => props.encounter.log.slice(-RECENT_EVENT_COUNT));
+
+    const hpPercent = (combatant: Combatant) => Math.round((combatant.hp / combatant.maxHp) * 100);
+    const hpBarClass = (combatant: Combatant) => combatant.side === 'enemy' ? 'bg-red-500' : 'bg-emerald-500';
+
+    const chooseAction = (phrase: string) => emit('action', phrase);
+    const dismiss = () => emit('dismiss');
+
+    return { isActive, actionOptions, recentEvents, hpPercent, hpBarClass, chooseAction, dismiss, PHASE_LABELS, PHASE_STYLES };
+  },
+  template: `
+    <div class="bg-gray-900/95 border rounded-xl shadow-xl p-3 sm:p-4" :class="PHASE_STYLES[encounter.phase]" role="region" aria-label="Combat encounter">
+      <div class="flex items-center justify-between mb-2">
+        <div class="flex items-baseline space-x-2">
+          <span class="text-sm font-bold uppercase tracking-wide text-gray-100">{{ PHASE_LABELS[encounter.phase] }}</span>
+          <span class="text-xs text-gray-400">Round {{ encounter.round }}</span>
+        </div>
+        <button v-if="!isActive" @click="dismiss" class="text-gray-400 hover:text-white" aria-label="Close encounter">
+          <svg xmlns="http://www.w3.org/2000/svg" class="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M6 18L18 6M6 6l12 12" /></svg>
+        </button>
+      </div>
+
+      <!-- Combatants in initiative order -->
+      <ul class="grid grid-cols-2 sm:grid-cols-3 gap-2 mb-2">
+        <li v-for="combatant in encounter.combatants" :key="combatant.id"
+            class="rounded-lg bg-gray-800 px-2 py-1.5"
+            :class="{ 'opacity-50': combatant.hp <= 0 }">
+          <div class="flex items-center justify-between text-xs">
+            <span class="font-semibold truncate" :class="[combatant.side === 'enemy' ? 'text-red-200' : 'text-emerald-200', { 'line-through': combatant.hp <= 0 }]" :title="combatant.description">{{ combatant.name }}</span>
+            <span class="text-gray-400 ml-1 flex-shrink-0">{{ combatant.hp }}/{{ combatant.maxHp }}</span>
+          </div>
+          <div class="h-1.5 bg-gray-700 rounded-full mt-1 overflow-hidden">
+            <div class="h-full rounded-full transition-all duration-500" :class="hpBarClass(combatant)" :style="{ width: hpPercent(combatant) + '%' }"></div>
+          </div>
+          <div v-if="combatant.guarding && combatant.hp > 0" class="text-[10px] text-indigo-300 mt-0.5">Guarding</div>
+        </li>
+      </ul>
+
+      <ul v-if="recentEvents.length" class="space-y-0.5 mb-2">
+        <li v-for="(event, index) in recentEvents" :key="index" class="text-xs text-gray-400">{{ event.text }}</li>
+      </ul>
+
+      <div v-if="isActive">
+        <div class="text-xs text-gray-500 mb-1">Say or tap an action</div>
+        <div class="flex flex-wrap gap-2">
+          <button v-for="option in actionOptions" :key="option.label"
+                  @click="chooseAction(option.phrase)"
+                  :disabled="disabled"
+                  class="text-xs px-2.5 py-1 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+            {{ option.label }}
+          </button>
+        </div>
+      </div>
+      <div v-else-if="encounter.phase === 'victory' && encounter.loot.length" class="text-xs text-emerald-200">
+        Loot: {{ encounter.loot.map(item => item.name).join(', ') }}
+      </div>
+      <div v-else-if="encounter.phase === 'defeat' && encounter.defeatConsequence" class="text-xs text-red-200">
+        {{ encounter.defeatConsequence }}
+      </div>
+    </div>
+  `
+});
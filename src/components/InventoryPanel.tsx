@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { defineComponent, PropType, ref } from 'vue';
+import { InventoryItem, MAX_INVENTORY_ITEMS } from '../inventory';
+
+export default defineComponent({
+  name: 'InventoryPanel',
+  props: {
+    items: { type: Array as PropType<InventoryItem[]>, default: () => [] },
+  },
+  setup() {
+    const expandedItemId = ref<string | null>(null);
+
+    const toggleItem = (id: string) => {
+      expandedItemId.value = expandedItemId.value === id ? null : id;
+    };
+
+    return { expandedItemId, toggleItem, MAX_INVENTORY_ITEMS };
+  },
+  template: `
+    <div class="bg-gray-800 rounded-lg shadow-xl p-3 sm:p-4 h-full flex flex-col">
+      <div class="flex items-center justify-between mb-3">
+        <h3 class="text-lg font-bold text-white">Inventory</h3>
+        <span class="text-xs text-gray-400">{{ items.length }}/{{ MAX_INVENTORY_ITEMS }}</span>
+      </div>
+      <p v-if="!items.length" class="text-sm text-gray-500 leading-relaxed">
+        You are not carrying anything. Try picking something up.
+      </p>
+      <ul v-else class="space-y-2 overflow-y-auto pr-1">
+        <li v-for="item in items" :key="item.id">
+          <button @click="toggleItem(item.id)" class="w-full flex items-center text-left bg-gray-700 hover:bg-gray-600 rounded-lg p-2 transition-colors" :aria-expanded="expandedItemId === item.id">
+            <div class="w-10 h-10 rounded-md overflow-hidden bg-gray-900 flex-shrink-0 flex items-center justify-center mr-3">
+              <img v-if="item.iconUrl" :src="item.iconUrl" :alt="item.name" class="w-full h-full object-cover"/>
+              <span v-else class="text-lg font-bold text-gray-500">{{ item.name.charAt(0).toUpperCase() }}</span>
+            </div>
+            <span class="text-sm text-gray-100 truncate" :title="item.name">{{ item.name }}</span>
+          </button>
+          <div v-if="expandedItemId === item.id" class="px-2 pt-2 pb-1">
+            <p class="text-xs text-gray-300 leading-relaxed">{{ item.description }}</p>
+            <div v-if="item.tags.length" class="flex flex-wrap gap-1 mt-2">
+              <span v-for="tag in item.tags" :key="tag" class="text-xs px-1.5 rounded bg-gray-700 text-gray-400">{{ tag }}</span>
+            </div>
+          </div>
+        </li>
+      </ul>
+    </div>
+  `
+});
@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { defineComponent, PropType, computed } from 'vue';
+import { QuestObjective } from '../quests';
+
+export default defineComponent({
+  props: {
+    isVisible: { type: Boolean, required: true },
+    quests: { type: Array as PropType<QuestObjective[]>, default: () => [] },
+  },
+  emits: ['close'],
+  setup(props, { emit }) {
+    const activeObjectives = computed(() => props.quests.filter(objective => objective.status === 'active'));
+    const completedObjectives = computed(() => props.quests.filter(objective => objective.status === 'completed'));
+
+    const close = () => emit('close');
+
+    return { activeObjectives, completedObjectives, close };
+  },
+  template: `
+    <div v-if="isVisible" class="font-sans fixed inset-0 bg-black/70 flex items-center justify-center z-[100]" aria-modal="true" role="dialog" aria-labelledby="journalModalTitle">
+      <div class="bg-gray-800 rounded-2xl p-6 sm:p-8 max-w-lg w-[90%] mx-4 border border-gray-700 max-h-[85vh] flex flex-col">
+        <div class="flex justify-between items-center mb-4">
+          <h2 id="journalModalTitle" class="text-xl sm:text-2xl font-bold text-gray-100">Journal</h2>
+          <button @click="close" class="text-gray-300 hover:text-white" aria-label="Close journal">
+            <svg xmlns="http://www.w3.org/2000/svg" class="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+        <div class="overflow-y-auto pr-1">
+          <p v-if="!quests.length" class="text-sm text-gray-500">No quests yet.</p>
+
+          <div v-if="activeObjectives.length" class="mb-5">
+            <div class="text-xs uppercase tracking-wide text-gray-400 mb-2">Active</div>
+            <ul class="space-y-3">
+              <li v-for="objective in activeObjectives" :key="objective.id"
+                  class="rounded-lg p-3"
+                  :class="objective.isMain ? 'bg-indigo-900/40 border border-indigo-700/60' : 'bg-gray-700'">
+                <div class="flex items-center justify-between">
+                  <span class="text-sm font-semibold text-gray-100">{{ objective.title }}</span>
+                  <span v-if="objective.isMain" class="text-xs px-1.5 rounded bg-indigo-700 text-indigo-100">Main quest</span>
+                </div>
+                <p class="text-xs text-gray-300 leading-relaxed mt-1">{{ objective.description }}</p>
+                <ul v-if="objective.progress.length" class="mt-2 space-y-1">
+                  <li v-for="(note, index) in objective.progress" :key="index" class="text-xs text-gray-400">&bull; {{ note }}</li>
+                </ul>
+              </li>
+            </ul>
+          </div>
+
+          <div v-if="completedObjectives.length">
+            <div class="text-xs uppercase tracking-wide text-gray-400 mb-2">Completed</div>
+            <ul class="space-y-2">
+              <li v-for="objective in completedObjectives" :key="objective.id" class="rounded-lg p-3 bg-gray-900/60">
+                <div class="flex items-center">
+                  <svg xmlns="http://www.w3.org/2000/svg" class="h-4 w-4 text-emerald-400 mr-2 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M5 13l4 4L19 7" /></svg>
+                  <span class="text-sm text-gray-300 line-through decoration-gray-500">{{ objective.title }}</span>
+                  <span v-if="objective.isMain" class="ml-2 text-xs px-1.5 rounded bg-indigo-800 text-indigo-200">Main quest</span>
+                </div>
+                <p v-if="objective.progress.length" class="text-xs text-gray-500 mt-1">{{ objective.progress[objective.progress.length - 1] }}</p>
+              </li>
+            </ul>
+          </div>
+        </div>
+      </div>
+    </div>
+  `
+});
@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { defineComponent, PropType, computed } from 'vue';
+import { PACING_BEAT_LABELS, PacingState, getPacingDirective } from '../pacing-director';
+import { STORY_ARC_LABELS, StoryArc } from '../story-arc';
+
+/**
+ * Developer overlay showing the pacing director's view of the story. Enabled with ?debug in
+ * the URL.
+ */
+export default defineComponent({
+  name: 'PacingDebugOverlay',
+  props: {
+    pacing: { type: Object as PropType<PacingState>, required: true },
+    storyArc: { type: Object as PropType<StoryArc>, required: true },
+  },
+  setup(props) {
+    const directive = computed(() => getPacingDirective(props.pacing, props.storyArc));
+    const nextBeat = computed(() => props.pacing.plan[0]);
+    const tensionBandStyle = computed(() => ({
+      left: `${directive.value.targetRange[0]}%`,
+      width: `${directive.value.targetRange[1] - directive.value.targetRange[0]}%`
+    }));
+
+    return { directive, nextBeat, tensionBandStyle, PACING_BEAT_LABELS, STORY_ARC_LABELS };
+  },
+  template: `
+    <div class="fixed top-2 left-2 z-[90] w-56 bg-black/80 border border-gray-700 rounded-lg p-2 font-mono text-[11px] text-gray-300 pointer-events-none" aria-hidden="true">
+      <div class="flex justify-between mb-1">
+        <span class="text-gray-100">{{ STORY_ARC_LABELS[storyArc.stage] }}</span>
+        <span>turn {{ storyArc.turn }}</span>
+      </div>
+      <div class="flex justify-between">
+        <span>tension</span>
+        <span class="text-gray-100">{{ pacing.tension }}</span>
+      </div>
+      <div class="relative h-2 bg-gray-800 rounded mt-0.5 mb-1 overflow-hidden">
+        <div class="absolute inset-y-0 bg-emerald-700/50" :style="tensionBandStyle"></div>
+        <div class="absolute inset-y-0 left-0 bg-red-500/80" :style="{ width: pacing.tension + '%' }"></div>
+      </div>
+      <div>
+        now: <span class="text-gray-100">{{ directive.beat ? PACING_BEAT_LABELS[directive.beat] : 'none' }}</span>
+        <span v-if="directive.isRequired" class="text-red-300"> (required)</span>
+      </div>
+      <div v-if="nextBeat">
+        next planned: <span class="text-gray-100">{{ PACING_BEAT_LABELS[nextBeat.beat] }}</span> @ turn {{ nextBeat.dueTurn }}
+      </div>
+      <div v-else>next planned: none</div>
+      <div>
+        override: {{ pacing.turnsSinceOverride }} turn(s) ago<span v-if="pacing.lastOverride"> ({{ PACING_BEAT_LABELS[pacing.lastOverride] }})</span>
+      </div>
+    </div>
+  `
+});
@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { defineComponent, PropType, computed } from 'vue';
+import { AdventureEnding, ENDING_LABELS, EndingType } from '../story-arc';
+
+const ENDING_STYLES: Record<EndingType, string> = {
+  triumph: 'text-yellow-300',
+  bittersweet: 'text-indigo-300',
+  tragic: 'text-red-300',
+  open: 'text-emerald-300'
+};
+
+export default defineComponent({
+  props: {
+    isVisible: { type: Boolean, required: true },
+    ending: { type: Object as PropType<AdventureEnding | null>, default: null },
+    imageUrl: { type: String, default: '' },
+    companionName: { type: String, default: '' },
+    isNarrating: { type: Boolean, default: false },
+  },
+  emits: ['close', 'replay', 'new-adventure'],
+  setup(props, { emit }) {
+    const statTiles = computed(() => {
+      const stats = props.ending?.stats;
+      if (!stats) return [];
+      return [
+        { label: 'Turns', value: `${stats.turns}` },
+        { label: 'Places visited', value: `${stats.locationsVisited}` },
+        { label: 'Relationship', value: props.ending?.partingWords ? `${stats.relationshipLevel}/100` : '—' },
+        { label: 'Objectives', value: `${stats.objectivesCompleted} of ${stats.objectivesTotal}` },
+        { label: 'Characters met', value: `${stats.charactersMet}` }
+      ];
+    });
+
+    const close = () => emit('close');
+    const replay = () => emit('replay');
+    const startNewAdventure = () => emit('new-adventure');
+
+    return { statTiles, close, replay, startNewAdventure, ENDING_LABELS, ENDING_STYLES };
+  },
+  template: `
+    <div v-if="isVisible && ending" class="font-sans fixed inset-0 bg-black/80 flex items-center justify-center z-[100]" aria-modal="true" role="dialog" aria-labelledby="endingModalTitle">
+      <div class="bg-gray-800 rounded-2xl overflow-hidden max-w-xl w-[90%] max-h-[90vh] overflow-y-auto mx-4 border border-indigo-700/60 shadow-2xl">
+        <img v-if="imageUrl && imageUrl.startsWith('data:')" :src="imageUrl" alt="Final scene" class="w-full h-48 sm:h-64 object-cover"/>
+        <div class="p-6 sm:p-8">
+          <div class="text-xs uppercase tracking-widest mb-1" :class="ENDING_STYLES[ending.endingType]">{{ ENDING_LABELS[ending.endingType] }}</div>
+          <h2 id="endingModalTitle" class="text-2xl sm:text-3xl font-bold text-gray-100 mb-1">{{ ending.title }}</h2>
+          <p v-if="ending.questTitle" class="text-xs text-gray-400 mb-4">
+            {{ ending.questTitle }} · {{ ending.mainQuestCompleted ? 'completed' : 'left unfinished' }}
+          </p>
+          <p class="text-sm sm:text-base text-gray-300 leading-relaxed mb-4">{{ ending.narrationText }}</p>
+          <blockquote v-if="ending.partingWords" class="border-l-2 border-indigo-500 pl-3 mb-4">
+            <p class="text-sm text-indigo-100 italic">"{{ ending.partingWords }}"</p>
+            <footer v-if="companionName" class="text-xs text-gray-400 mt-1">— {{ companionName }}</footer>
+          </blockquote>
+          <dl class="grid grid-cols-2 sm:grid-cols-3 gap-2 mb-6">
+            <div v-for="tile in statTiles" :key="tile.label" class="rounded-lg bg-gray-900/70 px-3 py-2">
+              <dt class="text-[10px] uppercase tracking-wide text-gray-500">{{ tile.label }}</dt>
+              <dd class="text-lg font-semibold text-gray-100">{{ tile.value }}</dd>
+            </div>
+          </dl>
+          <div class="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <button @click="close" :disabled="isNarrating" class="bg-gray-700 hover:bg-gray-600 text-gray-100 text-sm rounded-lg py-2 transition-colors disabled:opacity-70">
+              Keep exploring
+            </button>
+            <button @click="replay" :disabled="isNarrating" class="bg-gray-700 hover:bg-gray-600 text-gray-100 text-sm rounded-lg py-2 transition-colors disabled:opacity-70">
+              Play again, same world
+            </button>
+            <button @click="startNewAdventure" :disabled="isNarrating" class="bg-indigo-600 hover:bg-indigo-700 text-white text-sm rounded-lg py-2 transition-colors disabled:opacity-70">
+              New adventure
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  `
+});
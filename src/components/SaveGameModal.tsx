@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { defineComponent, PropType, ref, watch } from 'vue';
+import { SaveSlotSummary } from '../adventure-snapshot';
+
+export default defineComponent({
+  props: {
+    isVisible: { type: Boolean, required: true },
+    defaultName: { type: String, required: true },
+    saveSlots: { type: Array as PropType<SaveSlotSummary[]>, default: () => [] },
+    isSaving: { type: Boolean, default: false },
+  },
+  emits: ['close', 'save', 'export'],
+  setup(props, { emit }) {
+    const saveName = ref(props.defaultName);
+    const includeImages = ref(true);
+
+    watch(() => props.isVisible, (visible) => {
+      if (visible) saveName.value = props.defaultName;
+    });
+
+    const close = () => emit('close');
+    const save = () => emit('save', saveName.value);
+    const pickSlot = (slot: SaveSlotSummary) => {
+      saveName.value = slot.name;
+    };
+    const exportAs = (format: 'adventure' | 'markdown' | 'html') => emit('export', format, includeImages.value);
+
+    return { saveName, includeImages, close, save, pickSlot, exportAs };
+  },
+  template: `
+    <div v-if="isVisible" class="font-sans fixed inset-0 bg-black/70 flex items-center justify-center z-[100]" aria-modal="true" role="dialog" aria-labelledby="saveModalTitle">
+      <div class="bg-gray-800 rounded-2xl p-6 sm:p-8 max-w-md w-[90%] mx-4 border border-gray-700">
+        <div class="flex justify-between items-center mb-4">
+          <h2 id="saveModalTitle" class="text-xl sm:text-2xl font-bold text-gray-100">Save &amp; Export</h2>
+          <button @click="close" class="text-gray-300 hover:text-white" aria-label="Close save modal">
+            <svg xmlns="http://www.w3.org/2000/svg" class="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+        <div class="mb-4">
+          <input type="text" v-model="saveName" @keyup.enter="save" class="w-full p-2 border border-gray-600 rounded-lg bg-gray-700 text-gray-100 text-sm sm:text-base focus:ring-blue-500 focus:border-blue-500" aria-label="Save name"/>
+        </div>
+        <div v-if="saveSlots.some(slot => !slot.isAutosave)" class="mb-4">
+          <div class="text-xs text-gray-400 mb-2">Overwrite an existing save:</div>
+          <div class="max-h-40 overflow-y-auto space-y-1">
+            <button v-for="slot in saveSlots.filter(slot => !slot.isAutosave)" :key="slot.id" @click="pickSlot(slot)"
+                    class="w-full text-left text-sm text-gray-200 bg-gray-700 hover:bg-gray-600 rounded-lg px-3 py-1 transition-colors">
+              {{ slot.name }}
+            </button>
+          </div>
+        </div>
+        <button @click="save" :disabled="isSaving" class="w-full bg-blue-600 text-white py-2 rounded-lg hover:bg-blue-700 transition-colors text-sm sm:text-base disabled:opacity-70">
+          {{ isSaving ? 'Saving...' : 'Save' }}
+        </button>
+        <div class="mt-6 pt-4 border-t border-gray-700">
+          <div class="text-xs text-gray-400 mb-2">Export to a file:</div>
+          <div class="grid grid-cols-3 gap-2">
+            <button @click="exportAs('adventure')" class="bg-gray-700 hover:bg-gray-600 text-gray-100 text-sm rounded-lg py-2 transition-colors">Adventure</button>
+            <button @click="exportAs('markdown')" class="bg-gray-700 hover:bg-gray-600 text-gray-100 text-sm rounded-lg py-2 transition-colors">Markdown</button>
+            <button @click="exportAs('html')" class="bg-gray-700 hover:bg-gray-600 text-gray-100 text-sm rounded-lg py-2 transition-colors">HTML</button>
+          </div>
+          <label class="flex items-center mt-3 text-xs text-gray-400">
+            <input type="checkbox" v-model="includeImages" class="mr-2"/>
+            Include scene images in the adventure file
+          </label>
+        </div>
+      </div>
+    </div>
+  `
+});
@@ -3,15 +3,48 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import { defineComponent, ref, watch, PropType, nextTick, onMounted } from 'vue';
-import type { ChatMessage } from '../composables/useAdventureState'; // Import ChatMessage type
+import type { ChatMessage, ChatMessageKind } from '../chat-messages';
+import { OUTCOME_LABELS, STAT_LABELS, SkillCheckOutcome, formatModifier } from '../skill-checks';
+import { Encounter } from '../combat';
+import { InventoryItem } from '../inventory';
+import EncounterPanel from './EncounterPanel';
+
+const OUTCOME_STYLES: Record<SkillCheckOutcome, string> = {
+  critical: 'border-yellow-400/60 bg-yellow-900/30 text-yellow-200',
+  success: 'border-emerald-500/50 bg-emerald-900/30 text-emerald-200',
+  partial: 'border-orange-400/50 bg-orange-900/30 text-orange-200',
+  fail: 'border-red-500/50 bg-red-900/30 text-red-200'
+};
+
+// Speech bubbles; narration keeps the full-width scene box
+const SPEECH_STYLES: Partial<Record<ChatMessageKind, { bubble: string; dot: string; name: string }>> = {
+  companion_speech: {
+    bubble: 'bg-gradient-to-br from-indigo-900/60 to-gray-900/80 border-indigo-500/40',
+    dot: 'bg-emerald-400 shadow-emerald-400/50',
+    name: 'text-emerald-200'
+  },
+  npc_speech: {
+    bubble: 'bg-gradient-to-br from-gray-800/90 to-gray-900/80 border-orange-400/30',
+    dot: 'bg-orange-400 shadow-orange-400/50',
+    name: 'text-orange-200'
+  }
+};
 
 export default defineComponent({
+  components: {
+    EncounterPanel,
+  },
   props: {
     isLoading: { type: Boolean, default: false }, // To show loading state for image/narration
     chatHistory: { type: Array as PropType<ChatMessage[]>, default: () => [] },
     companionName: { type: String, default: 'Companion' },
     isExplorationMode: { type: Boolean, default: false },
+    encounter: { type: Object as PropType<Encounter | null>, default: null },
+    inventory: { type: Array as PropType<InventoryItem[]>, default: () => [] },
+    isBusy: { type: Boolean, default: false }, // Disables the encounter actions while a turn plays out
+    canReplay: { type: Boolean, default: false }, // Lines can be replayed from the speech cache
   },
+  emits: ['combat-action', 'dismiss-encounter', 'replay-line'],
   setup(props) {
     const chatContainerRef = ref<HTMLElement | null>(null);
 
@@ -48,18 +81,34 @@ export default defineComponent({
 
     return {
       chatContainerRef,
+      OUTCOME_LABELS,
+      OUTCOME_STYLES,
+      SPEECH_STYLES,
+      STAT_LABELS,
+      formatModifier,
     };
   },
   template: `
     <div class="w-full flex flex-col bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900 rounded-2xl shadow-2xl relative h-full overflow-hidden border border-gray-700/50">
+      <!-- Encounter Panel, pinned above the conversation during a fight -->
+      <div v-if="encounter" class="p-3 lg:p-4 pb-0 lg:pb-0 flex-shrink-0">
+        <EncounterPanel
+          :encounter="encounter"
+          :inventory="inventory"
+          :disabled="isBusy"
+          @action="phrase => $emit('combat-action', phrase)"
+          @dismiss="$emit('dismiss-encounter')"
+        />
+      </div>
+
       <!-- Unified Conversation Flow -->
       <div ref="chatContainerRef" class="w-full flex-grow overflow-y-auto p-4 lg:p-6 space-y-6 lg:space-y-8 scrollbar-thin scrollbar-track-gray-800 scrollbar-thumb-gray-600 hover:scrollbar-thumb-gray-500">
 
         <!-- Chat Messages -->
-        <div v-for="message in chatHistory" :key="message.id" class="flex animate-fade-in" :class="message.sender === 'user' ? 'justify-end' : 'justify-start'">
+        <div v-for="message in chatHistory" :key="message.id" class="flex animate-fade-in" :class="message.kind === 'player' ? 'justify-end' : 'justify-start'">
 
           <!-- User Message -->
-          <div v-if="message.sender === 'user'" class="max-w-[80%] lg:max-w-[70%]">
+          <div v-if="message.kind === 'player'" class="max-w-[80%] lg:max-w-[70%]">
             <div class="bg-gradient-to-br from-blue-600 to-blue-700 text-white rounded-2xl rounded-br-md shadow-lg hover:shadow-xl transition-all duration-300 border border-blue-500/30">
               <!-- User Header -->
               <div class="px-4 py-2 border-b border-blue-500/30">
@@ -78,20 +127,57 @@ export default defineComponent({
             </div>
           </div>
 
-          <!-- Companion/System Message -->
-          <div v-else class="w-full max-w-5xl">
-            <div class="bg-gradient-to-br from-gray-800/80 to-gray-900/80 backdrop-blur-sm rounded-2xl rounded-bl-md shadow-xl hover:shadow-2xl transition-all duration-300 border border-gray-600/40"
+          <!-- Dice Roll Card -->
+          <div v-else-if="message.kind === 'dice_roll'" class="w-full flex justify-center">
+            <div class="flex items-center space-x-4 rounded-xl border px-4 py-3 shadow-lg" :class="OUTCOME_STYLES[message.skillCheck.outcome]">
+              <div class="w-12 h-12 flex items-center justify-center rounded-lg bg-gray-900/70 border border-gray-600 text-2xl font-bold text-white" :aria-label="'Rolled ' + message.skillCheck.roll">
+                {{ message.skillCheck.roll }}
+              </div>
+              <div>
+                <div class="text-sm font-semibold">
+                  {{ message.skillCheck.actor === 'companion' ? companionName : 'You' }} · {{ STAT_LABELS[message.skillCheck.stat] }} check
+                </div>
+                <div class="text-xs text-gray-300">
+                  {{ message.skillCheck.roll }} {{ formatModifier(message.skillCheck.modifier) }} = {{ message.skillCheck.total }} vs difficulty {{ message.skillCheck.difficulty }}
+                  <span v-if="message.skillCheck.reason" class="text-gray-400">· {{ message.skillCheck.reason }}</span>
+                </div>
+              </div>
+              <div class="text-sm font-bold uppercase tracking-wide">{{ OUTCOME_LABELS[message.skillCheck.outcome] }}</div>
+            </div>
+          </div>
+
+          <!-- Item Gained/Lost -->
+          <div v-else-if="message.kind === 'item_event'" class="w-full flex justify-center">
+            <div class="flex items-center space-x-2 rounded-full border border-emerald-500/40 bg-emerald-900/30 px-3 py-1 text-xs text-emerald-200">
+              <svg xmlns="http://www.w3.org/2000/svg" class="h-4 w-4 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4" /></svg>
+              <span>{{ message.text }}</span>
+            </div>
+          </div>
+
+          <!-- System Notice -->
+          <div v-else-if="message.kind === 'system'" class="w-full flex justify-center" role="status">
+            <div class="flex items-center space-x-2 text-xs italic text-gray-400">
+              <svg xmlns="http://www.w3.org/2000/svg" class="h-4 w-4 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+              <span>{{ message.text }}</span>
+            </div>
+          </div>
+
+          <!-- Narration and Character Speech -->
+          <div v-else class="w-full" :class="SPEECH_STYLES[message.kind] ? 'max-w-3xl' : 'max-w-5xl'">
+            <div class="backdrop-blur-sm rounded-2xl rounded-bl-md shadow-xl hover:shadow-2xl transition-all duration-300 border"
                  :class="[
-                   isExplorationMode
-                     ? 'ring-1 ring-purple-500/30 bg-gradient-to-br from-purple-900/20 to-indigo-900/20 border-purple-500/40'
-                     : ''
+                   SPEECH_STYLES[message.kind]
+                     ? SPEECH_STYLES[message.kind].bubble
+                     : isExplorationMode
+                       ? 'ring-1 ring-indigo-500/30 bg-gradient-to-br from-indigo-900/30 to-indigo-900/10 border-indigo-500/40'
+                       : 'bg-gradient-to-br from-gray-800/80 to-gray-900/80 border-gray-600/40'
                  ]">
 
-              <!-- Companion Header (if not exploration mode) -->
-              <div v-if="!isExplorationMode" class="px-4 py-3 border-b border-gray-600/40">
+              <!-- Speaker Header (the companion and NPCs; narration has no speaker) -->
+              <div v-if="SPEECH_STYLES[message.kind]" class="px-4 py-3 border-b border-gray-600/40">
                 <div class="flex items-center space-x-3">
-                  <div class="w-3 h-3 bg-gradient-to-r from-green-400 to-emerald-500 rounded-full animate-pulse shadow-lg shadow-green-400/50"></div>
-                  <span class="font-semibold text-sm text-gray-300">{{ companionName }}</span>
+                  <div class="w-3 h-3 rounded-full animate-pulse shadow-lg" :class="SPEECH_STYLES[message.kind].dot"></div>
+                  <span class="font-semibold text-sm" :class="SPEECH_STYLES[message.kind].name">{{ message.speaker.name }}</span>
                 </div>
               </div>
 
@@ -119,6 +205,16 @@ export default defineComponent({
                       Speaking...
                     </div>
                   </div>
+
+                  <!-- Replay from the speech cache -->
+                  <div v-else-if="canReplay && message.text" class="flex justify-end mt-2">
+                    <button @click="$emit('replay-line', message)" :disabled="isBusy"
+                            class="flex items-center space-x-1 text-xs text-gray-400 hover:text-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                            aria-label="Replay this line" title="Replay this line">
+                      <svg xmlns="http://www.w3.org/2000/svg" class="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M15.536 8.464a5 5 0 010 7.072M12 6v12l-4-4H5a1 1 0 01-1-1v-2a1 1 0 011-1h3l4-4z" /></svg>
+                      <span>Replay</span>
+                    </button>
+                  </div>
                 </div>
               </div>
             </div>
@@ -2,10 +2,18 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { defineComponent, PropType } from 'vue';
+import { defineComponent, PropType, ref, computed } from 'vue';
 import { Genre } from '../ai-data-types';
+import { SaveSlotSummary } from '../adventure-snapshot';
+import { DEFAULT_IMAGE_MODEL, SPEECH_PROVIDER_OPTIONS, SpeechProviderId } from '../ai-config';
+import { speechSynthesisService } from '../speech-synthesis-provider';
+import { MAX_PLAYER_TRAITS, PRONOUN_OPTIONS, PlayerCharacter, SUGGESTED_PLAYER_TRAITS, buildPortraitDescription, createPlayerCharacter, hasPlayerIdentity, toggleTrait } from '../player-character';
+import CharacterImage from './CharacterImage';
 
 export default defineComponent({
+  components: {
+    CharacterImage,
+  },
   props: {
     genres: {
       type: Array as PropType<Genre[]>,
@@ -26,10 +34,43 @@ export default defineComponent({
     selectionPrompt: { // Prompt message for the button area
         type: String,
         required: true,
+    },
+    saveSlots: { // Saved adventures, most recent first
+      type: Array as PropType<SaveSlotSummary[]>,
+      default: () => [],
+    },
+    isTabletopMode: { // Skill checks and dice for risky actions
+      type: Boolean,
+      default: false,
+    },
+    playerCharacter: { // Optional identity for the player
+      type: Object as PropType<PlayerCharacter>,
+      required: true,
+    },
+    imageModel: { // Used for the player's portrait
+      type: String,
+      default: DEFAULT_IMAGE_MODEL,
+    },
+    speechProvider: { // Voice backend, or 'none' for text only
+      type: String as PropType<SpeechProviderId>,
+      required: true,
     }
   },
-  emits: ['genre-selected', 'generate-character'],
+  emits: ['genre-selected', 'generate-character', 'continue-adventure', 'load-save', 'delete-save', 'import-adventure', 'toggle-tabletop-mode', 'update:playerCharacter', 'update:speechProvider'],
   setup(props, { emit }) {
+    const showSaveList = ref(false);
+    const showPlayerSetup = ref(hasPlayerIdentity(props.playerCharacter));
+    const customTrait = ref('');
+    const portraitDescription = ref(''); // Set when a portrait is requested; CharacterImage generates from it
+    const hasIdentity = computed(() => hasPlayerIdentity(props.playerCharacter));
+    // Suggestions plus any custom traits the player has added
+    const traitOptions = computed(() => [
+      ...SUGGESTED_PLAYER_TRAITS,
+      ...props.playerCharacter.traits.filter(trait => !SUGGESTED_PLAYER_TRAITS.some(suggested => suggested.toLowerCase() === trait.toLowerCase()))
+    ]);
+    const importInputRef = ref<HTMLInputElement | null>(null);
+    const latestSave = computed(() => props.saveSlots[0]);
+
     const selectGenre = (genre: Genre) => {
       emit('genre-selected', genre);
     };
@@ -38,9 +79,101 @@ export default defineComponent({
       emit('generate-character');
     };
 
+    const continueAdventure = () => {
+      emit('continue-adventure');
+    };
+
+    const loadSave = (id: string) => {
+      emit('load-save', id);
+    };
+
+    const deleteSave = (slot: SaveSlotSummary) => {
+      if (confirm(`Delete "${slot.name}"? This cannot be undone.`)) {
+        emit('delete-save', slot.id);
+      }
+    };
+
+    const openImportDialog = () => {
+      importInputRef.value?.click();
+    };
+
+    const importAdventure = (event: Event) => {
+      const input = event.target as HTMLInputElement;
+      const file = input.files?.[0];
+      if (file) {
+        emit('import-adventure', file);
+      }
+      input.value = ''; // Allow importing the same file twice
+    };
+
+    const toggleTabletopMode = () => {
+      emit('toggle-tabletop-mode');
+    };
+
+    // Providers without a key stay selectable; speech then falls back to the next one that works
+    const speechOptions = SPEECH_PROVIDER_OPTIONS.map(option => ({
+      ...option,
+      isAvailable: speechSynthesisService.isProviderAvailable(option.id)
+    }));
+
+    const setSpeechProvider = (id: SpeechProviderId) => {
+      emit('update:speechProvider', id);
+    };
+
+    const updatePlayer = (changes: Partial<PlayerCharacter>) => {
+      emit('update:playerCharacter', { ...props.playerCharacter, ...changes });
+    };
+
+    const togglePlayerTrait = (trait: string) => {
+      emit('update:playerCharacter', toggleTrait(props.playerCharacter, trait));
+    };
+
+    const addCustomTrait = () => {
+      togglePlayerTrait(customTrait.value);
+      customTrait.value = '';
+    };
+
+    const hasTrait = (trait: string) => props.playerCharacter.traits.some(existing => existing.toLowerCase() === trait.toLowerCase());
+
+    const generatePortrait = () => {
+      portraitDescription.value = buildPortraitDescription(props.playerCharacter);
+    };
+
+    const clearPlayer = () => {
+      portraitDescription.value = '';
+      emit('update:playerCharacter', createPlayerCharacter());
+    };
+
+    const formatSavedAt = (timestamp: number) => new Date(timestamp).toLocaleString();
+
     return {
+      showSaveList,
+      importInputRef,
+      latestSave,
       selectGenre,
       generateCharacter,
+      continueAdventure,
+      loadSave,
+      deleteSave,
+      openImportDialog,
+      importAdventure,
+      toggleTabletopMode,
+      speechOptions,
+      setSpeechProvider,
+      formatSavedAt,
+      showPlayerSetup,
+      customTrait,
+      portraitDescription,
+      hasIdentity,
+      traitOptions,
+      updatePlayer,
+      togglePlayerTrait,
+      addCustomTrait,
+      hasTrait,
+      generatePortrait,
+      clearPlayer,
+      PRONOUN_OPTIONS,
+      MAX_PLAYER_TRAITS,
     };
   },
   template: `
@@ -55,6 +188,31 @@ export default defineComponent({
         </p>
       </div>
 
+      <!-- Continue / Saved Adventures -->
+      <div v-if="latestSave" class="w-full max-w-md mx-auto mb-10">
+        <button id="continueAdventureButton" @click="continueAdventure" :disabled="isConnecting"
+                class="w-full text-lg lg:text-xl font-bold bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-700 hover:to-teal-700 text-white rounded-2xl py-3 px-6 flex flex-col items-center justify-center transition-all duration-300 ease-in-out transform hover:scale-105 shadow-lg disabled:opacity-70 disabled:cursor-not-allowed disabled:hover:scale-100">
+          <span>Continue</span>
+          <span class="text-sm font-normal text-emerald-100">{{ latestSave.characterName }} · {{ latestSave.genre }} · {{ formatSavedAt(latestSave.savedAt) }}</span>
+        </button>
+        <button @click="showSaveList = !showSaveList"
+                class="w-full mt-3 text-sm text-gray-400 hover:text-gray-200 transition-colors">
+          {{ showSaveList ? 'Hide saved adventures' : 'Load a saved adventure (' + saveSlots.length + ')' }}
+        </button>
+        <ul v-if="showSaveList" class="mt-3 space-y-2">
+          <li v-for="slot in saveSlots" :key="slot.id"
+              class="flex items-center justify-between bg-slate-800/80 border border-slate-700 rounded-xl px-4 py-2">
+            <button @click="loadSave(slot.id)" :disabled="isConnecting" class="flex-1 text-left disabled:cursor-not-allowed">
+              <div class="text-gray-100 font-semibold">{{ slot.name }}</div>
+              <div class="text-xs text-gray-400">{{ slot.turnCount }} turns · {{ formatSavedAt(slot.savedAt) }}</div>
+            </button>
+            <button @click="deleteSave(slot)" class="ml-3 text-gray-500 hover:text-red-400" :aria-label="'Delete save ' + slot.name">
+              <svg xmlns="http://www.w3.org/2000/svg" class="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M6 18L18 6M6 6l12 12" /></svg>
+            </button>
+          </li>
+        </ul>
+      </div>
+
       <!-- Genre Selection -->
       <div class="w-full max-w-3xl">
         <h2 class="text-2xl lg:text-3xl font-semibold text-center text-white mb-8">
@@ -77,8 +235,112 @@ export default defineComponent({
         </div>
       </div>
 
+      <!-- Player Character (optional) -->
+      <div class="w-full max-w-md mx-auto mt-10">
+        <button @click="showPlayerSetup = !showPlayerSetup" :aria-expanded="showPlayerSetup"
+                class="w-full flex items-center justify-between bg-slate-800/80 border border-slate-700 rounded-xl px-4 py-3 text-left">
+          <span>
+            <span class="block text-gray-100 font-semibold">Your character <span class="text-xs font-normal text-gray-400">(optional)</span></span>
+            <span class="block text-xs text-gray-400">{{ hasIdentity ? (playerCharacter.name || 'Unnamed') + ' · ' + playerCharacter.pronouns : 'Play as yourself, or tell the story who you are' }}</span>
+          </span>
+          <svg xmlns="http://www.w3.org/2000/svg" class="h-5 w-5 text-gray-400 transition-transform" :class="{ 'rotate-180': showPlayerSetup }" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M19 9l-7 7-7-7" /></svg>
+        </button>
+        <div v-if="showPlayerSetup" class="mt-2 bg-slate-800/60 border border-slate-700 rounded-xl p-4 space-y-3">
+          <div class="grid grid-cols-3 gap-2">
+            <label class="col-span-2 block">
+              <span class="block text-xs text-gray-400 mb-1">Name</span>
+              <input type="text" maxlength="40" :value="playerCharacter.name" @input="updatePlayer({ name: $event.target.value })"
+                     class="w-full bg-slate-900 border border-slate-600 rounded-lg px-3 py-1.5 text-sm text-gray-100 focus:outline-none focus:border-indigo-400"/>
+            </label>
+            <label class="block">
+              <span class="block text-xs text-gray-400 mb-1">Pronouns</span>
+              <input type="text" maxlength="20" list="playerPronounOptions" :value="playerCharacter.pronouns" @input="updatePlayer({ pronouns: $event.target.value })"
+                     class="w-full bg-slate-900 border border-slate-600 rounded-lg px-3 py-1.5 text-sm text-gray-100 focus:outline-none focus:border-indigo-400"/>
+              <datalist id="playerPronounOptions">
+                <option v-for="option in PRONOUN_OPTIONS" :key="option" :value="option"></option>
+              </datalist>
+            </label>
+          </div>
+          <label class="block">
+            <span class="block text-xs text-gray-400 mb-1">Background</span>
+            <textarea rows="2" maxlength="300" :value="playerCharacter.background" @input="updatePlayer({ background: $event.target.value })"
+                      placeholder="A disgraced court mage, a smuggler with debts, a farmhand who left home..."
+                      class="w-full bg-slate-900 border border-slate-600 rounded-lg px-3 py-1.5 text-sm text-gray-100 placeholder-gray-500 focus:outline-none focus:border-indigo-400 resize-none"></textarea>
+          </label>
+          <div>
+            <span class="block text-xs text-gray-400 mb-1">Traits (up to {{ MAX_PLAYER_TRAITS }})</span>
+            <div class="flex flex-wrap gap-1.5">
+              <button v-for="trait in traitOptions" :key="trait"
+                      @click="togglePlayerTrait(trait)" :aria-pressed="hasTrait(trait)"
+                      :disabled="!hasTrait(trait) && playerCharacter.traits.length >= MAX_PLAYER_TRAITS"
+                      class="text-xs px-2.5 py-1 rounded-full border transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                      :class="hasTrait(trait) ? 'bg-indigo-600 border-indigo-400 text-white' : 'bg-slate-900 border-slate-600 text-gray-300 hover:border-slate-400'">
+                {{ trait }}
+              </button>
+              <input type="text" maxlength="24" v-model="customTrait" @keydown.enter.prevent="addCustomTrait" placeholder="Other..."
+                     :disabled="playerCharacter.traits.length >= MAX_PLAYER_TRAITS"
+                     class="w-24 bg-slate-900 border border-slate-600 rounded-full px-2.5 py-1 text-xs text-gray-100 placeholder-gray-500 focus:outline-none focus:border-indigo-400 disabled:opacity-40"/>
+            </div>
+          </div>
+          <div class="flex gap-3 items-start">
+            <div class="flex-1">
+              <label class="block">
+                <span class="block text-xs text-gray-400 mb-1">Appearance, for your portrait</span>
+                <input type="text" maxlength="200" :value="playerCharacter.appearance" @input="updatePlayer({ appearance: $event.target.value })"
+                       class="w-full bg-slate-900 border border-slate-600 rounded-lg px-3 py-1.5 text-sm text-gray-100 focus:outline-none focus:border-indigo-400"/>
+              </label>
+              <button @click="generatePortrait" :disabled="!selectedGenre || !playerCharacter.appearance.trim()"
+                      class="mt-2 text-xs px-3 py-1.5 rounded-lg bg-slate-700 hover:bg-slate-600 text-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+                {{ playerCharacter.portraitUrl ? 'Regenerate portrait' : 'Generate portrait' }}
+              </button>
+              <span v-if="!selectedGenre" class="block text-[11px] text-gray-500 mt-1">Pick a genre first</span>
+            </div>
+            <div v-if="portraitDescription || playerCharacter.portraitUrl" class="w-24 flex-shrink-0">
+              <CharacterImage v-if="portraitDescription"
+                              :detailed-visual-description="portraitDescription"
+                              :genre="selectedGenre"
+                              :model="imageModel"
+                              @update:image-url="updatePlayer({ portraitUrl: $event })"/>
+              <img v-else :src="playerCharacter.portraitUrl" alt="Your portrait" class="w-full aspect-square object-cover rounded-lg"/>
+            </div>
+          </div>
+          <div class="text-right">
+            <button @click="clearPlayer" class="text-xs text-gray-400 hover:text-gray-200 underline">Clear</button>
+          </div>
+        </div>
+      </div>
+
+      <!-- Tabletop Mode -->
+      <div class="w-full max-w-md mx-auto mt-4">
+        <button @click="toggleTabletopMode" :disabled="isConnecting" role="switch" :aria-checked="isTabletopMode"
+                class="w-full flex items-center justify-between bg-slate-800/80 border border-slate-700 rounded-xl px-4 py-3 text-left disabled:cursor-not-allowed">
+          <span>
+            <span class="block text-gray-100 font-semibold">Tabletop mode</span>
+            <span class="block text-xs text-gray-400">Risky actions are decided by stat checks and dice rolls</span>
+          </span>
+          <span class="relative inline-flex h-6 w-11 flex-shrink-0 rounded-full transition-colors" :class="isTabletopMode ? 'bg-emerald-500' : 'bg-gray-600'">
+            <span class="absolute top-0.5 h-5 w-5 rounded-full bg-white shadow transition-transform" :class="isTabletopMode ? 'translate-x-5' : 'translate-x-0.5'"></span>
+          </span>
+        </button>
+      </div>
+
+      <!-- Voices -->
+      <div class="w-full max-w-md mx-auto mt-4 bg-slate-800/80 border border-slate-700 rounded-xl px-4 py-3">
+        <div class="text-gray-100 font-semibold" id="speechProviderLabel">Voices</div>
+        <div class="text-xs text-gray-400 mb-2">Who speaks the narration and dialogue. Text only plays no audio at all.</div>
+        <div class="grid grid-cols-4 gap-1 bg-gray-700 rounded-lg p-0.5" role="radiogroup" aria-labelledby="speechProviderLabel">
+          <button v-for="option in speechOptions" :key="option.id" @click="setSpeechProvider(option.id)" :disabled="isConnecting"
+                  role="radio" :aria-checked="speechProvider === option.id"
+                  :title="option.isAvailable ? '' : 'Not configured here; another voice will be used'"
+                  class="text-xs rounded-md py-1 transition-colors disabled:cursor-not-allowed"
+                  :class="[speechProvider === option.id ? 'bg-indigo-600 text-white' : 'text-gray-300 hover:text-white', option.isAvailable ? '' : 'opacity-60']">
+            {{ option.label }}
+          </button>
+        </div>
+      </div>
+
       <!-- Generate Character & Start Button -->
-      <div class="w-full max-w-md mx-auto mt-12">
+      <div class="w-full max-w-md mx-auto mt-8">
         <button id="generateCharacterButton" @click="generateCharacter"
                 :disabled="!isGenreSelected || isConnecting"
                 class="w-full text-xl lg:text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white rounded-2xl py-4 px-8 flex items-center justify-center transition-all duration-300 ease-in-out transform hover:scale-105 hover:shadow-2xl shadow-lg focus:outline-none focus:ring-4 focus:ring-blue-500/50 disabled:from-gray-500 disabled:to-gray-600 disabled:cursor-not-allowed disabled:opacity-70 disabled:hover:scale-100">
@@ -94,6 +356,12 @@ export default defineComponent({
         <div v-if="!isGenreSelected || (isGenreSelected && !isConnecting && selectionPrompt !== 'Ready for an adventure!')" class="text-center mt-6 text-gray-400 text-lg">
           {{ selectionPrompt }}
         </div>
+        <div class="text-center mt-4">
+          <button @click="openImportDialog" :disabled="isConnecting" class="text-sm text-gray-400 hover:text-gray-200 underline transition-colors">
+            Import an adventure file
+          </button>
+          <input ref="importInputRef" type="file" accept=".json,application/json" class="hidden" @change="importAdventure"/>
+        </div>
       </div>
     </div>
   `,
@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { defineComponent } from 'vue';
+
+/**
+ * Volume sliders for the music, ambience and voice layers, as a popover under the header.
+ */
+export default defineComponent({
+  name: 'SoundMixerPanel',
+  props: {
+    musicVolume: { type: Number, required: true },
+    ambienceVolume: { type: Number, required: true },
+    voiceVolume: { type: Number, required: true },
+  },
+  emits: ['update:musicVolume', 'update:ambienceVolume', 'update:voiceVolume', 'close'],
+  setup() {
+    const channels = [
+      { key: 'musicVolume', label: 'Music' },
+      { key: 'ambienceVolume', label: 'Ambience' },
+      { key: 'voiceVolume', label: 'Voices' },
+    ] as const;
+
+    return { channels };
+  },
+  template: `
+    <div class="absolute right-0 top-full mt-2 z-50 w-64 bg-gray-800 border border-gray-700 rounded-lg shadow-xl p-4" role="dialog" aria-label="Sound levels">
+      <div class="flex items-center justify-between mb-3">
+        <span class="text-gray-200 text-sm font-semibold">Sound</span>
+        <button @click="$emit('close')" class="text-gray-400 hover:text-gray-200" aria-label="Close">&times;</button>
+      </div>
+      <label v-for="channel in channels" :key="channel.key" class="block mb-3 last:mb-0">
+        <div class="flex justify-between text-xs text-gray-400 mb-1">
+          <span>{{ channel.label }}</span>
+          <span>{{ Math.round($props[channel.key] * 100) }}%</span>
+        </div>
+        <input type="range" min="0" max="1" step="0.05"
+               :value="$props[channel.key]"
+               @input="$emit('update:' + channel.key, Number($event.target.value))"
+               class="w-full accent-indigo-500" />
+      </label>
+    </div>
+  `
+});
@@ -0,0 +1,339 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { ref, watch, onMounted } from 'vue';
+import { Genre } from '../ai-data-types';
+import {
+    ADVENTURE_SNAPSHOT_VERSION,
+    AUTOSAVE_SLOT_ID,
+    AdventureSnapshot,
+    SaveSlotSummary,
+    buildReplaySnapshot
+} from '../adventure-snapshot';
+import { saveGameStore } from '../save-game-store';
+import {
+    ADVENTURE_FILE_EXTENSION,
+    adventureFileBaseName,
+    buildHtmlTranscript,
+    buildMarkdownTranscript,
+    downloadTextFile,
+    parseAdventureFile,
+    serializeAdventureFile
+} from '../adventure-export';
+import type { useAdventureState } from './useAdventureState';
+import type { useConversationManager } from './useConversationManager';
+
+type AdventureState = ReturnType<typeof useAdventureState>;
+type ConversationManager = ReturnType<typeof useConversationManager>;
+
+export type AdventureExportFormat = 'adventure' | 'markdown' | 'html';
+
+export function useAdventurePersistence(state: AdventureState, conversationManager: ConversationManager) {
+    const {
+        selectedGenre, playerCharacter,
+        generatedCharacterType, generatedRole, generatedMood, generatedStyle,
+        AIGeneratedVoiceName, generatedCharacterName, generatedCharacterDescription,
+        generatedDetailedVisualDescription, generatedCoreTrait, generatedMainWant,
+        generatedKeyFlaw, generatedVoicePromptInstruction,
+        generatedGender, generatedAge, generatedAccent, selectedVoiceId,
+        currentContextualMood, currentContextualStyle, relationshipLevel, relationshipMilestones, companionMemory, companionChattiness,
+        initialSceneNarratorVoice, initialSceneImagePrompt, initialSceneImageUrl, initialSceneNarration,
+        isCompanionPresent, isLoadingAdventure, isSceneDataReady, isGameScreenActive,
+        selectedDialogModel, selectedImageModel,
+        chatHistory, nextMessageId, worldModel, inventory, quests, storyArc, adventureEnding,
+        isTabletopMode, playerStats, companionStats, diceRngState, activeEncounter, npcs
+    } = state;
+
+    const saveSlots = ref<SaveSlotSummary[]>([]);
+    const isSaving = ref(false);
+    const adventureCreatedAt = ref<number>(0);
+
+    const refreshSaveSlots = async (): Promise<void> => {
+        if (!saveGameStore.isSupported()) return;
+        try {
+            saveSlots.value = await saveGameStore.listSlots();
+        } catch (error) {
+            console.error('[Persistence] Failed to list saves:', error);
+        }
+    };
+
+    const captureSnapshot = (id: string, name: string): AdventureSnapshot => {
+        if (!adventureCreatedAt.value) {
+            adventureCreatedAt.value = Date.now();
+        }
+
+        const snapshot: AdventureSnapshot = {
+            version: ADVENTURE_SNAPSHOT_VERSION,
+            id,
+            name,
+            createdAt: adventureCreatedAt.value,
+            savedAt: Date.now(),
+            genre: selectedGenre.value as Genre,
+            player: playerCharacter.value,
+            character: {
+                characterType: generatedCharacterType.value,
+                role: generatedRole.value,
+                mood: generatedMood.value,
+                style: generatedStyle.value,
+                voiceName: AIGeneratedVoiceName.value,
+                voiceId: selectedVoiceId.value,
+                characterName: generatedCharacterName.value,
+                characterDescription: generatedCharacterDescription.value,
+                detailedVisualDescription: generatedDetailedVisualDescription.value,
+                coreTrait: generatedCoreTrait.value,
+                mainWant: generatedMainWant.value,
+                keyFlaw: generatedKeyFlaw.value,
+                voicePromptInstruction: generatedVoicePromptInstruction.value,
+                gender: generatedGender.value,
+                age: generatedAge.value,
+                accent: generatedAccent.value
+            },
+            scene: {
+                narration: initialSceneNarration.value,
+                narratorVoice: initialSceneNarratorVoice.value,
+                imagePrompt: initialSceneImagePrompt.value,
+                imageUrl: initialSceneImageUrl.value
+            },
+            companion: {
+                isPresent: isCompanionPresent.value,
+                currentMood: currentContextualMood.value,
+                currentStyle: currentContextualStyle.value,
+                relationshipLevel: relationshipLevel.value,
+                relationshipMilestones: relationshipMilestones.value,
+                memory: companionMemory.value,
+                chattiness: companionChattiness.value
+            },
+            progress: conversationManager.getProgressSnapshot(),
+            world: worldModel.value,
+            inventory: inventory.value,
+            quests: quests.value,
+            storyArc: storyArc.value,
+            ending: adventureEnding.value,
+            tabletop: {
+                enabled: isTabletopMode.value,
+                diceRngState: diceRngState.value,
+                playerStats: playerStats.value,
+                companionStats: companionStats.value
+            },
+            encounter: activeEncounter.value,
+            npcs: npcs.value,
+            chatHistory: chatHistory.value.map(({ isNarrating, ...msg }) => msg),
+            settings: {
+                dialogModel: selectedDialogModel.value,
+                imageModel: selectedImageModel.value
+            }
+        };
+
+        // Drop Vue proxies; IndexedDB's structured clone rejects them
+        return JSON.parse(JSON.stringify(snapshot));
+    };
+
+    const defaultSaveName = (): string =>
+        `${generatedCharacterName.value || 'Adventure'} - ${selectedGenre.value || 'Unknown'}`;
+
+    const saveToSlot = async (id: string, name: string): Promise<void> => {
+        if (!saveGameStore.isSupported() || !generatedCharacterName.value || !isSceneDataReady.value) return;
+        try {
+            isSaving.value = true;
+            await saveGameStore.save(captureSnapshot(id, name));
+            await refreshSaveSlots();
+        } catch (error) {
+            console.error(`[Persistence] Failed to save "${name}":`, error);
+        } finally {
+            isSaving.value = false;
+        }
+    };
+
+    const autosave = (): Promise<void> => saveToSlot(AUTOSAVE_SLOT_ID, `Autosave: ${defaultSaveName()}`);
+
+    /**
+     * Saves to a named slot. Reuses the slot id when a save with the same name already exists.
+     */
+    const saveNamedSlot = async (name: string): Promise<void> => {
+        const trimmedName = name.trim() || defaultSaveName();
+        const existing = saveSlots.value.find(slot => !slot.isAutosave && slot.name === trimmedName);
+        await saveToSlot(existing?.id || `save-${Date.now()}`, trimmedName);
+    };
+
+    const restoreSnapshot = (snapshot: AdventureSnapshot): void => {
+        const { character, scene, companion } = snapshot;
+
+        selectedGenre.value = snapshot.genre;
+        playerCharacter.value = snapshot.player;
+        generatedCharacterType.value = character.characterType;
+        generatedRole.value = character.role;
+        generatedMood.value = character.mood;
+        generatedStyle.value = character.style;
+        AIGeneratedVoiceName.value = character.voiceName;
+        selectedVoiceId.value = character.voiceId;
+        generatedCharacterName.value = character.characterName;
+        generatedCharacterDescription.value = character.characterDescription;
+        generatedDetailedVisualDescription.value = character.detailedVisualDescription;
+        generatedCoreTrait.value = character.coreTrait;
+        generatedMainWant.value = character.mainWant;
+        generatedKeyFlaw.value = character.keyFlaw;
+        generatedVoicePromptInstruction.value = character.voicePromptInstruction;
+        generatedGender.value = character.gender;
+        generatedAge.value = character.age;
+        generatedAccent.value = character.accent;
+
+        initialSceneNarration.value = scene.narration;
+        initialSceneNarratorVoice.value = scene.narratorVoice;
+        initialSceneImagePrompt.value = scene.imagePrompt;
+        initialSceneImageUrl.value = scene.imageUrl;
+
+        isCompanionPresent.value = companion.isPresent;
+        currentContextualMood.value = companion.currentMood;
+        currentContextualStyle.value = companion.currentStyle;
+        relationshipLevel.value = companion.relationshipLevel;
+        relationshipMilestones.value = companion.relationshipMilestones;
+        companionMemory.value = companion.memory;
+        companionChattiness.value = companion.chattiness;
+
+        selectedDialogModel.value = snapshot.settings.dialogModel;
+        selectedImageModel.value = snapshot.settings.imageModel;
+
+        worldModel.value = snapshot.world;
+        inventory.value = snapshot.inventory;
+        quests.value = snapshot.quests;
+        storyArc.value = snapshot.storyArc;
+        adventureEnding.value = snapshot.ending;
+        isTabletopMode.value = snapshot.tabletop.enabled;
+        diceRngState.value = snapshot.tabletop.diceRngState;
+        playerStats.value = snapshot.tabletop.playerStats;
+        companionStats.value = snapshot.tabletop.companionStats;
+        activeEncounter.value = snapshot.encounter;
+        npcs.value = snapshot.npcs;
+        chatHistory.value = snapshot.chatHistory.map(msg => ({ ...msg, isNarrating: false }));
+        nextMessageId.value = snapshot.chatHistory.reduce((maxId, msg) => Math.max(maxId, msg.id), 0) + 1;
+        conversationManager.restoreProgress(snapshot.progress);
+        adventureCreatedAt.value = snapshot.createdAt;
+
+        // Show the most recent scene image behind the game screen
+        const latestImageUrl = [...snapshot.chatHistory].reverse().find(msg => msg.imageUrl)?.imageUrl || scene.imageUrl;
+        const appBackground = document.getElementById('app-background');
+        if (appBackground) {
+            appBackground.style.backgroundImage = latestImageUrl?.startsWith('data:') ? `url(${latestImageUrl})` : 'none';
+        }
+
+        isLoadingAdventure.value = false;
+        isGameScreenActive.value = true;
+        console.log(`[Persistence] Restored "${snapshot.name}" with ${snapshot.chatHistory.length} messages`);
+    };
+
+    const loadSlot = async (id: string): Promise<boolean> => {
+        try {
+            const snapshot = await saveGameStore.load(id);
+            if (!snapshot) {
+                console.warn(`[Persistence] Save ${id} not found`);
+                return false;
+            }
+            restoreSnapshot(snapshot);
+            return true;
+        } catch (error) {
+            console.error(`[Persistence] Failed to load save ${id}:`, error);
+            return false;
+        }
+    };
+
+    const continueLatest = async (): Promise<boolean> => {
+        const latest = saveSlots.value[0];
+        return latest ? loadSlot(latest.id) : false;
+    };
+
+    const deleteSlot = async (id: string): Promise<void> => {
+        try {
+            await saveGameStore.delete(id);
+            await refreshSaveSlots();
+        } catch (error) {
+            console.error(`[Persistence] Failed to delete save ${id}:`, error);
+        }
+    };
+
+    const exportAdventure = (format: AdventureExportFormat, includeImages = true): void => {
+        if (!generatedCharacterName.value) return;
+        const snapshot = captureSnapshot(AUTOSAVE_SLOT_ID, defaultSaveName());
+        const baseName = adventureFileBaseName(snapshot);
+
+        if (format === 'markdown') {
+            downloadTextFile(`${baseName}.md`, buildMarkdownTranscript(snapshot), 'text/markdown');
+        } else if (format === 'html') {
+            downloadTextFile(`${baseName}.html`, buildHtmlTranscript(snapshot), 'text/html');
+        } else {
+            downloadTextFile(`${baseName}${ADVENTURE_FILE_EXTENSION}`, serializeAdventureFile(snapshot, { includeImages }), 'application/json');
+        }
+        console.log(`[Persistence] Exported ${format} for "${snapshot.name}"`);
+    };
+
+    /**
+     * Imports an exported adventure as a new save slot, then loads it.
+     */
+    const importAdventureFile = async (file: File): Promise<boolean> => {
+        try {
+            const imported = parseAdventureFile(await file.text());
+            const snapshot = {
+                ...imported,
+                id: `import-${Date.now()}`,
+                name: `${imported.name.replace(/^Autosave: /, '')} (imported)`,
+                savedAt: Date.now()
+            };
+            if (saveGameStore.isSupported()) {
+                await saveGameStore.save(snapshot);
+                await refreshSaveSlots();
+            }
+            restoreSnapshot(snapshot);
+            return true;
+        } catch (error) {
+            console.error(`[Persistence] Failed to import ${file.name}:`, error);
+            alert('That file could not be imported as an adventure.');
+            return false;
+        }
+    };
+
+    // A brand-new adventure gets its own creation time on its first save
+    const startNewAdventure = (): void => {
+        adventureCreatedAt.value = 0;
+        conversationManager.resetProgress();
+    };
+
+    /**
+     * Starts the adventure over in the same world, from its opening scene. The finished run
+     * stays in any named save; the autosave moves on to the new one.
+     */
+    const replaySameWorld = async (): Promise<void> => {
+        if (!generatedCharacterName.value) return;
+        const finished = captureSnapshot(AUTOSAVE_SLOT_ID, defaultSaveName());
+        restoreSnapshot(buildReplaySnapshot(finished, AUTOSAVE_SLOT_ID));
+        console.log('[Persistence] Replaying the same world from its opening scene');
+        await autosave();
+    };
+
+    // Autosave once the opening scene is ready and after every completed turn
+    watch(isLoadingAdventure, (isLoading, wasLoading) => {
+        if (wasLoading && !isLoading) autosave();
+    });
+    watch(conversationManager.isProcessing, (isProcessing, wasProcessing) => {
+        if (wasProcessing && !isProcessing) autosave();
+    });
+
+    onMounted(() => {
+        refreshSaveSlots();
+    });
+
+    return {
+        saveSlots,
+        isSaving,
+        refreshSaveSlots,
+        autosave,
+        saveNamedSlot,
+        loadSlot,
+        continueLatest,
+        deleteSlot,
+        startNewAdventure,
+        replaySameWorld,
+        defaultSaveName,
+        exportAdventure,
+        importAdventureFile
+    };
+}
@@ -8,12 +8,18 @@ import { ref } from 'vue';
 import { GoogleGenAI, GenerateContentResponse, Session, Modality, StartSensitivity, EndSensitivity, LiveServerMessage, SpeechConfig } from '@google/genai';
 import { ImageGeneratorService } from '../image-generator-service';
 import { NarrationService } from '../narration-service';
-import { GroqService, cleanJsonResponse } from '../groq-service';
+import { GroqService, getTextProviderConfigError } from '../groq-service';
+import { s } from '../structured-output';
 
 import { VOICE_OPTIONS } from '../ai-data';
 import { Genre } from '../ai-data-types';
 import { buildConsolidatedAdventurePrompt, buildExplorationAdventurePrompt, buildCharacterGenerationPrompt, buildSceneImagePromptLLMPrompt, buildSceneNarrationLLMPrompt, buildNarrationSpeechPrompt, buildImageDescriptionFromPromptLLMPrompt } from '../prompt-builder';
 import { voiceSelectionService } from '../voice-selection-service';
+import { createWorldModel } from '../world-model';
+import { MAX_OPTIONAL_OBJECTIVES, createQuestLog } from '../quests';
+import { STATS_SCHEMA, normalizeStats } from '../skill-checks';
+import { describePlayerForPrompt, hasPlayerIdentity } from '../player-character';
+import { normalizeSceneTags } from '../soundscape';
 import type { useAdventureState } from './useAdventureState'; // For type inference
 
 type AdventureState = ReturnType<typeof useAdventureState>;
@@ -43,7 +49,8 @@ export function useAdventureSetup(
         isGameScreenActive, selectedDialogModel, selectedImageModel,
         actualCharacterGenerationLLMPrompt,
         isCharacterGenerated, resetFullAdventureState: _resetFullAdventureState,
-        isConnectingAudio, isSceneDataReady, chatHistory, nextMessageId
+        isConnectingAudio, isSceneDataReady, chatHistory, nextMessageId, worldModel, sceneTags, quests,
+        companionStats, playerCharacter
     } = state;
 
     const isSmallScreen = ref(window.innerWidth < 1024);
@@ -53,11 +60,11 @@ export function useAdventureSetup(
     const narratorSvc = narrationService || new NarrationService(apiKey);
     
     const groqSvc = groqService || (() => {
-        const groqApiKey = process.env.GROQ_API_KEY;
-        if (!groqApiKey) {
-            throw new Error("GROQ_API_KEY environment variable is required for character generation");
+        const textProviderError = getTextProviderConfigError();
+        if (textProviderError) {
+            throw new Error(textProviderError);
         }
-        return new GroqService(groqApiKey);
+        return new GroqService(process.env.GROQ_API_KEY);
     })();
 
     const handleQuotaExceeded = (source: 'characterImage' | 'sceneImage' | 'dialog') => {
@@ -95,7 +102,8 @@ export function useAdventureSetup(
         state.actualVoicePrompt.value = '';
         state.actualCharacterImagePrompt.value = '';
         const availableVoiceNames = VOICE_OPTIONS.map(v => v.name);
-        actualCharacterGenerationLLMPrompt.value = buildExplorationAdventurePrompt(selectedGenre.value, availableVoiceNames);
+        const playerDescription = hasPlayerIdentity(playerCharacter.value) ? describePlayerForPrompt(playerCharacter.value) : undefined;
+        actualCharacterGenerationLLMPrompt.value = buildExplorationAdventurePrompt(selectedGenre.value, availableVoiceNames, playerDescription);
 
 
         try {
@@ -105,57 +113,57 @@ export function useAdventureSetup(
             // Generate ALL adventure data in one Groq call!
             const consolidatedGenStartTime = performance.now();
             
-            // Create JSON schema for adventure setup
-            const adventureSetupSchema = {
-                type: "object",
-                properties: {
-                    character: {
-                        type: "object",
-                        properties: {
-                            characterType: { type: "string" },
-                            role: { type: "string" },
-                            mood: { type: "string" },
-                            style: { type: "string" },
-                            voiceName: { type: "string" },
-                            characterName: { type: "string" },
-                            characterDescription: { type: "string" },
-                            detailedVisualDescription: { type: "string" },
-                            coreTrait: { type: "string" },
-                            mainWant: { type: "string" },
-                            keyFlaw: { type: "string" },
-                            voicePromptInstruction: { type: "string" },
-                            gender: { type: "string" },
-                            age: { type: "string" },
-                            accent: { type: "string" }
-                        },
-                        required: ["characterType", "role", "mood", "style", "voiceName", "characterName", "characterDescription", "detailedVisualDescription", "coreTrait", "mainWant", "keyFlaw", "voicePromptInstruction", "gender", "age", "accent"],
-                        additionalProperties: false
-                    },
-                    scene: {
-                        type: "object",
-                        properties: {
-                            imagePrompt: { type: "string" },
-                            narrationText: { type: "string" },
-                            narratorVoiceName: { type: "string" }
-                        },
-                        required: ["imagePrompt", "narrationText", "narratorVoiceName"],
-                        additionalProperties: false
-                    }
-                },
-                required: ["character", "scene"],
-                additionalProperties: false
-            };
+            // Voice names are enums so the model can only pick voices that exist
+            const adventureSetupSchema = s.object({
+                character: s.object({
+                    characterType: s.string({ minLength: 1 }),
+                    role: s.string({ minLength: 1 }),
+                    mood: s.string({ minLength: 1 }),
+                    style: s.string({ minLength: 1 }),
+                    voiceName: s.enum(availableVoiceNames),
+                    characterName: s.string({ minLength: 1 }),
+                    characterDescription: s.string({ minLength: 1 }),
+                    detailedVisualDescription: s.string({ minLength: 1 }),
+                    coreTrait: s.string({ minLength: 1 }),
+                    mainWant: s.string({ minLength: 1 }),
+                    keyFlaw: s.string({ minLength: 1 }),
+                    voicePromptInstruction: s.string({ minLength: 1 }),
+                    gender: s.string({ minLength: 1 }),
+                    age: s.string({ minLength: 1 }),
+                    accent: s.string(), // Can be empty
+                    stats: STATS_SCHEMA
+                }),
+                scene: s.object({
+                    imagePrompt: s.string({ minLength: 1 }),
+                    narrationText: s.string({ minLength: 1 }),
+                    narratorVoiceName: s.enum(availableVoiceNames),
+                    worldSetting: s.string(),
+                    locationName: s.string(),
+                    locationDescription: s.string(),
+                    sceneTags: s.optional(s.array(s.string()))
+                }),
+                quest: s.object({
+                    mainQuest: s.object({
+                        title: s.string({ minLength: 1 }),
+                        description: s.string({ minLength: 1 })
+                    }),
+                    optionalObjectives: s.array(s.object({
+                        title: s.string({ minLength: 1 }),
+                        description: s.string({ minLength: 1 })
+                    }), { maxItems: MAX_OPTIONAL_OBJECTIVES })
+                })
+            });
 
             const systemPrompt = "You are a creative storyteller crafting unique adventure experiences. Create diverse, compelling scenarios that avoid generic settings.";
             const userPrompt = actualCharacterGenerationLLMPrompt.value;
 
-            const consolidatedResponse = await groqSvc.generateResponse(
+            const parsedAdventureData = await groqSvc.generateStructured(
                 systemPrompt,
                 userPrompt,
-                false, // Don't use basic JSON mode
+                adventureSetupSchema,
                 {
+                    purpose: 'adventure_setup',
                     useStructuredOutput: true,
-                    jsonSchema: adventureSetupSchema,
                     useCreativeModel: true,
                     temperature: 1.0 // High creativity for varied scenarios
                 }
@@ -163,180 +171,172 @@ export function useAdventureSetup(
             const consolidatedGenDuration = performance.now() - consolidatedGenStartTime;
             console.log(`[AdventureSetup] ⏱️ Consolidated adventure generation completed in ${consolidatedGenDuration.toFixed(2)}ms`);
 
-            const parsedAdventureData = JSON.parse(cleanJsonResponse(consolidatedResponse));
             console.log("[AdventureSetup] Parsed consolidated adventure data:", parsedAdventureData);
 
             // Extract character and scene data
             const parsedCharData = parsedAdventureData.character;
             const parsedSceneData = parsedAdventureData.scene;
 
-            if (
-                // Validate character data
-                parsedCharData.characterType && typeof parsedCharData.characterType === 'string' &&
-                parsedCharData.role && typeof parsedCharData.role === 'string' &&
-                parsedCharData.mood && typeof parsedCharData.mood === 'string' &&
-                parsedCharData.style && typeof parsedCharData.style === 'string' &&
-                parsedCharData.voiceName && availableVoiceNames.includes(parsedCharData.voiceName) &&
-                parsedCharData.characterName && typeof parsedCharData.characterName === 'string' &&
-                parsedCharData.characterDescription && typeof parsedCharData.characterDescription === 'string' &&
-                parsedCharData.detailedVisualDescription && typeof parsedCharData.detailedVisualDescription === 'string' &&
-                parsedCharData.coreTrait && typeof parsedCharData.coreTrait === 'string' &&
-                parsedCharData.mainWant && typeof parsedCharData.mainWant === 'string' &&
-                parsedCharData.keyFlaw && typeof parsedCharData.keyFlaw === 'string' &&
-                parsedCharData.voicePromptInstruction && typeof parsedCharData.voicePromptInstruction === 'string' &&
-                parsedCharData.gender && typeof parsedCharData.gender === 'string' &&
-                parsedCharData.age && typeof parsedCharData.age === 'string' &&
-                typeof parsedCharData.accent === 'string' && // accent can be empty string
-                // Validate scene data
-                parsedSceneData.imagePrompt && typeof parsedSceneData.imagePrompt === 'string' &&
-                parsedSceneData.narrationText && typeof parsedSceneData.narrationText === 'string' &&
-                parsedSceneData.narratorVoiceName && availableVoiceNames.includes(parsedSceneData.narratorVoiceName)
-            ) {
-                // Set character data
-                generatedCharacterType.value = parsedCharData.characterType;
-                generatedRole.value = parsedCharData.role;
-                generatedMood.value = parsedCharData.mood;
-                generatedStyle.value = parsedCharData.style;
-                AIGeneratedVoiceName.value = parsedCharData.voiceName;
-                generatedCharacterName.value = parsedCharData.characterName;
-                generatedCharacterDescription.value = parsedCharData.characterDescription;
-                generatedDetailedVisualDescription.value = parsedCharData.detailedVisualDescription;
-                generatedCoreTrait.value = parsedCharData.coreTrait;
-                generatedMainWant.value = parsedCharData.mainWant;
-                generatedKeyFlaw.value = parsedCharData.keyFlaw;
-                generatedVoicePromptInstruction.value = parsedCharData.voicePromptInstruction;
-                generatedGender.value = parsedCharData.gender;
-                generatedAge.value = parsedCharData.age;
-                generatedAccent.value = parsedCharData.accent;
-
-                // Use voice selection service to pick optimal ElevenLabs voice
-                const characterTraits = {
-                    characterType: parsedCharData.characterType,
-                    role: parsedCharData.role,
-                    mood: parsedCharData.mood,
-                    style: parsedCharData.style,
-                    coreTrait: parsedCharData.coreTrait,
-                    mainWant: parsedCharData.mainWant,
-                    keyFlaw: parsedCharData.keyFlaw,
-                    gender: parsedCharData.gender as 'male' | 'female' | 'neutral',
-                    age: parsedCharData.age as 'young' | 'middle_aged' | 'old',
-                    accent: parsedCharData.accent
-                };
-
-                // Start parallel processing of voice selection and scene setup
-                console.log("[AdventureSetup] Starting parallel processing...");
-
-                // Voice selection (fast, synchronous)
-                const selectedElevenLabsVoiceId = voiceSelectionService.selectVoiceForCharacter(characterTraits);
-                selectedVoiceId.value = selectedElevenLabsVoiceId;
-                console.log("[AdventureSetup] Character traits for voice selection:", characterTraits);
-                console.log("[AdventureSetup] Selected ElevenLabs voice ID:", selectedElevenLabsVoiceId);
-
-                // Set scene data from consolidated response
-                initialSceneImagePrompt.value = parsedSceneData.imagePrompt;
-                initialSceneNarration.value = parsedSceneData.narrationText;
-                initialSceneNarratorVoice.value = parsedSceneData.narratorVoiceName;
-                rawSceneNarrationLLMPrompt.value = `Generated via consolidated prompt: ${parsedSceneData.narrationText}`;
-
-                // Update state
-                currentContextualMood.value = '';
-                currentContextualStyle.value = '';
-                isLoadingCharacter.value = false;
-                isLoadingScene.value = true;
-
-                console.log("[AdventureSetup] ✅ Character and scene data ready:", {
-                    imagePrompt: parsedSceneData.imagePrompt.substring(0, 50) + '...',
-                    narrationText: parsedSceneData.narrationText.substring(0, 50) + '...',
-                    narratorVoice: parsedSceneData.narratorVoiceName
-                });
-
-                // Prepare background and UI
-                initialSceneImageUrl.value = '';
-                const appBackground = document.getElementById('app-background');
-                if (appBackground) appBackground.style.backgroundImage = 'none';
+            // Set character data
+            generatedCharacterType.value = parsedCharData.characterType;
+            generatedRole.value = parsedCharData.role;
+            generatedMood.value = parsedCharData.mood;
+            generatedStyle.value = parsedCharData.style;
+            AIGeneratedVoiceName.value = parsedCharData.voiceName;
+            generatedCharacterName.value = parsedCharData.characterName;
+            generatedCharacterDescription.value = parsedCharData.characterDescription;
+            generatedDetailedVisualDescription.value = parsedCharData.detailedVisualDescription;
+            generatedCoreTrait.value = parsedCharData.coreTrait;
+            generatedMainWant.value = parsedCharData.mainWant;
+            generatedKeyFlaw.value = parsedCharData.keyFlaw;
+            generatedVoicePromptInstruction.value = parsedCharData.voicePromptInstruction;
+            generatedGender.value = parsedCharData.gender;
+            generatedAge.value = parsedCharData.age;
+            generatedAccent.value = parsedCharData.accent;
+            companionStats.value = normalizeStats(parsedCharData.stats);
+
+            // Use voice selection service to pick optimal ElevenLabs voice
+            const characterTraits = {
+                characterType: parsedCharData.characterType,
+                role: parsedCharData.role,
+                mood: parsedCharData.mood,
+                style: parsedCharData.style,
+                coreTrait: parsedCharData.coreTrait,
+                mainWant: parsedCharData.mainWant,
+                keyFlaw: parsedCharData.keyFlaw,
+                gender: parsedCharData.gender as 'male' | 'female' | 'neutral',
+                age: parsedCharData.age as 'young' | 'middle_aged' | 'old',
+                accent: parsedCharData.accent
+            };
 
-                // Start image generation in parallel
-                const imgGenStartTime = performance.now();
-                console.log("[AdventureSetup] Starting scene image generation...");
-                const sceneImageTask = imageGeneratorService.generate(
-                    selectedImageModel.value,
-                    parsedSceneData.imagePrompt,
-                    { numberOfImages: 1, outputMimeType: 'image/jpeg' }
-                ).then(async (sceneImageResponse) => {
-                    const parts = sceneImageResponse.candidates?.[0]?.content?.parts;
-                    let imageUrl: string | undefined;
-
-                    if (parts && parts.length > 0) {
-                        const imagePart = parts.find(part => part.inlineData && part.inlineData.data);
-                        if (imagePart) {
-                            const mimeType = imagePart.inlineData.mimeType || 'image/jpeg';
-                            imageUrl = `data:${mimeType};base64,${imagePart.inlineData.data}`;
-                            initialSceneImageUrl.value = imageUrl;
-                            if (appBackground) appBackground.style.backgroundImage = `url(${imageUrl})`;
-                            const imgGenDuration = performance.now() - imgGenStartTime;
-                            console.log(`[AdventureSetup] ⏱️ Scene image generation completed in ${imgGenDuration.toFixed(2)}ms`);
-                        }
-                    }
-                    return imageUrl;
-                }).catch((imgError) => {
-                    console.warn("[AdventureSetup] Scene image generation failed, using fallback:", imgError);
-                    initialSceneImageUrl.value = `${SCENE_IMAGE_FALLBACK_PREFIX}Scene image could not be generated.`;
-                    if (appBackground) appBackground.style.backgroundImage = 'none';
-                    return undefined;
-                });
-
-                // Wait for image generation to complete before activating UI
-                console.log("[AdventureSetup] Waiting for image generation to complete...");
-                const imageUrl = await sceneImageTask;
-
-                // Add initial scene to chat history with image
-                const initialMessage = {
-                    id: nextMessageId.value++,
-                    sender: 'companion' as const,
-                    text: parsedSceneData.narrationText,
-                    imageUrl: imageUrl,
-                    isNarrating: false
-                };
-                chatHistory.value.push(initialMessage);
-
-                // Now activate game screen - everything is ready
-                console.log("[AdventureSetup] All components ready, activating game screen...");
-                isLoadingScene.value = false;
-                isLoadingAdventure.value = false;
-                isGameScreenActive.value = true;
-                if (isSmallScreen.value) document.body.style.overflow = 'hidden';
-                else document.body.style.overflow = 'hidden';
-
-                // Start narration asynchronously (doesn't block UI activation)
-                const startNarration = async () => {
-                    const narrationStartTime = performance.now();
-                    console.log("[AdventureSetup] Starting narration TTS generation...");
-                    isNarrating.value = true;
-                    initialMessage.isNarrating = true;
-
-                    try {
-                        await narratorSvc.playNarration(
-                            parsedSceneData.narrationText,
-                            parsedSceneData.narratorVoiceName,
-                            selectedGenre.value
-                        );
-                        const narrationDuration = performance.now() - narrationStartTime;
-                        console.log(`[AdventureSetup] ⏱️ Narration completed in ${narrationDuration.toFixed(2)}ms`);
-                    } catch (narrationError) {
-                        console.error("[AdventureSetup] Narration playback failed:", narrationError);
-                    } finally {
-                        isNarrating.value = false;
-                        initialMessage.isNarrating = false;
+            // Start parallel processing of voice selection and scene setup
+            console.log("[AdventureSetup] Starting parallel processing...");
+
+            // Voice selection (fast, synchronous)
+            const selectedElevenLabsVoiceId = voiceSelectionService.selectVoiceForCharacter(characterTraits);
+            selectedVoiceId.value = selectedElevenLabsVoiceId;
+            console.log("[AdventureSetup] Character traits for voice selection:", characterTraits);
+            console.log("[AdventureSetup] Selected ElevenLabs voice ID:", selectedElevenLabsVoiceId);
+
+            // Set scene data from consolidated response
+            initialSceneImagePrompt.value = parsedSceneData.imagePrompt;
+            initialSceneNarration.value = parsedSceneData.narrationText;
+            initialSceneNarratorVoice.value = parsedSceneData.narratorVoiceName;
+            rawSceneNarrationLLMPrompt.value = `Generated via consolidated prompt: ${parsedSceneData.narrationText}`;
+
+            // Seed the world model; older/looser providers may omit the world fields
+            worldModel.value = createWorldModel(
+                parsedSceneData.worldSetting || parsedSceneData.narrationText,
+                {
+                    name: parsedSceneData.locationName || 'Starting point',
+                    description: parsedSceneData.locationDescription || parsedSceneData.narrationText
+                }
+            );
+
+            sceneTags.value = normalizeSceneTags(parsedSceneData.sceneTags);
+
+            quests.value = createQuestLog(parsedAdventureData.quest.mainQuest, parsedAdventureData.quest.optionalObjectives);
+            console.log("[AdventureSetup] Main quest:", quests.value[0].title, `(+${quests.value.length - 1} optional)`);
+
+            // Update state
+            currentContextualMood.value = '';
+            currentContextualStyle.value = '';
+            isLoadingCharacter.value = false;
+            isLoadingScene.value = true;
+
+            console.log("[AdventureSetup] ✅ Character and scene data ready:", {
+                imagePrompt: parsedSceneData.imagePrompt.substring(0, 50) + '...',
+                narrationText: parsedSceneData.narrationText.substring(0, 50) + '...',
+                narratorVoice: parsedSceneData.narratorVoiceName
+            });
+
+            // Prepare background and UI
+            initialSceneImageUrl.value = '';
+            const appBackground = document.getElementById('app-background');
+            if (appBackground) appBackground.style.backgroundImage = 'none';
+
+            // Start image generation in parallel
+            const imgGenStartTime = performance.now();
+            console.log("[AdventureSetup] Starting scene image generation...");
+            const sceneImageTask = imageGeneratorService.generate(
+                selectedImageModel.value,
+                parsedSceneData.imagePrompt,
+                { numberOfImages: 1, outputMimeType: 'image/jpeg' }
+            ).then(async (sceneImageResponse) => {
+                const parts = sceneImageResponse.candidates?.[0]?.content?.parts;
+                let imageUrl: string | undefined;
+
+                if (parts && parts.length > 0) {
+                    const imagePart = parts.find(part => part.inlineData && part.inlineData.data);
+                    if (imagePart) {
+                        const mimeType = imagePart.inlineData.mimeType || 'image/jpeg';
+                        imageUrl = `data:${mimeType};base64,${imagePart.inlineData.data}`;
+                        initialSceneImageUrl.value = imageUrl;
+                        if (appBackground) appBackground.style.backgroundImage = `url(${imageUrl})`;
+                        const imgGenDuration = performance.now() - imgGenStartTime;
+                        console.log(`[AdventureSetup] ⏱️ Scene image generation completed in ${imgGenDuration.toFixed(2)}ms`);
                     }
-                };
+                }
+                return imageUrl;
+            }).catch((imgError) => {
+                console.warn("[AdventureSetup] Scene image generation failed, using fallback:", imgError);
+                initialSceneImageUrl.value = `${SCENE_IMAGE_FALLBACK_PREFIX}Scene image could not be generated.`;
+                if (appBackground) appBackground.style.backgroundImage = 'none';
+                return undefined;
+            });
+
+            // Wait for image generation to complete before activating UI
+            console.log("[AdventureSetup] Waiting for image generation to complete...");
+            const imageUrl = await sceneImageTask;
+
+            // Add initial scene to chat history with image
+            const initialMessage = {
+                id: nextMessageId.value++,
+                sender: 'companion' as const,
+                kind: 'narration' as const,
+                text: parsedSceneData.narrationText,
+                imageUrl: imageUrl,
+                isNarrating: false
+            };
+            chatHistory.value.push(initialMessage);
 
-                // Start narration without waiting for it
-                startNarration();
+            // Now activate game screen - everything is ready
+            console.log("[AdventureSetup] All components ready, activating game screen...");
+            isLoadingScene.value = false;
+            isLoadingAdventure.value = false;
+            isGameScreenActive.value = true;
+            if (isSmallScreen.value) document.body.style.overflow = 'hidden';
+            else document.body.style.overflow = 'hidden';
+
+            // Start narration asynchronously (doesn't block UI activation)
+            const startNarration = async () => {
+                const narrationStartTime = performance.now();
+                console.log("[AdventureSetup] Starting narration TTS generation...");
+                isNarrating.value = true;
+                initialMessage.isNarrating = true;
 
-                const totalDuration = performance.now() - adventureStartTime;
-                console.log(`[AdventureSetup] ⏱️ Total adventure setup completed in ${totalDuration.toFixed(2)}ms (image/audio continue in background)`);
-                console.log("[AdventureSetup] Image and narration will complete in background...");
-            }
+                try {
+                    await narratorSvc.playNarration(
+                        parsedSceneData.narrationText,
+                        parsedSceneData.narratorVoiceName,
+                        selectedGenre.value
+                    );
+                    const narrationDuration = performance.now() - narrationStartTime;
+                    console.log(`[AdventureSetup] ⏱️ Narration completed in ${narrationDuration.toFixed(2)}ms`);
+                } catch (narrationError) {
+                    console.error("[AdventureSetup] Narration playback failed:", narrationError);
+                } finally {
+                    isNarrating.value = false;
+                    initialMessage.isNarrating = false;
+                }
+            };
+
+            // Start narration without waiting for it
+            startNarration();
+
+            const totalDuration = performance.now() - adventureStartTime;
+            console.log(`[AdventureSetup] ⏱️ Total adventure setup completed in ${totalDuration.toFixed(2)}ms (image/audio continue in background)`);
+            console.log("[AdventureSetup] Image and narration will complete in background...");
         } catch (imgError) {
             console.warn("[AdventureSetup] Error regenerating scene image:", imgError);
              if (imgError instanceof Error && (imgError.message.includes('RESOURCE_EXHAUSTED') || imgError.message.includes('429'))) {
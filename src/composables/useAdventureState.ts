@@ -7,19 +7,25 @@
 import { ref, computed } from 'vue';
 import { Genre, VoiceOption } from '../ai-data-types';
 import { StartSensitivity } from '@google/genai';
-import { DEFAULT_DIALOG_MODEL, DEFAULT_IMAGE_MODEL, DEFAULT_INTERRUPT_SENSITIVITY } from '../ai-config';
+import { DEFAULT_DIALOG_MODEL, DEFAULT_IMAGE_MODEL, DEFAULT_INTERRUPT_SENSITIVITY, SpeechProviderId } from '../ai-config';
 import { GENRES, VOICE_OPTIONS } from '../ai-data';
-
-export interface ChatMessage {
-  id: number;
-  sender: 'user' | 'companion';
-  text: string;
-  imageUrl?: string; // Optional image URL for messages with images
-  isNarrating?: boolean; // Optional flag to indicate if this message is currently being narrated
-}
+import { WorldModel, createWorldModel } from '../world-model';
+import { CompanionMemory, createCompanionMemory } from '../companion-memory';
+import { INITIAL_RELATIONSHIP_LEVEL, RelationshipMilestone } from '../relationship';
+import { InventoryItem } from '../inventory';
+import { QuestObjective } from '../quests';
+import { CharacterStats, DEFAULT_PLAYER_STATS, createDiceSeed } from '../skill-checks';
+import { Encounter } from '../combat';
+import { SecondaryNpc } from '../npcs';
+import { ChatMessage } from '../chat-messages';
+import { CompanionChattiness, DEFAULT_CHATTINESS } from '../companion-remarks';
+import { AdventureEnding, StoryArc, createStoryArc } from '../story-arc';
+import { PlayerCharacter, createPlayerCharacter } from '../player-character';
+import { getConfiguredSpeechProvider } from '../speech-synthesis-provider';
 
 export function useAdventureState() {
   const selectedGenre = ref<Genre | ''>('');
+  const playerCharacter = ref<PlayerCharacter>(createPlayerCharacter()); // Set on the selection screen, so it survives resets
 
   // AI-Generated Character State
   const generatedCharacterType = ref<string>('');
@@ -41,7 +47,33 @@ export function useAdventureState() {
 
   const currentContextualMood = ref<string>('');
   const currentContextualStyle = ref<string>('');
-  const relationshipLevel = ref(50); // Initial relationship level (0-100)
+  const relationshipLevel = ref(INITIAL_RELATIONSHIP_LEVEL); // 0-100, moved by each companion reply
+  const relationshipMilestones = ref<RelationshipMilestone[]>([]);
+  const companionMemory = ref<CompanionMemory>(createCompanionMemory());
+  const companionChattiness = ref<CompanionChattiness>(DEFAULT_CHATTINESS); // A setting, so it survives resets
+  const inventory = ref<InventoryItem[]>([]);
+
+  // Main quest and optional objectives, generated at setup from the companion's mainWant
+  const quests = ref<QuestObjective[]>([]);
+  const storyArc = ref<StoryArc>(createStoryArc());
+  const adventureEnding = ref<AdventureEnding | null>(null); // Set once the arc reaches its resolution
+
+  // Tabletop mode: risky actions are resolved with stat checks on seeded dice
+  const isTabletopMode = ref<boolean>(false); // A setting, so it survives resets
+  const speechProvider = ref<SpeechProviderId>(getConfiguredSpeechProvider()); // A setting, so it survives resets
+  // Mixer levels, 0-1. Settings, so they survive resets
+  const musicVolume = ref<number>(0.5);
+  const ambienceVolume = ref<number>(0.7);
+  const voiceVolume = ref<number>(1);
+  const playerStats = ref<CharacterStats>({ ...DEFAULT_PLAYER_STATS });
+  const companionStats = ref<CharacterStats>({ ...DEFAULT_PLAYER_STATS });
+  const diceRngState = ref<number>(createDiceSeed());
+
+  // The current fight; kept after it ends so the encounter panel can show the outcome
+  const activeEncounter = ref<Encounter | null>(null);
+
+  // Side characters the Story Weaver has introduced, each with its own voice and history
+  const npcs = ref<SecondaryNpc[]>([]);
 
   // Scene-specific state
   const initialSceneNarratorVoice = ref<string>('');
@@ -77,6 +109,10 @@ export function useAdventureState() {
   const chatHistory = ref<ChatMessage[]>([]);
   const nextMessageId = ref<number>(0);
 
+  // Structured world state, updated by Story Weaver patches each turn
+  const worldModel = ref<WorldModel>(createWorldModel());
+  const sceneTags = ref<string[]>([]); // The Story Weaver's tags for the current scene, for the soundscape
+
   const resetFullAdventureState = (isSmallScreenCurrentValue: boolean) => {
     console.log("[State] Resetting full adventure state.");
     selectedGenre.value = ''; 
@@ -96,7 +132,18 @@ export function useAdventureState() {
     generatedAge.value = '';
     generatedAccent.value = '';
     selectedVoiceId.value = '';
-    relationshipLevel.value = 50;
+    relationshipLevel.value = INITIAL_RELATIONSHIP_LEVEL;
+    relationshipMilestones.value = [];
+    companionMemory.value = createCompanionMemory();
+    inventory.value = [];
+    quests.value = [];
+    storyArc.value = createStoryArc();
+    adventureEnding.value = null;
+    playerStats.value = { ...DEFAULT_PLAYER_STATS };
+    companionStats.value = { ...DEFAULT_PLAYER_STATS };
+    diceRngState.value = createDiceSeed();
+    activeEncounter.value = null;
+    npcs.value = [];
 
     initialSceneNarratorVoice.value = '';
     initialSceneImagePrompt.value = '';
@@ -123,6 +170,8 @@ export function useAdventureState() {
 
     chatHistory.value = [];
     nextMessageId.value = 0;
+    worldModel.value = createWorldModel();
+    sceneTags.value = [];
 
 
     const appBackground = document.getElementById('app-background');
@@ -135,7 +184,7 @@ export function useAdventureState() {
   const isCharacterGenerated = computed(() => !!(generatedCharacterName.value && AIGeneratedVoiceName.value && generatedDetailedVisualDescription.value));
   const isSceneDataReady = computed(() => {
     // Scene is ready when we have at least one narrator message in chat history
-    return chatHistory.value.some(msg => msg.sender === 'companion');
+    return chatHistory.value.some(msg => msg.kind === 'narration');
   });
 
   const selectionPanelPrompt = computed(() => {
@@ -192,6 +241,24 @@ export function useAdventureState() {
     currentContextualMood,
     currentContextualStyle,
     relationshipLevel,
+    relationshipMilestones,
+    companionMemory,
+    companionChattiness,
+    inventory,
+    quests,
+    storyArc,
+    adventureEnding,
+    isTabletopMode,
+    speechProvider,
+    musicVolume,
+    ambienceVolume,
+    voiceVolume,
+    playerCharacter,
+    playerStats,
+    companionStats,
+    diceRngState,
+    activeEncounter,
+    npcs,
     initialSceneNarratorVoice,
     initialSceneImagePrompt,
     initialSceneImageUrl,
@@ -214,6 +281,8 @@ export function useAdventureState() {
     actualCharacterImagePrompt,
     chatHistory,
     nextMessageId,
+    worldModel,
+    sceneTags,
     resetFullAdventureState,
     isGenreSelected,
     isCharacterGenerated,
@@ -10,6 +10,7 @@ export function useAppUI(state: AdventureState) {
 
     const showShareModal = ref<boolean>(false); // Button to trigger this is currently removed
     const showRawModal = ref<boolean>(false);   // Button to trigger this is currently removed
+    const showDebugOverlay = ref<boolean>(false); // Pacing overlay for development, enabled with ?debug
     const isCopied = ref<boolean>(false);
     const isSmallScreen = ref(window.innerWidth < 1024);
     const forceShowBottomMessage = ref(false);
@@ -48,6 +49,7 @@ export function useAppUI(state: AdventureState) {
             if (genreFromUrl && GENRES.includes(genreFromUrl)) {
                 selectedGenre.value = genreFromUrl;
             }
+            showDebugOverlay.value = params.has('debug');
         }
     };
 
@@ -97,6 +99,7 @@ export function useAppUI(state: AdventureState) {
     return {
         showShareModal,
         showRawModal,
+        showDebugOverlay,
         isCopied,
         currentShareUrl,
         copyShareUrl,
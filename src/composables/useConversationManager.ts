@@ -5,12 +5,33 @@
 import { ref, Ref, watch } from 'vue';
 import { ConversationService, ConversationConfig } from '../conversation-service';
 import { audioEventBus } from '../audio-event-bus';
-import { GroqService, cleanJsonResponse } from '../groq-service';
+import { PlaybackPriority, audioPlaybackQueue } from '../audio-playback-queue';
+import { normalizeSceneTags } from '../soundscape';
+import { GroqService } from '../groq-service';
+import { s } from '../structured-output';
 import { ImageGeneratorService } from '../image-generator-service';
-import { NarrationService } from '../narration-service';
-import { StoryWeaverService, GameState } from '../story-weaver-service';
+import { NARRATOR_SPEAKER, NarrationService } from '../narration-service';
+import { StoryWeaverService, GameState, StoryWeaverDecision } from '../story-weaver-service';
 import { buildSceneNarrationLLMPrompt } from '../prompt-builder';
 import { VOICE_OPTIONS } from '../ai-data';
+import { WorldPatch, applyWorldPatch } from '../world-model';
+import { SnapshotProgress } from '../adventure-snapshot';
+import { CompanionMemoryService, RECENT_WINDOW, describeMemoryForPrompt } from '../companion-memory';
+import { RelationshipService, clampRelationshipLevel, findTriggeredEvents, getRelationshipEvent } from '../relationship';
+import { CompanionMoodService } from '../companion-mood';
+import { MAX_INVENTORY_ITEMS, NewInventoryItem, addInventoryItem, describeInventoryForPrompt, findInventoryItem, removeInventoryItem } from '../inventory';
+import { QuestUpdate, applyQuestUpdates, getMainQuest, isMainQuestComplete } from '../quests';
+import { SeededRandom, SkillCheckRequest, SkillCheckResult, describeSkillCheck, resolveSkillCheck } from '../skill-checks';
+import { NpcPersonaService, SecondaryNpc, buildNpcConversationConfig, createNpc, findAddressedNpc, findNpcByName, npcVoiceTraits, npcsAt, recordNpcExchange } from '../npcs';
+import { voiceSelectionService } from '../voice-selection-service';
+import { voiceSettingsForMood } from '../companion-mood';
+import { CombatEvent, Encounter, buildEncounterWorldPatch, createEncounter, getCombatActionOptions, parseCombatAction, proposeArcStageAfterEncounter, resolveCombatTurn } from '../combat';
+import { ChatMessage, HistoryEntry, formatHistoryForPrompt, toHistoryEntry } from '../chat-messages';
+import { CompanionRemarkService, remarkTriggerFor, shouldConsiderRemark } from '../companion-remarks';
+import { advanceStoryArc, computeAdventureStats, createStoryArc, resolveStoryArc } from '../story-arc';
+import { PacingBeat, PacingState, createPacingState, getPacingDirective, recordPacingTurn } from '../pacing-director';
+import { describePlayerForPrompt } from '../player-character';
+import { speechSynthesisService } from '../speech-synthesis-provider';
 import type { useAdventureState } from './useAdventureState';
 
 type AdventureState = ReturnType<typeof useAdventureState>;
@@ -26,7 +47,10 @@ export function useConversationManager(
         generatedMainWant, generatedKeyFlaw, generatedMood, generatedStyle,
         generatedVoicePromptInstruction, AIGeneratedVoiceName, selectedVoiceId,
         currentContextualMood, currentContextualStyle,
-        chatHistory, isCompanionPresent, selectedImageModel
+        chatHistory, isCompanionPresent, selectedImageModel, worldModel, companionMemory,
+        relationshipLevel, relationshipMilestones, inventory, quests, adventureEnding,
+        isTabletopMode, playerStats, companionStats, diceRngState, activeEncounter, npcs,
+        companionChattiness, storyArc, playerCharacter, speechProvider, sceneTags
     } = state;
 
     const conversationService = new ConversationService(apiKey);
@@ -34,32 +58,68 @@ export function useConversationManager(
     const imageGeneratorService = new ImageGeneratorService(apiKey);
     const narrationService = new NarrationService(apiKey);
     const storyWeaver = new StoryWeaverService(process.env.GROQ_API_KEY!);
+    const memoryService = new CompanionMemoryService(process.env.GROQ_API_KEY);
+    const relationshipService = new RelationshipService(process.env.GROQ_API_KEY);
+    const moodService = new CompanionMoodService(process.env.GROQ_API_KEY);
+    const npcService = new NpcPersonaService(process.env.GROQ_API_KEY);
+    const remarkService = new CompanionRemarkService(process.env.GROQ_API_KEY);
+    let isEvaluatingMood = false;
+    let isUpdatingMemory = false;
+    let narratorVoice = VOICE_OPTIONS[0].name; // Latest Story Weaver voice; fights and NPC turns keep using it
+    let turnsSinceCompanionSpoke = 0; // Spacing for unprompted remarks
 
     // World consistency tracking
     const worldSetting = ref<string>('');
     const currentLocationDescription = ref<string>('');
     const recentSceneElements = ref<string[]>([]); // Track recent elements to avoid repetition
 
-    // Simplified companion system
-    const userResponseCount = ref<number>(0);
-    const companionAppearanceThreshold = ref<number>(Math.floor(Math.random() * 5) + 1); // Random 1-5
+    // Tension and planned beats, including when the companion arrives
+    const pacing = ref<PacingState>(createPacingState(storyArc.value, isCompanionPresent.value));
+
+    // Save/load of the turn bookkeeping kept in this composable
+    const getProgressSnapshot = (): SnapshotProgress => ({
+        pacing: pacing.value,
+        currentLocationDescription: currentLocationDescription.value,
+        recentSceneElements: [...recentSceneElements.value],
+        sceneTags: [...sceneTags.value]
+    });
+
+    const restoreProgress = (progress: SnapshotProgress): void => {
+        pacing.value = progress.pacing;
+        currentLocationDescription.value = progress.currentLocationDescription;
+        recentSceneElements.value = [...progress.recentSceneElements];
+        sceneTags.value = [...progress.sceneTags];
+        console.log(`[ConversationManager] Restored progress: turn ${storyArc.value.turn}, tension ${pacing.value.tension}`);
+    };
 
-    console.log(`[ConversationManager] Companion will appear after ${companionAppearanceThreshold.value} user responses`);
+    // A brand-new adventure starts with a fresh pacing plan
+    const resetProgress = (): void => {
+        restoreProgress({
+            pacing: createPacingState(createStoryArc(), false),
+            currentLocationDescription: '',
+            recentSceneElements: [],
+            sceneTags: []
+        });
+        turnsSinceCompanionSpoke = 0;
+    };
 
     // Helper function to build current game state for Story Weaver
     const buildGameState = (): GameState => {
         return {
             genre: selectedGenre.value,
+            player: playerCharacter.value,
             currentScene: currentLocationDescription.value || "the beginning of your adventure",
-            chatHistory: chatHistory.value.map(msg => ({
-                sender: msg.sender,
-                text: msg.text,
-                imageUrl: msg.imageUrl
-            })),
+            chatHistory: chatHistory.value.filter(msg => msg.kind !== 'system').map(toHistoryEntry),
             isCompanionPresent: isCompanionPresent.value,
             companionName: generatedCharacterName.value,
             companionDescription: generatedCharacterDescription.value,
-            worldSetting: worldSetting.value || "an unknown realm",
+            companionTraits: generatedCoreTrait.value ? `${generatedCoreTrait.value}; flaw: ${generatedKeyFlaw.value}` : undefined,
+            world: worldModel.value,
+            inventory: inventory.value,
+            quests: quests.value,
+            npcs: npcs.value,
+            tabletopMode: isTabletopMode.value,
+            storyArc: storyArc.value,
             recentSceneElements: recentSceneElements.value
         };
     };
@@ -70,27 +130,27 @@ export function useConversationManager(
     const isConnectingAudio = ref(false);
     const conversationMessage = ref('');
 
-    // JSON Schema for structured scene generation
-    const sceneGenerationSchema = {
-        type: "object",
-        properties: {
-            narrationText: {
-                type: "string",
-                description: "2-4 sentences describing what the player discovers, written in second person with compelling intrigue"
-            },
-            narratorVoiceName: {
-                type: "string",
-                enum: VOICE_OPTIONS.map(v => v.name),
-                description: "Voice name from the available list"
-            },
-            imagePrompt: {
-                type: "string",
-                description: "Detailed visual description of the scene maintaining world consistency"
-            }
-        },
-        required: ["narrationText", "narratorVoiceName", "imagePrompt"],
-        additionalProperties: false
-    };
+    // Schema for structured scene generation
+    const sceneGenerationSchema = s.object({
+        narrationText: s.string({
+            minLength: 1,
+            description: "2-4 sentences describing what the player discovers, written in second person with compelling intrigue"
+        }),
+        narratorVoiceName: s.enum(VOICE_OPTIONS.map(v => v.name), {
+            description: "Voice name from the available list"
+        }),
+        imagePrompt: s.string({
+            minLength: 1,
+            description: "Detailed visual description of the scene maintaining world consistency"
+        })
+    });
+
+    const companionIntroductionSchema = s.object({
+        narrationText: s.string({ minLength: 1 }),
+        imagePrompt: s.string({ minLength: 1 }),
+        narratorVoiceName: s.optional(s.string()),
+        companionFirstWords: s.string({ minLength: 1 })
+    });
 
     // Generate companion introduction scene
     const generateCompanionIntroduction = async (userInput: string): Promise<{
@@ -131,8 +191,12 @@ Respond with valid JSON in this exact format:
   "companionFirstWords": "What the companion says or does when they first interact"
 }`;
 
-            const response = await groqService.generateResponse(prompt, 1.1);
-            const sceneData = JSON.parse(cleanJsonResponse(response));
+            const sceneData = await groqService.generateStructured(
+                "You are a creative storyteller crafting character introductions.",
+                prompt,
+                companionIntroductionSchema,
+                { purpose: 'companion_introduction', useCreativeModel: true, temperature: 1.1 }
+            );
 
             // Generate image
             let imageUrl: string | undefined;
@@ -208,7 +272,7 @@ Respond with valid JSON in this exact format:
 
             // Initialize world setting from first scene if not set
             if (!worldSetting.value && chatHistory.value.length > 0) {
-                const firstNarratorMessage = chatHistory.value.find(msg => msg.sender === 'companion');
+                const firstNarratorMessage = chatHistory.value.find(msg => msg.kind === 'narration');
                 if (firstNarratorMessage) {
                     worldSetting.value = firstNarratorMessage.text;
                     currentLocationDescription.value = firstNarratorMessage.text;
@@ -216,14 +280,14 @@ Respond with valid JSON in this exact format:
             }
 
             // Build progressive world context that avoids repetition
-            const narratorMessages = chatHistory.value.filter(msg => msg.sender === 'companion');
+            const narratorMessages = chatHistory.value.filter(msg => msg.kind === 'narration');
 
             // Use only the most recent scene as current context, not all recent messages
             const currentSceneContext = currentLocationDescription.value || "You are beginning your adventure.";
 
             // Get user actions to understand progression
             const recentUserActions = chatHistory.value
-                .filter(msg => msg.sender === 'user')
+                .filter(msg => msg.kind === 'player')
                 .slice(-2) // Last 2 user actions for context
                 .map(msg => msg.text)
                 .join(', ');
@@ -260,20 +324,18 @@ Examples of good progressive scenes:
 
 Focus on advancing the story and revealing new aspects of the world.`;
 
-            const response = await groqService.generateResponse(
+            const sceneData = await groqService.generateStructured(
                 "You are a creative storyteller crafting immersive adventure scenes.",
                 creativePrompt,
-                false, // Don't use basic JSON mode
+                sceneGenerationSchema,
                 {
+                    purpose: 'exploration',
                     useStructuredOutput: true,
-                    jsonSchema: sceneGenerationSchema,
                     useCreativeModel: true,
                     temperature: 1.1 // High creativity
                 }
             );
 
-            const sceneData = JSON.parse(cleanJsonResponse(response));
-
             // Generate scene image
             let imageUrl: string | undefined;
             try {
@@ -323,6 +385,8 @@ Focus on advancing the story and revealing new aspects of the world.`;
         }
     };
 
+    watch(speechProvider, id => speechSynthesisService.setPreferredProvider(id), { immediate: true });
+
     // Watch audio state changes and control STT accordingly
     watch(() => audioEventBus.state.value, (newState, oldState) => {
         if (!newState.isSTTActive && newState.isTTSPlaying) {
@@ -340,7 +404,7 @@ Focus on advancing the story and revealing new aspects of the world.`;
         }
     }, { deep: true });
 
-    const buildConversationConfig = (): ConversationConfig => {
+    const buildConversationConfig = (userInput: string = ''): ConversationConfig => {
         console.log('[ConversationManager] Building config with selectedVoiceId:', selectedVoiceId.value);
         return {
             characterName: generatedCharacterName.value,
@@ -353,15 +417,110 @@ Focus on advancing the story and revealing new aspects of the world.`;
             keyFlaw: generatedKeyFlaw.value,
             voicePromptInstruction: generatedVoicePromptInstruction.value,
             currentMood: currentContextualMood.value || generatedMood.value,
-            currentStyle: currentContextualStyle.value || generatedStyle.value
+            currentStyle: currentContextualStyle.value || generatedStyle.value,
+            memoryContext: describeMemoryForPrompt(companionMemory.value, userInput),
+            relationshipLevel: relationshipLevel.value,
+            relationshipDirective: getPendingRelationshipEvent()?.directive,
+            inventoryContext: describeInventoryForPrompt(inventory.value),
+            playerContext: describePlayerForPrompt(playerCharacter.value),
+            recentHistory: buildRecentHistory(userInput)
         };
     };
 
+    // The chat as the player sees it, narration and NPCs included, back to where the memory
+    // summaries stop. The input being answered is left off, since the prompt ends with it.
+    const buildRecentHistory = (userInput: string): HistoryEntry[] => {
+        const messages = chatHistory.value.filter(msg => msg.kind !== 'system');
+        const last = messages[messages.length - 1];
+        const earlier = userInput && last?.kind === 'player' && last.text === userInput ? messages.slice(0, -1) : messages;
+        return earlier.slice(-RECENT_WINDOW).map(toHistoryEntry);
+    };
+
+    // The oldest threshold event the companion has not acted on yet
+    const getPendingRelationshipEvent = () => {
+        const pending = relationshipMilestones.value.find(milestone => !milestone.acknowledged);
+        return pending ? getRelationshipEvent(pending.eventId) : undefined;
+    };
+
+    // Moves relationshipLevel by the companion's appraisal of the exchange and records any
+    // threshold events it crosses, to be acted on in the companion's next reply
+    const updateRelationship = async (userInput: string, companionReply: string, messageId: number): Promise<void> => {
+        try {
+            const appraisal = await relationshipService.appraiseExchange({
+                characterName: generatedCharacterName.value,
+                coreTrait: generatedCoreTrait.value,
+                mainWant: generatedMainWant.value,
+                keyFlaw: generatedKeyFlaw.value,
+                relationshipLevel: relationshipLevel.value
+            }, userInput, companionReply);
+
+            const previousLevel = relationshipLevel.value;
+            relationshipLevel.value = clampRelationshipLevel(previousLevel + appraisal.delta);
+            console.log(`[ConversationManager] Relationship ${previousLevel} -> ${relationshipLevel.value} (${appraisal.sentiment}): ${appraisal.reason}`);
+
+            findTriggeredEvents(previousLevel, relationshipLevel.value, relationshipMilestones.value).forEach(event => {
+                console.log(`[ConversationManager] Relationship event triggered: ${event.label}`);
+                relationshipMilestones.value.push({
+                    eventId: event.id,
+                    level: relationshipLevel.value,
+                    messageId,
+                    acknowledged: false
+                });
+            });
+        } catch (error) {
+            console.warn('[ConversationManager] Relationship appraisal failed:', error);
+        }
+    };
+
+    // Summarize messages that have aged out of the prompt window. Runs in the background
+    // after a turn; a slow or failed update only delays what the companion remembers.
+    const updateCompanionMemory = async (): Promise<void> => {
+        if (isUpdatingMemory) return;
+        isUpdatingMemory = true;
+        try {
+            const transcript = chatHistory.value.map(msg => ({ id: msg.id, ...toHistoryEntry(msg) }));
+            companionMemory.value = await memoryService.update(companionMemory.value, transcript, generatedCharacterName.value);
+        } catch (error) {
+            console.warn('[ConversationManager] Companion memory update failed:', error);
+        } finally {
+            isUpdatingMemory = false;
+        }
+    };
+
+    // Lets significant turns shift the companion's mood and speaking style. Runs in the
+    // background like the memory update; the new mood applies from the next reply on.
+    const evaluateCompanionMood = async (): Promise<void> => {
+        if (isEvaluatingMood || !isCompanionPresent.value || !generatedCharacterName.value) return;
+        isEvaluatingMood = true;
+        try {
+            const evaluation = await moodService.evaluate({
+                characterName: generatedCharacterName.value,
+                coreTrait: generatedCoreTrait.value,
+                keyFlaw: generatedKeyFlaw.value,
+                currentMood: currentContextualMood.value || generatedMood.value,
+                currentStyle: currentContextualStyle.value || generatedStyle.value
+            }, chatHistory.value.filter(msg => msg.kind !== 'system').slice(-4).map(toHistoryEntry));
+
+            if (evaluation.changed) {
+                handleTriggerContextualChange(evaluation.mood, evaluation.style, evaluation.reason);
+            }
+        } catch (error) {
+            console.warn('[ConversationManager] Companion mood evaluation failed:', error);
+        } finally {
+            isEvaluatingMood = false;
+        }
+    };
+
     const startListening = async (): Promise<void> => {
         if (!conversationService.isSTTSupported()) {
             throw new Error('Speech recognition is not supported in this browser');
         }
 
+        // Talking over a character cuts them off
+        if (isSpeaking.value) {
+            audioPlaybackQueue.bargeIn();
+        }
+
         if (isListening.value || isProcessing.value || isSpeaking.value || isNarrating.value) {
             console.warn('Cannot start listening: audio playback in progress or already listening');
             return;
@@ -403,14 +562,33 @@ Focus on advancing the story and revealing new aspects of the world.`;
         }
     };
 
+    // Rolls the check on the adventure's seeded dice and shows the result as a dice card
+    const rollSkillCheck = (request: SkillCheckRequest): SkillCheckResult => {
+        const rng = new SeededRandom(diceRngState.value);
+        const isCompanion = request.actor === 'companion';
+        const result = resolveSkillCheck(request, isCompanion ? companionStats.value : playerStats.value, rng);
+        diceRngState.value = rng.state;
+
+        const actorName = isCompanion ? generatedCharacterName.value : 'You';
+        console.log(`[ConversationManager] Skill check: ${describeSkillCheck(result, actorName)}`);
+        chatHistory.value.push({
+            id: chatHistory.value.length + 1,
+            sender: 'companion',
+            kind: 'dice_roll',
+            text: describeSkillCheck(result, actorName),
+            skillCheck: result
+        });
+        return result;
+    };
+
     // Execute Story Weaver decisions
-    const executeStoryWeaverDecision = async (decision: any, userInput: string, gameState: GameState): Promise<void> => {
+    const executeStoryWeaverDecision = async (decision: any, userInput: string, gameState: GameState, skillCheck?: SkillCheckResult): Promise<void> => {
         switch (decision.responseType) {
             case 'companion_introduction':
                 await handleCompanionIntroduction(decision, userInput, gameState);
                 break;
             case 'exploration':
-                await handleExploration(decision, userInput, gameState);
+                await handleExploration(decision, userInput, gameState, skillCheck);
                 break;
             case 'dialogue_attempt':
                 await handleDialogueAttempt(decision);
@@ -421,6 +599,21 @@ Focus on advancing the story and revealing new aspects of the world.`;
             case 'companion_dialogue':
                 await handleCompanionDialogue(userInput);
                 break;
+            case 'take_item':
+                await handleTakeItem(decision);
+                break;
+            case 'use_item':
+                await handleUseItem(decision);
+                break;
+            case 'combat':
+                await handleCombatStart(decision);
+                break;
+            case 'npc_introduction':
+                await handleNpcIntroduction(decision);
+                break;
+            case 'npc_dialogue':
+                await handleNpcDialogue(findNpcByName(npcs.value, decision.npcName)!, userInput);
+                break;
             default:
                 console.warn('[ConversationManager] Unknown decision type:', decision.responseType);
                 await handleExploration(decision, userInput, gameState);
@@ -451,6 +644,7 @@ Focus on advancing the story and revealing new aspects of the world.`;
             const narratorMessage = {
                 id: chatHistory.value.length + 1,
                 sender: 'companion' as const,
+                kind: 'narration' as const,
                 text: companionIntro.narrationText,
                 imageUrl: imageUrl,
                 isNarrating: false
@@ -464,8 +658,11 @@ Focus on advancing the story and revealing new aspects of the world.`;
             chatHistory.value.push({
                 id: chatHistory.value.length + 1,
                 sender: 'companion',
+                kind: 'companion_speech',
+                speaker: { name: generatedCharacterName.value },
                 text: companionIntro.companionFirstWords
             });
+            turnsSinceCompanionSpoke = 0;
 
         } catch (error) {
             console.error('[ConversationManager] Failed to generate companion introduction:', error);
@@ -473,42 +670,66 @@ Focus on advancing the story and revealing new aspects of the world.`;
             chatHistory.value.push({
                 id: chatHistory.value.length + 1,
                 sender: 'companion',
+                kind: 'narration',
                 text: `As you explore, you notice ${gameState.companionName} nearby. They seem to have been watching your journey.`
             });
         }
     };
 
-    const handleExploration = async (decision: any, userInput: string, gameState: GameState): Promise<void> => {
+    const handleExploration = async (decision: any, userInput: string, gameState: GameState, skillCheck?: SkillCheckResult): Promise<void> => {
         console.log('[ConversationManager] Generating exploration scene');
         conversationMessage.value = 'Generating new scene...';
 
+        // Narration is rendered and spoken while the scene is still streaming in
+        let narratorMessage: ChatMessage | null = null;
+        const narration = narrationService.createStreamingNarration(decision.narratorVoice, selectedGenre.value);
+
         try {
-            const explorationResponse = await storyWeaver.generateExplorationResponse(userInput, gameState);
+            const explorationResponse = await storyWeaver.generateExplorationResponse(userInput, gameState, narrationText => {
+                if (!narratorMessage) {
+                    chatHistory.value.push({
+                        id: chatHistory.value.length + 1,
+                        sender: 'companion',
+                        kind: 'narration',
+                        text: '',
+                        isNarrating: true
+                    });
+                    // Keep the reactive proxy so later text updates re-render the message
+                    narratorMessage = chatHistory.value[chatHistory.value.length - 1];
+                    conversationMessage.value = 'Narrator speaking...';
+                }
+                narration.push(narrationText.slice(narratorMessage.text.length));
+                narratorMessage.text = narrationText;
+            }, skillCheck);
             console.log('[ConversationManager] Exploration response:', {
                 narrationText: explorationResponse.narrationText.substring(0, 50) + '...',
                 hasImagePrompt: !!explorationResponse.imagePrompt,
                 shouldGenerateImage: decision.shouldGenerateImage
             });
 
-            // Generate image if needed
-            let imageUrl: string | undefined;
-            if (decision.shouldGenerateImage && explorationResponse.imagePrompt) {
-                console.log('[ConversationManager] Generating image for exploration scene');
-                imageUrl = await generateSceneImage(explorationResponse.imagePrompt);
+            if (!narratorMessage) {
+                // Nothing was streamed (e.g. the Story Weaver fell back), so narrate the whole text
+                chatHistory.value.push({
+                    id: chatHistory.value.length + 1,
+                    sender: 'companion',
+                    kind: 'narration',
+                    text: '',
+                    isNarrating: true
+                });
+                narratorMessage = chatHistory.value[chatHistory.value.length - 1];
             }
+            const message: ChatMessage = narratorMessage;
+            if (explorationResponse.narrationText.startsWith(message.text)) {
+                narration.push(explorationResponse.narrationText.slice(message.text.length));
+            }
+            message.text = explorationResponse.narrationText;
 
-            // Add narrator response
-            const narratorMessage = {
-                id: chatHistory.value.length + 1,
-                sender: 'companion' as const,
-                text: explorationResponse.narrationText,
-                imageUrl: imageUrl,
-                isNarrating: false
-            };
-            chatHistory.value.push(narratorMessage);
-
-            // Update current location description
+            // Update current location description and the world model
             currentLocationDescription.value = explorationResponse.narrationText;
+            applyWorldUpdate(explorationResponse.worldPatch);
+            if (explorationResponse.sceneTags) {
+                sceneTags.value = normalizeSceneTags(explorationResponse.sceneTags);
+            }
 
             // Extract and track scene elements to avoid repetition
             const locationKeywords = explorationResponse.narrationText
@@ -518,21 +739,35 @@ Focus on advancing the story and revealing new aspects of the world.`;
                 .slice(0, 3);
             recentSceneElements.value = [...new Set([...recentSceneElements.value, ...locationKeywords])].slice(-5);
 
-            // Play narration
-            await playNarration(narratorMessage, explorationResponse.narrationText, decision.narratorVoice);
+            // Generate the image while the rest of the narration plays
+            const imageTask = decision.shouldGenerateImage && explorationResponse.imagePrompt
+                ? generateSceneImage(explorationResponse.imagePrompt).then(imageUrl => {
+                    message.imageUrl = imageUrl;
+                })
+                : Promise.resolve();
+
+            await Promise.all([narration.finish(), imageTask]);
+            message.isNarrating = false;
 
         } catch (error) {
             console.error('[ConversationManager] Failed to generate exploration scene:', error);
+            await narration.finish();
+            if (narratorMessage) {
+                // Keep whatever narration already streamed in
+                (narratorMessage as ChatMessage).isNarrating = false;
+                return;
+            }
             // Fallback
             const fallbackText = `You ${userInput.toLowerCase()}. The path leads you to a new area filled with mystery and possibility.`;
-            const narratorMessage = {
+            const fallbackMessage = {
                 id: chatHistory.value.length + 1,
                 sender: 'companion' as const,
+                kind: 'narration' as const,
                 text: fallbackText,
                 isNarrating: false
             };
-            chatHistory.value.push(narratorMessage);
-            await playNarration(narratorMessage, fallbackText, decision.narratorVoice);
+            chatHistory.value.push(fallbackMessage);
+            await playNarration(fallbackMessage, fallbackText, decision.narratorVoice);
         }
     };
 
@@ -543,10 +778,12 @@ Focus on advancing the story and revealing new aspects of the world.`;
         const narratorMessage = {
             id: chatHistory.value.length + 1,
             sender: 'companion' as const,
+            kind: 'narration' as const,
             text: decision.responseText,
             isNarrating: false
         };
         chatHistory.value.push(narratorMessage);
+        applyWorldUpdate(decision.worldPatch);
 
         await playNarration(narratorMessage, decision.responseText, decision.narratorVoice);
     };
@@ -565,61 +802,541 @@ Focus on advancing the story and revealing new aspects of the world.`;
         const narratorMessage = {
             id: chatHistory.value.length + 1,
             sender: 'companion' as const,
+            kind: 'narration' as const,
             text: decision.responseText,
             imageUrl: imageUrl,
             isNarrating: false
         };
         chatHistory.value.push(narratorMessage);
+        applyWorldUpdate(decision.worldPatch);
 
         await playNarration(narratorMessage, decision.responseText, decision.narratorVoice);
     };
 
-    const handleCompanionDialogue = async (userInput: string): Promise<void> => {
-        console.log('[ConversationManager] Handling companion dialogue');
-        const config = buildConversationConfig();
-        conversationMessage.value = `${config.characterName} is thinking...`;
+    const handleTakeItem = async (decision: StoryWeaverDecision): Promise<void> => {
+        const item = decision.item!;
+        console.log('[ConversationManager] Taking item:', item.name);
+        conversationMessage.value = `Taking ${item.name}...`;
+
+        const narrationText = decision.responseText || `You take the ${item.name}.`;
+        const narratorMessage = {
+            id: chatHistory.value.length + 1,
+            sender: 'companion' as const,
+            kind: 'narration' as const,
+            text: narrationText,
+            isNarrating: false
+        };
+        chatHistory.value.push(narratorMessage);
+
+        gainItem(item, narratorMessage.id);
+        // A carried item is no longer lying around in the world
+        applyWorldUpdate({ ...decision.worldPatch, removedItems: [...(decision.worldPatch?.removedItems || []), item.name] });
+
+        await playNarration(narratorMessage, narrationText, decision.narratorVoice);
+    };
+
+    const handleUseItem = async (decision: StoryWeaverDecision): Promise<void> => {
+        const item = findInventoryItem(inventory.value, decision.itemName || '');
+        console.log('[ConversationManager] Using item:', decision.itemName, item ? '(carried)' : '(not carried)');
+        conversationMessage.value = item ? `Using ${item.name}...` : 'Searching your belongings...';
+
+        // The Story Weaver should only pick items the player holds, but never let it invent one
+        const narrationText = item
+            ? decision.responseText || `You use the ${item.name}.`
+            : `You search your belongings for ${decision.itemName || 'it'}, but you are not carrying anything like that.`;
+        const narratorMessage = {
+            id: chatHistory.value.length + 1,
+            sender: 'companion' as const,
+            kind: 'narration' as const,
+            text: narrationText,
+            isNarrating: false
+        };
+        chatHistory.value.push(narratorMessage);
+
+        if (item) {
+            if (decision.consumesItem) {
+                inventory.value = removeInventoryItem(inventory.value, item.id);
+                pushNotice('item_event', `Used up: ${item.name}`);
+            }
+            applyWorldUpdate(decision.worldPatch);
+        }
+
+        await playNarration(narratorMessage, narrationText, decision.narratorVoice);
+    };
+
+    // Inventory changes and app notices get their own line in the chat
+    const pushNotice = (kind: 'item_event' | 'system', text: string): void => {
+        chatHistory.value.push({
+            id: chatHistory.value.length + 1,
+            sender: 'companion',
+            kind,
+            text
+        });
+    };
+
+    const gainItem = (item: NewInventoryItem, messageId: number): void => {
+        const previousCount = inventory.value.length;
+        inventory.value = addInventoryItem(inventory.value, item, messageId);
+        if (inventory.value.length > previousCount) {
+            generateItemIcon(inventory.value[inventory.value.length - 1].id);
+            pushNotice('item_event', `Gained: ${item.name}`);
+        } else if (previousCount >= MAX_INVENTORY_ITEMS) {
+            pushNotice('system', `Your pack is full, so the ${item.name} was left behind.`);
+        }
+    };
+
+    // Icons are cosmetic, so they are generated in the background and failures are ignored
+    const generateItemIcon = async (itemId: string): Promise<void> => {
+        const item = inventory.value.find(entry => entry.id === itemId);
+        if (!item) return;
+        const iconUrl = await generateSceneImage(
+            `Game inventory icon of ${item.name}: ${item.description}. Single object centered on a plain dark background, ${selectedGenre.value} style, no text`
+        );
+        if (!iconUrl) return;
+        inventory.value = inventory.value.map(entry => entry.id === itemId ? { ...entry, iconUrl } : entry);
+    };
+
+    // A new side character: narrate their arrival, flesh out a persona and voice, then let them speak
+    const handleNpcIntroduction = async (decision: StoryWeaverDecision): Promise<void> => {
+        const brief = decision.npc!;
+        const location = worldModel.value.currentLocation;
+        console.log('[ConversationManager] Introducing NPC:', brief.name);
+        conversationMessage.value = 'Someone is here...';
+
+        const [imageUrl, persona] = await Promise.all([
+            generateSceneImage(decision.imagePrompt),
+            npcService.generatePersona(brief.name, brief.description, {
+                genre: selectedGenre.value || 'adventure',
+                setting: worldModel.value.setting,
+                location
+            })
+        ]);
+
+        const narrationText = decision.responseText || `${brief.name} is here. ${brief.description}`;
+        const narratorMessage = {
+            id: chatHistory.value.length + 1,
+            sender: 'companion' as const,
+            kind: 'narration' as const,
+            text: narrationText,
+            imageUrl: imageUrl,
+            isNarrating: false
+        };
+        chatHistory.value.push(narratorMessage);
+
+        const { firstWords, ...npcPersona } = persona;
+        const takenVoiceIds = [selectedVoiceId.value, ...npcs.value.map(npc => npc.voiceId)].filter(Boolean);
+        const voiceId = voiceSelectionService.selectVoiceForCharacter(npcVoiceTraits(npcPersona), takenVoiceIds);
+        const npc = recordNpcExchange(
+            createNpc(brief.name, npcPersona, { voiceId, voiceName: decision.narratorVoice }, location, narratorMessage.id),
+            '',
+            firstWords
+        );
+        npcs.value = [...npcs.value, npc];
+        applyWorldUpdate({ npcs: [{ name: npc.name, description: npcPersona.characterDescription, location }] });
 
+        await playNarration(narratorMessage, narrationText, decision.narratorVoice);
+
+        chatHistory.value.push({
+            id: chatHistory.value.length + 1,
+            sender: 'companion',
+            kind: 'npc_speech',
+            speaker: { name: npc.name, npcId: npc.id },
+            text: firstWords
+        });
+        await speakInCharacter(npc.name, firstWords, { voiceName: npc.voiceName, voiceId: npc.voiceId, mood: npc.persona.mood });
+    };
+
+    // While a character's line plays: show who is talking and keep the mic from hearing them
+    const speakingHooks = (name: string) => ({
+        onStart: () => {
+            isSpeaking.value = true;
+            conversationMessage.value = `${name} is speaking...`;
+            liveAudioRef.value?.muteMicrophone?.();
+        },
+        onEnd: () => {
+            isSpeaking.value = false;
+            liveAudioRef.value?.unmuteMicrophone?.();
+        }
+    });
+
+    // Speaks a finished line in a character's own voice, outside the streaming reply pipeline.
+    // Lines nobody asked for, like unprompted remarks, go low so they never hold up a reply.
+    const speakInCharacter = async (
+        name: string,
+        text: string,
+        voice: { voiceName: string; voiceId?: string; mood?: string },
+        priority: PlaybackPriority = 'normal'
+    ): Promise<void> => {
         try {
-            // Generate response without auto-speaking
-            const aiMessage = await conversationService.processUserInput(userInput, config, false);
+            await conversationService.speakText(text, voice.voiceName, voice.voiceId, voiceSettingsForMood(voice.mood), {
+                source: 'conversation',
+                priority,
+                label: name,
+                ...speakingHooks(name)
+            });
+        } catch (error) {
+            console.warn(`[ConversationManager] Could not speak as ${name}:`, error);
+        }
+    };
 
-            // Add AI response to chat history
+    // Plays a chat message's audio again from the speech cache, without generating anything
+    const replayLine = async (message: ChatMessage): Promise<void> => {
+        if (isSpeaking.value || audioEventBus.state.value.isTTSPlaying) return;
+        try {
+            const speaker = 'speaker' in message ? message.speaker.name : NARRATOR_SPEAKER;
+            const isReplayed = await speechSynthesisService.replayLine(speaker, message.text, {
+                source: message.kind === 'narration' ? 'narration' : 'conversation',
+                priority: 'low',
+                label: 'Replay',
+                onStart: () => {
+                    isSpeaking.value = true;
+                    liveAudioRef.value?.muteMicrophone?.();
+                },
+                onEnd: () => {
+                    isSpeaking.value = false;
+                    liveAudioRef.value?.unmuteMicrophone?.();
+                }
+            });
+            if (!isReplayed) {
+                conversationMessage.value = 'That line is no longer in the audio cache.';
+                setTimeout(() => {
+                    conversationMessage.value = '';
+                }, 3000);
+            }
+        } catch (error) {
+            console.warn('[ConversationManager] Replaying a line failed:', error);
+        }
+    };
+
+    // Same streaming reply as the companion's, in the NPC's own voice and with its own history
+    const handleNpcDialogue = async (npc: SecondaryNpc, userInput: string): Promise<void> => {
+        console.log('[ConversationManager] Handling dialogue with NPC:', npc.name);
+        const config = buildNpcConversationConfig(npc, selectedGenre.value || 'adventure', describeInventoryForPrompt(inventory.value), describePlayerForPrompt(playerCharacter.value));
+        conversationMessage.value = `${npc.name} is thinking...`;
+
+        chatHistory.value.push({
+            id: chatHistory.value.length + 1,
+            sender: 'companion',
+            kind: 'npc_speech',
+            speaker: { name: npc.name, npcId: npc.id },
+            text: ''
+        });
+        const npcMessage = chatHistory.value[chatHistory.value.length - 1];
+
+        const speech = conversationService.createSpeechPipeline(config, { priority: 'normal', ...speakingHooks(npc.name) });
+
+        try {
+            const reply = await conversationService.streamResponse(config, userInput, delta => {
+                npcMessage.text += delta;
+                speech.push(delta);
+            });
+            npcMessage.text = reply;
+            npcs.value = npcs.value.map(entry => entry.id === npc.id ? recordNpcExchange(entry, userInput, reply) : entry);
+            await speech.finish();
+        } catch (error) {
+            console.error(`[ConversationManager] Failed to handle dialogue with ${npc.name}:`, error);
+            await speech.finish();
+            if (!npcMessage.text.trim()) {
+                npcMessage.text = `${npc.name} looks at you but says nothing.`;
+            }
+        }
+    };
+
+    // Starts a fight: the opening narration plays, then anyone faster than the player acts
+    const handleCombatStart = async (decision: StoryWeaverDecision): Promise<void> => {
+        const setup = decision.encounter!;
+        console.log('[ConversationManager] Combat starts:', setup.enemies.map(enemy => `${enemy.name} (${enemy.threat})`).join(', '));
+        conversationMessage.value = 'A fight breaks out...';
+
+        const imageUrl = await generateSceneImage(decision.imagePrompt);
+        const narrationText = decision.responseText || 'There is no time to think. The fight is on.';
+        const narratorMessage = {
+            id: chatHistory.value.length + 1,
+            sender: 'companion' as const,
+            kind: 'narration' as const,
+            text: narrationText,
+            imageUrl: imageUrl,
+            isNarrating: false
+        };
+        chatHistory.value.push(narratorMessage);
+
+        const rng = new SeededRandom(diceRngState.value);
+        const companion = isCompanionPresent.value
+            ? { name: generatedCharacterName.value, description: generatedCharacterDescription.value, stats: companionStats.value }
+            : null;
+        const { encounter, events } = createEncounter(setup, { stats: playerStats.value }, companion, rng, narratorMessage.id);
+        diceRngState.value = rng.state;
+        activeEncounter.value = encounter;
+
+        await playNarration(narratorMessage, narrationText, narratorVoice);
+        if (events.length) {
+            await narrateCombatRound('(the enemies strike before the player can act)', encounter, events);
+        }
+    };
+
+    const handleCombatTurn = async (userInput: string): Promise<void> => {
+        const encounter = activeEncounter.value!;
+        const action = parseCombatAction(userInput, encounter, inventory.value);
+
+        if (!action) {
+            const options = getCombatActionOptions(encounter, inventory.value).map(option => option.label);
+            const helpText = `There is no time for that in the middle of a fight. You can: ${options.join(', ')}.`;
+            const helpMessage = {
+                id: chatHistory.value.length + 1,
+                sender: 'companion' as const,
+                kind: 'system' as const,
+                text: helpText,
+                isNarrating: false
+            };
+            chatHistory.value.push(helpMessage);
+            await playNarration(helpMessage, helpText, narratorVoice);
+            return;
+        }
+
+        console.log(`[ConversationManager] Combat round ${encounter.round}: ${action.type}${action.targetId ? ` -> ${action.targetId}` : ''}`);
+        conversationMessage.value = 'The fight rages...';
+
+        const rng = new SeededRandom(diceRngState.value);
+        const result = resolveCombatTurn(encounter, action, playerStats.value, inventory.value, rng);
+        diceRngState.value = rng.state;
+        activeEncounter.value = result.encounter;
+        if (result.consumedItemId) {
+            const consumed = inventory.value.find(item => item.id === result.consumedItemId);
+            inventory.value = removeInventoryItem(inventory.value, result.consumedItemId);
+            if (consumed) pushNotice('item_event', `Used up: ${consumed.name}`);
+        }
+
+        await narrateCombatRound(userInput, result.encounter, result.events);
+    };
+
+    const narrateCombatRound = async (playerAction: string, encounter: Encounter, events: CombatEvent[]): Promise<void> => {
+        const narration = await storyWeaver.narrateCombatRound(playerAction, encounter, events, buildGameState());
+        const narratorMessage = {
+            id: chatHistory.value.length + 1,
+            sender: 'companion' as const,
+            kind: 'narration' as const,
+            text: narration.narrationText,
+            isNarrating: false
+        };
+        chatHistory.value.push(narratorMessage);
+
+        if (encounter.phase !== 'active') {
+            finishEncounter(encounter, narratorMessage.id);
+        }
+        await playNarration(narratorMessage, narration.narrationText, narratorVoice);
+    };
+
+    // Writes the outcome of a finished fight back into the inventory and world, and counts the
+    // fight as a turn of the story
+    const finishEncounter = (encounter: Encounter, messageId: number): void => {
+        console.log(`[ConversationManager] Combat ended: ${encounter.phase} after ${encounter.round} round(s)`);
+        if (encounter.phase === 'victory') {
+            encounter.loot.forEach(item => gainItem(item, messageId));
+        }
+        applyWorldUpdate(buildEncounterWorldPatch(encounter, worldModel.value.currentLocation));
+
+        advanceArc(proposeArcStageAfterEncounter(encounter, storyArc.value.stage));
+        // Losing a fight turns the story the way a twist does
+        recordPacing(`combat_${encounter.phase}`, encounter.phase === 'defeat' ? 'twist' : undefined);
+        updateCompanionMemory();
+        evaluateCompanionMood();
+    };
+
+    // Applies the Story Weaver's quest progress against the narration that just played
+    const applyQuestProgress = (updates: QuestUpdate[]): void => {
+        const messageId = chatHistory.value[chatHistory.value.length - 1]?.id ?? 0;
+        const result = applyQuestUpdates(quests.value, updates, messageId);
+        quests.value = result.quests;
+        result.completed.forEach(objective => {
+            console.log(`[ConversationManager] Objective completed: ${objective.title}${objective.isMain ? ' (main quest)' : ''}`);
+        });
+    };
+
+    // Counts the turn on the story arc; completing the main quest resolves it straight away
+    const advanceArc = (proposedStage?: StoryWeaverDecision['arcStage']): void => {
+        storyArc.value = isMainQuestComplete(quests.value)
+            ? resolveStoryArc(advanceStoryArc(storyArc.value))
+            : advanceStoryArc(storyArc.value, proposedStage);
+    };
+
+    // The beat a Story Weaver turn delivered, if any
+    const deliveredBeat = (decision: StoryWeaverDecision): PacingBeat | undefined =>
+        decision.responseType === 'companion_introduction'
+            ? 'companion_arrival'
+            : decision.pacingBeat === 'none' ? undefined : decision.pacingBeat;
+
+    const recordPacing = (responseType: string, beat?: PacingBeat, insistedOn?: PacingBeat): void => {
+        pacing.value = recordPacingTurn(pacing.value, storyArc.value, {
+            responseType,
+            beat,
+            insistedOn,
+            isCompanionPresent: isCompanionPresent.value
+        });
+    };
+
+    // Bookkeeping after every turn outside a fight, whether the Story Weaver or an NPC answered it:
+    // the companion may speak up, the arc and pacing move on, and the adventure may end
+    const completeTurn = async (
+        responseType: string,
+        outcome: { arcStage?: StoryWeaverDecision['arcStage']; beat?: PacingBeat; insistedOn?: PacingBeat } = {}
+    ): Promise<void> => {
+        await handleCompanionRemark(responseType);
+        advanceArc(outcome.arcStage);
+        recordPacing(responseType, outcome.beat, outcome.insistedOn);
+        if (!adventureEnding.value && storyArc.value.stage === 'resolution') {
+            await handleEpilogue(narratorVoice);
+        }
+        updateCompanionMemory();
+        evaluateCompanionMood();
+    };
+
+    // Plays the end of the adventure: the illustrated epilogue, then the companion's goodbye
+    const handleEpilogue = async (narratorVoice: string): Promise<void> => {
+        const mainQuest = getMainQuest(quests.value);
+        console.log('[ConversationManager] Story arc resolved, playing epilogue');
+        conversationMessage.value = 'The story draws to a close...';
+
+        const epilogue = await storyWeaver.generateEpilogue(buildGameState(), {
+            playerActions: chatHistory.value.filter(msg => msg.kind === 'player').map(msg => msg.text),
+            companionMemories: companionMemory.value.summaries.map(summary => summary.text),
+            relationshipLevel: relationshipLevel.value
+        });
+        const partingWords = isCompanionPresent.value ? epilogue.partingWords.trim() : '';
+        const narratorMessage = {
+            id: chatHistory.value.length + 1,
+            sender: 'companion' as const,
+            kind: 'narration' as const,
+            text: epilogue.narrationText,
+            isNarrating: false
+        };
+        chatHistory.value.push(narratorMessage);
+        adventureEnding.value = {
+            endingType: epilogue.endingType,
+            title: epilogue.title,
+            questTitle: mainQuest?.title || '',
+            mainQuestCompleted: mainQuest?.status === 'completed',
+            narrationText: epilogue.narrationText,
+            partingWords: partingWords || undefined,
+            messageId: narratorMessage.id,
+            stats: computeAdventureStats(chatHistory.value, worldModel.value, quests.value, relationshipLevel.value, npcs.value.length)
+        };
+        console.log(`[ConversationManager] Ending: ${epilogue.endingType} - ${epilogue.title}`);
+
+        const message = chatHistory.value[chatHistory.value.length - 1];
+        const imageTask = generateSceneImage(epilogue.imagePrompt).then(imageUrl => {
+            message.imageUrl = imageUrl;
+        });
+        await Promise.all([playNarration(message, epilogue.narrationText, narratorVoice), imageTask]);
+
+        if (partingWords) {
+            const config = buildConversationConfig();
             chatHistory.value.push({
                 id: chatHistory.value.length + 1,
                 sender: 'companion',
-                text: aiMessage.text
+                kind: 'companion_speech',
+                speaker: { name: config.characterName },
+                text: partingWords
             });
+            await speakInCharacter(config.characterName, partingWords, { voiceName: config.voiceName, voiceId: config.voiceId, mood: config.currentMood });
+        }
+    };
 
-            // Handle TTS for companion dialogue
-            isSpeaking.value = true;
-            conversationMessage.value = `${config.characterName} is speaking...`;
-            audioEventBus.startTTS('conversation');
+    const handleCompanionDialogue = async (userInput: string): Promise<void> => {
+        console.log('[ConversationManager] Handling companion dialogue');
+        const config = buildConversationConfig(userInput);
+        const pendingEvent = getPendingRelationshipEvent();
+        conversationMessage.value = `${config.characterName} is thinking...`;
 
-            if (liveAudioRef.value?.muteMicrophone) {
-                liveAudioRef.value.muteMicrophone();
-            }
+        // The reply is shown as it streams in and spoken one sentence at a time
+        chatHistory.value.push({
+            id: chatHistory.value.length + 1,
+            sender: 'companion',
+            kind: 'companion_speech',
+            speaker: { name: config.characterName },
+            text: ''
+        });
+        const companionMessage = chatHistory.value[chatHistory.value.length - 1];
+        turnsSinceCompanionSpoke = 0;
 
-            try {
-                await conversationService.speakText(aiMessage.text, config.voiceName, config.voiceId);
-            } finally {
-                isSpeaking.value = false;
-                if (liveAudioRef.value?.unmuteMicrophone) {
-                    liveAudioRef.value.unmuteMicrophone();
-                }
-                audioEventBus.endTTS();
+        const speech = conversationService.createSpeechPipeline(config, { priority: 'normal', ...speakingHooks(config.characterName) });
+
+        try {
+            const aiMessage = await conversationService.processUserInputStreaming(userInput, config, delta => {
+                companionMessage.text += delta;
+                speech.push(delta);
+            });
+            companionMessage.text = aiMessage.text;
+
+            if (pendingEvent) {
+                const milestone = relationshipMilestones.value.find(entry => entry.eventId === pendingEvent.id);
+                if (milestone) milestone.acknowledged = true;
             }
 
+            // Appraise while the reply is still being spoken
+            await Promise.all([
+                speech.finish(),
+                updateRelationship(userInput, aiMessage.text, companionMessage.id)
+            ]);
+
         } catch (error) {
             console.error('[ConversationManager] Failed to handle companion dialogue:', error);
+            await speech.finish();
+            if (!companionMessage.text.trim()) {
+                companionMessage.text = "I'm not sure how to respond to that right now.";
+            }
+        }
+    };
+
+    // The companion reacts on their own to the turn that just played out, once the narrator
+    // has finished: a comment, a warning or a suggestion. Failures just leave them quiet.
+    const handleCompanionRemark = async (responseType: string): Promise<void> => {
+        const trigger = remarkTriggerFor(responseType);
+        if (!isCompanionPresent.value || !trigger || !shouldConsiderRemark(companionChattiness.value, trigger, turnsSinceCompanionSpoke)) {
+            return;
+        }
+        // After talking to an NPC the companion reacts to what they said, otherwise to the narration
+        const reactingTo = [...chatHistory.value].reverse().find(msg => msg.kind === (trigger === 'conversation' ? 'npc_speech' : 'narration'));
+        if (!reactingTo) return;
+
+        try {
+            const config = buildConversationConfig();
+            const remark = await remarkService.generateRemark(config, {
+                trigger,
+                chattiness: companionChattiness.value,
+                narration: trigger === 'conversation' ? formatHistoryForPrompt([toHistoryEntry(reactingTo)]) : reactingTo.text,
+                location: worldModel.value.currentLocation,
+                recentHistory: chatHistory.value.filter(msg => msg.kind !== 'system').slice(-6).map(toHistoryEntry)
+            });
+            if (!remark) return;
+
             chatHistory.value.push({
                 id: chatHistory.value.length + 1,
                 sender: 'companion',
-                text: "I'm not sure how to respond to that right now."
+                kind: 'companion_speech',
+                speaker: { name: config.characterName },
+                text: remark
             });
+            turnsSinceCompanionSpoke = 0;
+            await speakInCharacter(config.characterName, remark, { voiceName: config.voiceName, voiceId: config.voiceId, mood: config.currentMood }, 'low');
+        } catch (error) {
+            console.warn('[ConversationManager] Companion remark failed:', error);
         }
     };
 
     // Helper functions
+    const applyWorldUpdate = (patch?: WorldPatch): void => {
+        if (!patch) return;
+        worldModel.value = applyWorldPatch(worldModel.value, patch);
+        console.log('[ConversationManager] World model updated:', {
+            currentLocation: worldModel.value.currentLocation,
+            locations: Object.keys(worldModel.value.locations).length,
+            npcs: Object.keys(worldModel.value.npcs).length,
+            items: Object.keys(worldModel.value.items).length,
+            facts: worldModel.value.facts.length,
+            openThreads: worldModel.value.threads.filter(thread => thread.status === 'open').length
+        });
+    };
+
     const generateSceneImage = async (imagePrompt?: string): Promise<string | undefined> => {
         if (!imagePrompt) return undefined;
 
@@ -672,20 +1389,56 @@ Focus on advancing the story and revealing new aspects of the world.`;
 
         try {
             isProcessing.value = true;
-            conversationMessage.value = 'Story Weaver is thinking...';
 
-            // Increment user response count
-            userResponseCount.value++;
-            console.log(`[ConversationManager] User response ${userResponseCount.value}/${companionAppearanceThreshold.value}`);
+            // During a fight every input is a combat action
+            if (activeEncounter.value?.phase === 'active') {
+                chatHistory.value.push({
+                    id: chatHistory.value.length + 1,
+                    sender: 'user',
+                    kind: 'player',
+                    text: userInput
+                });
+                await handleCombatTurn(userInput);
+                // A boss fight can settle the climax, which ends the adventure
+                if (!adventureEnding.value && storyArc.value.stage === 'resolution') {
+                    await handleEpilogue(narratorVoice);
+                }
+                return;
+            }
+            // A finished fight stays on screen until the story moves on
+            activeEncounter.value = null;
+
+            // Speaking to someone here by name goes straight to them
+            const addressedNpc = findAddressedNpc(
+                userInput,
+                npcsAt(npcs.value, worldModel.value.currentLocation),
+                isCompanionPresent.value ? generatedCharacterName.value : undefined
+            );
+            if (addressedNpc) {
+                chatHistory.value.push({
+                    id: chatHistory.value.length + 1,
+                    sender: 'user',
+                    kind: 'player',
+                    text: userInput
+                });
+                turnsSinceCompanionSpoke++;
+                await handleNpcDialogue(addressedNpc, userInput);
+                await completeTurn('npc_dialogue');
+                return;
+            }
+
+            conversationMessage.value = 'Story Weaver is thinking...';
 
-            // Build current game state
-            const gameState = buildGameState();
+            turnsSinceCompanionSpoke++;
 
-            // Check if companion should appear based on threshold
-            const shouldIntroduceCompanion = !isCompanionPresent.value && userResponseCount.value >= companionAppearanceThreshold.value;
+            // The pacing director shapes the turn; it only insists once a beat is overdue
+            const pacingDirective = getPacingDirective(pacing.value, storyArc.value);
+            const gameState: GameState = { ...buildGameState(), pacing: pacingDirective };
+            console.log(`[ConversationManager] Turn ${storyArc.value.turn + 1}, tension ${pacingDirective.tension}, beat: ${pacingDirective.beat || 'none'}${pacingDirective.isRequired ? ' (required)' : ''}`);
 
             // Let Story Weaver decide how to respond
             const decision = await storyWeaver.decideResponse(userInput, gameState);
+            narratorVoice = decision.narratorVoice;
             console.log('[ConversationManager] Story Weaver decision:', {
                 responseType: decision.responseType,
                 reasoning: decision.reasoning,
@@ -694,28 +1447,44 @@ Focus on advancing the story and revealing new aspects of the world.`;
                 hasResponseText: !!decision.responseText
             });
 
-            // Override decision if companion threshold reached
-            if (shouldIntroduceCompanion && decision.responseType !== 'companion_introduction') {
+            // An overdue companion arrival overrides whatever the Story Weaver chose
+            const isCompanionArrivalDue = pacingDirective.beat === 'companion_arrival' && pacingDirective.isRequired && !isCompanionPresent.value;
+            if (isCompanionArrivalDue && decision.responseType !== 'companion_introduction') {
                 console.log('[ConversationManager] Overriding decision to introduce companion');
                 decision.responseType = 'companion_introduction';
-                decision.reasoning = 'Companion appearance threshold reached';
+                decision.reasoning = 'The pacing director brought the companion in';
+                delete decision.skillCheck;
+                delete decision.encounter;
             }
 
             // Add user message to chat history
             chatHistory.value.push({
                 id: chatHistory.value.length + 1,
                 sender: 'user',
+                kind: 'player',
                 text: userInput
             });
 
+            // Dice are rolled before the outcome is narrated
+            const skillCheck = decision.skillCheck ? rollSkillCheck(decision.skillCheck) : undefined;
+
             // Execute the Story Weaver's decision
-            await executeStoryWeaverDecision(decision, userInput, gameState);
+            await executeStoryWeaverDecision(decision, userInput, gameState, skillCheck);
+            if (decision.questUpdates?.length) {
+                applyQuestProgress(decision.questUpdates);
+            }
+            await completeTurn(decision.responseType, {
+                arcStage: decision.arcStage,
+                beat: deliveredBeat(decision),
+                insistedOn: pacingDirective.isRequired ? pacingDirective.beat : undefined
+            });
 
 
 
         } catch (error) {
             console.error('Failed to process user input:', error);
             conversationMessage.value = 'Sorry, I had trouble understanding. Please try again.';
+            pushNotice('system', 'Something went wrong with that turn. Please try again.');
             
             setTimeout(() => {
                 conversationMessage.value = '';
@@ -731,6 +1500,7 @@ Focus on advancing the story and revealing new aspects of the world.`;
 
     const handleTextInput = async (text: string): Promise<void> => {
         if (text.trim()) {
+            audioPlaybackQueue.bargeIn();
             await processUserInput(text.trim());
         }
     };
@@ -754,11 +1524,24 @@ Focus on advancing the story and revealing new aspects of the world.`;
         if (isListening.value) {
             stopListening();
         } else if (isSpeaking.value) {
-            // Could implement speech interruption here if needed
+            audioPlaybackQueue.skipAll();
             conversationMessage.value = '';
         }
     };
 
+    // Player controls for the line being spoken; whatever is queued behind it still plays
+    const skipLine = (): void => {
+        audioPlaybackQueue.skip();
+    };
+
+    const togglePlaybackPause = (): void => {
+        if (audioPlaybackQueue.state.value.isPaused) {
+            audioPlaybackQueue.resume();
+        } else {
+            audioPlaybackQueue.pause();
+        }
+    };
+
     const handleNoAudio = (): void => {
         conversationMessage.value = 'No microphone detected. Please check your audio settings.';
         setTimeout(() => {
@@ -767,7 +1550,9 @@ Focus on advancing the story and revealing new aspects of the world.`;
     };
 
     const handleSpeakingStart = (): void => {
-        // Not needed for STT approach
+        if (isSpeaking.value) {
+            audioPlaybackQueue.bargeIn();
+        }
     };
 
     const handleExtendedQuiet = (): void => {
@@ -793,9 +1578,11 @@ Focus on advancing the story and revealing new aspects of the world.`;
         conversationMessage.value = 'Voice configuration error. Please restart the adventure.';
     };
 
-    const handleTriggerContextualChange = (): void => {
-        // Could implement mood/style changes here
-        console.log('Contextual change triggered');
+    // Picked up by buildConversationConfig, which also derives the TTS voice settings from the mood
+    const handleTriggerContextualChange = (mood: string, style: string, reason: string = ''): void => {
+        console.log(`[ConversationManager] Companion mood: ${currentContextualMood.value || generatedMood.value} -> ${mood}, style: ${style}${reason ? ` (${reason})` : ''}`);
+        currentContextualMood.value = mood;
+        currentContextualStyle.value = style;
     };
 
     return {
@@ -805,6 +1592,8 @@ Focus on advancing the story and revealing new aspects of the world.`;
         isSpeaking,
         isConnectingAudio,
         conversationMessage,
+        pacing,
+        playbackState: audioPlaybackQueue.state,
         
         // Methods
         onStartOrResumeAdventure,
@@ -816,10 +1605,18 @@ Focus on advancing the story and revealing new aspects of the world.`;
         handleInvalidVoiceError,
         handleTriggerContextualChange,
         handleTextInput,
+        replayLine,
+        skipLine,
+        togglePlaybackPause,
         
         // Service methods
         startListening,
         stopListening,
-        processUserInput
+        processUserInput,
+
+        // Persistence
+        getProgressSnapshot,
+        restoreProgress,
+        resetProgress
     };
 }
\ No newline at end of file
@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { computed, watch } from 'vue';
+import { audioPlaybackQueue } from '../audio-playback-queue';
+import { soundscapeService } from '../soundscape-service';
+import { SoundscapeScene } from '../soundscape';
+import type { useAdventureState } from './useAdventureState'; // For type inference
+
+type AdventureState = ReturnType<typeof useAdventureState>;
+
+/**
+ * Keeps the music and ambience in step with the scene, and the mixer levels with the settings.
+ */
+export function useSoundscape(state: AdventureState) {
+    const {
+        selectedGenre, sceneTags, activeEncounter, isGameScreenActive,
+        musicVolume, ambienceVolume, voiceVolume
+    } = state;
+
+    // A fight under way calls for combat music, whatever the scene was tagged with
+    const scene = computed<SoundscapeScene>(() => ({
+        genre: selectedGenre.value,
+        tags: activeEncounter.value?.phase === 'active' ? [...sceneTags.value, 'combat'] : sceneTags.value
+    }));
+
+    watch([scene, isGameScreenActive], ([current, isActive]) => {
+        if (isActive && current.genre) {
+            soundscapeService.setScene(current);
+        } else {
+            soundscapeService.stop();
+        }
+    }, { deep: true });
+
+    watch(musicVolume, volume => soundscapeService.setVolume('music', volume), { immediate: true });
+    watch(ambienceVolume, volume => soundscapeService.setVolume('ambience', volume), { immediate: true });
+    watch(voiceVolume, volume => audioPlaybackQueue.setVolume(volume), { immediate: true });
+
+    return { scene };
+}
@@ -2,10 +2,15 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
  */
-import { GroqService } from './groq-service';
-import { ElevenLabsTTSService } from './elevenlabs-tts-service';
+import { GroqService, getTextProviderConfigError } from './groq-service';
 import { STTService } from './stt-service';
 import { TextCleanupService } from './text-cleanup-service';
+import { StreamingSpeech } from './streaming-text';
+import { describeRelationshipForPrompt } from './relationship';
+import { ElevenLabsVoiceSettings, voiceSettingsForMood } from './companion-mood';
+import { speechSynthesisService } from './speech-synthesis-provider';
+import { PlaybackLineOptions } from './audio-playback-queue';
+import { HistoryEntry, formatHistoryForPrompt } from './chat-messages';
 
 export interface ConversationConfig {
   characterName: string;
@@ -19,6 +24,13 @@ export interface ConversationConfig {
   voicePromptInstruction: string;
   currentMood: string;
   currentStyle: string;
+  memoryContext?: string; // Summaries and recalled facts from CompanionMemory
+  relationshipLevel?: number; // 0-100 affinity toward the player
+  relationshipDirective?: string; // A relationship event to act on in this reply
+  inventoryContext?: string; // What the player is carrying
+  playerContext?: string; // Who the player is, from describePlayerForPrompt
+  recentHistory?: HistoryEntry[]; // The latest chat messages, before the input being answered
+  npcHistory?: Array<{ sender: 'user' | 'companion'; text: string }>; // Set for secondary NPCs, who keep their own history in game state
 }
 
 export interface ConversationMessage {
@@ -32,25 +44,18 @@ export interface ConversationMessage {
 
 export class ConversationService {
   private groqService: GroqService;
-  private ttsService: ElevenLabsTTSService;
   private sttService: STTService;
   private chatHistory: ConversationMessage[] = [];
   private nextMessageId = 1;
 
   constructor(geminiApiKey: string) {
-    // Use Groq API key from environment
-    const groqApiKey = process.env.GROQ_API_KEY;
-    if (!groqApiKey) {
-      throw new Error("GROQ_API_KEY environment variable is required for text generation. Add it to .env.local");
+    // Text generation backend is chosen by TEXT_PROVIDER (Groq by default)
+    const textProviderError = getTextProviderConfigError();
+    if (textProviderError) {
+      throw new Error(textProviderError);
     }
-    this.groqService = new GroqService(groqApiKey);
-    
-    // Use ElevenLabs API key from environment (defined in vite.config.ts)
-    const elevenLabsApiKey = process.env.ELEVENLABS_API_KEY;
-    if (!elevenLabsApiKey) {
-      throw new Error("ELEVENLABS_API_KEY environment variable is required for TTS. Add it to .env.local");
-    }
-    this.ttsService = new ElevenLabsTTSService(elevenLabsApiKey);
+    this.groqService = new GroqService(process.env.GROQ_API_KEY);
+    // Speech goes through speechSynthesisService, which falls back between providers
     this.sttService = new STTService();
   }
 
@@ -120,20 +125,36 @@ Character traits:
 - Current style: ${config.currentStyle || 'conversational'}
 
 Voice instruction: ${config.voicePromptInstruction}
-
-You are in a ${config.genre} adventure scenario. Respond to the user's input in character, staying true to your personality traits. Keep responses conversational and engaging, typically 1-3 sentences unless the situation calls for more.`;
+${config.playerContext ? `
+The player you are talking to:
+${config.playerContext}
+` : ''}${config.relationshipLevel !== undefined ? `
+${describeRelationshipForPrompt(config.relationshipLevel)}
+` : ''}${config.relationshipDirective ? `
+Something has just shifted between you and the player. In this reply: ${config.relationshipDirective}
+` : ''}
+You are in a ${config.genre} adventure scenario. Respond to the user's input in character, staying true to your personality traits. Keep responses conversational and engaging, typically 1-3 sentences unless the situation calls for more.${config.inventoryContext ? `
+
+What the player is carrying (they have nothing else):
+${config.inventoryContext}` : ''}${config.memoryContext ? `
+
+Your memories of this adventure (stay consistent with them):
+${config.memoryContext}` : ''}`;
   }
 
   private buildUserMessage(config: ConversationConfig, userInput: string): string {
-    const recentHistory = this.chatHistory.slice(-10); // Last 10 messages for context
-    
-    let conversationContext = '';
-    if (recentHistory.length > 0) {
-      conversationContext = 'Recent conversation:\n' + 
-        recentHistory.map(msg => `${msg.sender === 'user' ? 'User' : config.characterName}: ${msg.text}`).join('\n') + '\n\n';
+    // Secondary NPCs only know their own exchanges with the player
+    if (config.npcHistory) {
+      let conversationContext = '';
+      if (config.npcHistory.length > 0) {
+        conversationContext = 'Recent conversation:\n' +
+          config.npcHistory.map(msg => `${msg.sender === 'user' ? 'User' : config.characterName}: ${msg.text}`).join('\n') + '\n\n';
+      }
+      return `${conversationContext}User: ${userInput}`;
     }
 
-    return `${conversationContext}User: ${userInput}`;
+    const recentHistory = formatHistoryForPrompt(config.recentHistory || []);
+    return `${recentHistory ? `Recent conversation:\n${recentHistory}\n\n` : ''}Player: ${userInput}`;
   }
 
   async generateResponse(config: ConversationConfig, userInput: string): Promise<string> {
@@ -142,9 +163,11 @@ You are in a ${config.genre} adventure scenario. Respond to the user's input in
       const systemPrompt = this.buildSystemPrompt(config);
       const userMessage = this.buildUserMessage(config, userInput);
       
-      console.log('[Conversation] Sending request to Groq Llama-3.1-8b-instant');
+      console.log(`[Conversation] Sending request to ${this.groqService.providerName}`);
       
-      const response = await this.groqService.generateResponse(systemPrompt, userMessage);
+      const response = await this.groqService.generateResponse(systemPrompt, userMessage, false, {
+        purpose: 'companion_dialogue'
+      });
       const duration = performance.now() - startTime;
       console.log(`[Conversation] ⏱️ Response generated in ${duration.toFixed(2)}ms`);
       
@@ -155,27 +178,67 @@ You are in a ${config.genre} adventure scenario. Respond to the user's input in
     }
   }
 
-  async speakText(text: string, voiceName: string, voiceId?: string): Promise<void> {
+  async streamResponse(config: ConversationConfig, userInput: string, onDelta: (delta: string) => void): Promise<string> {
+    const startTime = performance.now();
+    const systemPrompt = this.buildSystemPrompt(config);
+    const userMessage = this.buildUserMessage(config, userInput);
+
+    console.log(`[Conversation] Streaming request to ${this.groqService.providerName}`);
+
+    let responseText = '';
+    let firstDeltaLogged = false;
+    for await (const delta of this.groqService.streamResponse(systemPrompt, userMessage, false, {
+      purpose: config.npcHistory ? 'npc_dialogue' : 'companion_dialogue'
+    })) {
+      if (!firstDeltaLogged) {
+        console.log(`[Conversation] ⏱️ First token after ${(performance.now() - startTime).toFixed(2)}ms`);
+        firstDeltaLogged = true;
+      }
+      responseText += delta;
+      onDelta(delta);
+    }
+
+    console.log(`[Conversation] ⏱️ Response streamed in ${(performance.now() - startTime).toFixed(2)}ms`);
+    return responseText.trim();
+  }
+
+  /**
+   * Sentence-by-sentence TTS for a streaming reply, using the same voice choice and
+   * stage-direction cleanup as speakText. The reply is queued as one conversation line.
+   */
+  createSpeechPipeline(
+    config: ConversationConfig,
+    playback: Omit<PlaybackLineOptions, 'source'> = {}
+  ): StreamingSpeech {
+    const voice = {
+      voiceName: config.voiceName,
+      voiceId: config.voiceId?.trim() || undefined,
+      voiceSettings: voiceSettingsForMood(config.currentMood)
+    };
+
+    return speechSynthesisService.createSentencePipeline(voice, { source: 'conversation', label: config.characterName, ...playback }, sentence =>
+      TextCleanupService.hasStageDirections(sentence) ? TextCleanupService.cleanForTTS(sentence) : sentence
+    );
+  }
+
+  async speakText(
+    text: string,
+    voiceName: string,
+    voiceId?: string,
+    voiceSettings?: ElevenLabsVoiceSettings,
+    playback: PlaybackLineOptions = { source: 'conversation' }
+  ): Promise<void> {
     try {
       const startTime = performance.now();
       console.log('[Conversation] speakText called with voiceId:', voiceId, 'voiceName:', voiceName);
       
-      // Clean text for TTS - remove stage directions and action descriptions
-      let cleanedText = text;
-      if (TextCleanupService.hasStageDirections(text)) {
-        cleanedText = TextCleanupService.cleanForTTS(text);
+      // Clean text for TTS - remove stage directions and action descriptions. The line is
+      // remembered uncleaned, as it appears in the chat, so it can be replayed from there
+      await speechSynthesisService.speak(text, { voiceName, voiceId: voiceId?.trim() || undefined, voiceSettings }, playback, line => {
+        if (!TextCleanupService.hasStageDirections(line)) return line;
         console.log('[Conversation] Text cleaned for TTS - removed stage directions');
-      }
-
-      if (voiceId && voiceId.trim() !== '') {
-        // Use ElevenLabs voice ID for character dialogue
-        console.log('[Conversation] Using ElevenLabs voice ID for character:', voiceId);
-        await this.ttsService.speakTextWithVoiceId(cleanedText, voiceId);
-      } else {
-        // Fall back to voice name for narrator or when voice ID not available
-        console.log('[Conversation] Using voice name fallback:', voiceName, '(voiceId was:', voiceId, ')');
-        await this.ttsService.speakText(cleanedText, voiceName);
-      }
+        return TextCleanupService.cleanForTTS(line);
+      });
       
       const duration = performance.now() - startTime;
       console.log(`[Conversation] ⏱️ TTS completed in ${duration.toFixed(2)}ms`);
@@ -202,7 +265,7 @@ You are in a ${config.genre} adventure scenario. Respond to the user's input in
 
     // Optionally start speaking the response 
     if (autoSpeak) {
-      this.speakText(responseText, config.voiceName, config.voiceId).catch(error => {
+      this.speakText(responseText, config.voiceName, config.voiceId, voiceSettingsForMood(config.currentMood)).catch(error => {
         console.error('TTS playback failed:', error);
       });
     }
@@ -210,6 +273,25 @@ You are in a ${config.genre} adventure scenario. Respond to the user's input in
     return aiMessage;
   }
 
+  /**
+   * Streaming counterpart of processUserInput: reports each delta as it arrives and
+   * records both messages once the reply is complete.
+   */
+  async processUserInputStreaming(
+    userInput: string,
+    config: ConversationConfig,
+    onDelta: (delta: string) => void
+  ): Promise<ConversationMessage> {
+    if (!userInput || userInput.trim() === '') {
+      throw new Error('Empty user input received. Please speak clearly and try again.');
+    }
+
+    this.addMessage('user', userInput);
+
+    const responseText = await this.streamResponse(config, userInput, onDelta);
+    return this.addMessage('companion', responseText);
+  }
+
   async handleVoiceInput(config: ConversationConfig): Promise<{ userMessage: ConversationMessage; aiMessage: ConversationMessage }> {
     // Get speech input
     const userInput = await this.startListening();
@@ -2,25 +2,75 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
  */
+import { fixtureStore, getProviderMode, isOfflineProviderMode } from './fixture-store';
+import { DEFAULT_ELEVENLABS_OUTPUT_FORMAT, ELEVENLABS_TTS_MODEL } from './ai-config';
+import { decodeBase64, encodeBytes } from './audio-utils';
+import { Playback } from './audio-playback-queue';
+import { ElevenLabsVoiceSettings, DEFAULT_VOICE_SETTINGS } from './companion-mood';
+import { SpeechTimings, createSpeechTimings, playMP3Stream, readWholeStream, reportSpeechTimings } from './streaming-audio';
 
 export interface ElevenLabsTTSConfig {
   voiceName?: string;
   voiceId?: string;
   modelId?: string;
   outputFormat?: string;
+  voiceSettings?: ElevenLabsVoiceSettings; // Defaults to DEFAULT_VOICE_SETTINGS
+}
+
+/**
+ * Speech audio that is still downloading.
+ */
+export interface SpeechStream {
+  body: ReadableStream<Uint8Array>; // MP3
+  timings: SpeechTimings;
 }
 
 export class ElevenLabsTTSService {
   private apiKey: string;
 
   constructor(apiKey: string) {
-    if (!apiKey) {
+    if (!apiKey && !isOfflineProviderMode()) {
       throw new Error("ElevenLabs API key is required to initialize ElevenLabsTTSService.");
     }
     this.apiKey = apiKey;
   }
 
+  /**
+   * Requests speech and hands back the audio as it downloads, so playback can start on the
+   * first bytes. Returns null in mock mode or when a replayed fixture has no audio.
+   */
+  async streamSpeech(text: string, config: ElevenLabsTTSConfig): Promise<SpeechStream | null> {
+    const mode = getProviderMode();
+    const fixtureRequest = { text, voiceId: config.voiceId, outputFormat: config.outputFormat };
+    const timings = createSpeechTimings(text);
+
+    if (mode === 'mock') {
+      console.log('[ElevenLabs] Mock mode - skipping speech generation');
+      return null;
+    }
+    if (mode === 'replay') {
+      const recorded = fixtureStore.lookup<string | null>('speech', fixtureRequest);
+      return recorded ? { body: new Blob([decodeBase64(recorded)]).stream(), timings } : null;
+    }
+
+    const body = await this.openLiveStream(text, config);
+    if (mode !== 'record') {
+      return { body, timings };
+    }
+    // Record the whole clip from a second copy of the stream while the first one plays
+    const [playbackBody, recordingBody] = body.tee();
+    readWholeStream(recordingBody)
+      .then(audio => fixtureStore.record('speech', fixtureRequest, encodeBytes(new Uint8Array(audio))))
+      .catch(error => console.error('[ElevenLabs] Recording speech fixture failed:', error));
+    return { body: playbackBody, timings };
+  }
+
   async generateSpeech(text: string, config: ElevenLabsTTSConfig): Promise<ArrayBuffer | null> {
+    const stream = await this.streamSpeech(text, config);
+    return stream ? readWholeStream(stream.body, stream.timings) : null;
+  }
+
+  private async openLiveStream(text: string, config: ElevenLabsTTSConfig): Promise<ReadableStream<Uint8Array>> {
     const startTime = performance.now();
     try {
       const voiceIdentifier = config.voiceId || config.voiceName || 'Puck';
@@ -34,7 +84,7 @@ export class ElevenLabsTTSService {
         throw new Error('No voice ID available for ElevenLabs API call');
       }
       
-      const response = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${voiceId}/stream?output_format=${config.outputFormat || 'mp3_44100_128'}`, {
+      const response = await fetch(`https://api.elevenlabs.io/v1/text-to-speech/${voiceId}/stream?output_format=${config.outputFormat || DEFAULT_ELEVENLABS_OUTPUT_FORMAT}`, {
         method: 'POST',
         headers: {
           'xi-api-key': this.apiKey,
@@ -42,11 +92,8 @@ export class ElevenLabsTTSService {
         },
         body: JSON.stringify({
           text: text,
-          model_id: "eleven_turbo_v2_5",
-          voice_settings: { 
-            stability: 0.5, 
-            similarity_boost: 0.8 
-          }
+          model_id: ELEVENLABS_TTS_MODEL,
+          voice_settings: config.voiceSettings || DEFAULT_VOICE_SETTINGS
         }),
       });
 
@@ -56,14 +103,11 @@ export class ElevenLabsTTSService {
       if (!response.ok) {
         throw new Error(`ElevenLabs API error: ${response.status} ${response.statusText}`);
       }
+      if (!response.body) {
+        throw new Error('ElevenLabs API response has no body');
+      }
 
-      const arrayBuffer = await response.arrayBuffer();
-
-      const conversionTime = performance.now();
-      console.log(`[ElevenLabs] ${new Date().toISOString()} - Audio data processed: ${arrayBuffer.byteLength} bytes in ${((conversionTime - apiTime) / 1000).toFixed(3)}s`);
-      console.log(`[ElevenLabs] ${new Date().toISOString()} - Total generation time: ${((conversionTime - startTime) / 1000).toFixed(2)}s`);
-      
-      return arrayBuffer;
+      return response.body;
       
     } catch (error) {
       console.error('[ElevenLabs] Speech generation failed:', error);
@@ -71,6 +115,24 @@ export class ElevenLabsTTSService {
     }
   }
 
+  /**
+   * Starts playing a stream and logs its timings once playback ends or is stopped.
+   */
+  startSpeechStream(stream: SpeechStream): Playback {
+    const playback = playMP3Stream(stream.body, stream.timings);
+    return {
+      finished: playback.finished.finally(() => reportSpeechTimings(stream.timings)),
+      pause: () => playback.pause(),
+      resume: () => playback.resume(),
+      stop: () => playback.stop(),
+      setVolume: volume => playback.setVolume(volume)
+    };
+  }
+
+  playSpeechStream(stream: SpeechStream): Promise<void> {
+    return this.startSpeechStream(stream).finished;
+  }
+
   async playMP3Audio(mp3ArrayBuffer: ArrayBuffer): Promise<void> {
     const playbackStartTime = performance.now();
     console.log(`[ElevenLabs] ${new Date().toISOString()} - Starting MP3 audio playback: ${mp3ArrayBuffer.byteLength} bytes`);
@@ -110,13 +172,13 @@ export class ElevenLabsTTSService {
     }
   }
 
-  async speakText(text: string, voiceName: string): Promise<void> {
+  async speakText(text: string, voiceName: string, voiceSettings?: ElevenLabsVoiceSettings): Promise<void> {
     console.log(`[ElevenLabs] speakText called with voiceName: ${voiceName}`);
     
     try {
-      const audioData = await this.generateSpeech(text, { voiceName });
-      if (audioData) {
-        await this.playMP3Audio(audioData);
+      const stream = await this.streamSpeech(text, { voiceName, voiceSettings });
+      if (stream) {
+        await this.playSpeechStream(stream);
       }
     } catch (error) {
       console.error('[ElevenLabs] speakText failed:', error);
@@ -124,13 +186,13 @@ export class ElevenLabsTTSService {
     }
   }
 
-  async speakTextWithVoiceId(text: string, voiceId: string): Promise<void> {
+  async speakTextWithVoiceId(text: string, voiceId: string, voiceSettings?: ElevenLabsVoiceSettings): Promise<void> {
     console.log(`[ElevenLabs] speakTextWithVoiceId called with voiceId: ${voiceId}`);
     
     try {
-      const audioData = await this.generateSpeech(text, { voiceId });
-      if (audioData) {
-        await this.playMP3Audio(audioData);
+      const stream = await this.streamSpeech(text, { voiceId, voiceSettings });
+      if (stream) {
+        await this.playSpeechStream(stream);
       }
     } catch (error) {
       console.error('[ElevenLabs] speakTextWithVoiceId failed:', error);
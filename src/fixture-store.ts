@@ -0,0 +1,147 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { DEFAULT_PROVIDER_MODE, PROVIDER_MODES, ProviderMode } from './ai-config';
+
+export type FixtureKind = 'text' | 'image' | 'speech';
+
+export interface FixtureEntry {
+  kind: FixtureKind;
+  hash: string;
+  request: unknown;
+  response: unknown;
+}
+
+export interface FixtureFile {
+  version: 1;
+  recordedAt: string;
+  entries: FixtureEntry[];
+}
+
+export function getProviderMode(): ProviderMode {
+  const requested = process.env.PROVIDER_MODE as ProviderMode | undefined;
+  return requested && PROVIDER_MODES.includes(requested) ? requested : DEFAULT_PROVIDER_MODE;
+}
+
+/** True when no live provider should be contacted (and API keys are optional). */
+export function isOfflineProviderMode(mode: ProviderMode = getProviderMode()): boolean {
+  return mode === 'replay' || mode === 'mock';
+}
+
+// JSON.stringify with sorted keys so equal requests always hash the same
+function stableStringify(value: unknown): string {
+  if (value === undefined) return 'null';
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  const record = value as Record<string, unknown>;
+  const keys = Object.keys(record).filter(key => record[key] !== undefined).sort();
+  return `{${keys.map(key => `${JSON.stringify(key)}:${stableStringify(record[key])}`).join(',')}}`;
+}
+
+// cyrb53 - small, fast, deterministic string hash that works the same in Node and the browser
+function cyrb53(str: string, seed = 0): string {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < str.length; i++) {
+    const ch = str.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+}
+
+export function hashRequest(kind: FixtureKind, request: unknown): string {
+  return cyrb53(`${kind}:${stableStringify(request)}`);
+}
+
+/**
+ * Holds recorded provider responses keyed by request hash.
+ *
+ * Replay only serves entries whose hash matches the request, so a prompt that changed since the
+ * fixture was recorded fails the lookup instead of quietly getting another request's response.
+ * Prompts that embed random elements (the setup prompt's creativity seed, for example) never hash
+ * the same twice; for those runs, turn `strict` off to fall back to the next unused entry of the
+ * same kind in recording order.
+ */
+export class FixtureStore {
+  private entries: FixtureEntry[] = [];
+  private consumed = new Set<FixtureEntry>();
+  strict = true;
+
+  record(kind: FixtureKind, request: unknown, response: unknown): void {
+    const entry: FixtureEntry = { kind, hash: hashRequest(kind, request), request, response };
+    this.entries.push(entry);
+    console.log(`[FixtureStore] Recorded ${kind} fixture ${entry.hash}`);
+  }
+
+  lookup<T = unknown>(kind: FixtureKind, request: unknown): T {
+    const hash = hashRequest(kind, request);
+    const exact = this.entries.find(entry => entry.kind === kind && entry.hash === hash && !this.consumed.has(entry))
+      || this.entries.find(entry => entry.kind === kind && entry.hash === hash);
+    if (exact) {
+      this.consumed.add(exact);
+      return exact.response as T;
+    }
+
+    if (!this.strict) {
+      const next = this.entries.find(entry => entry.kind === kind && !this.consumed.has(entry));
+      if (next) {
+        console.warn(`[FixtureStore] No ${kind} fixture for ${hash}, replaying next recorded entry ${next.hash}`);
+        this.consumed.add(next);
+        return next.response as T;
+      }
+    }
+
+    throw new Error(`[FixtureStore] No ${kind} fixture recorded for request ${hash}`);
+  }
+
+  load(file: FixtureFile): void {
+    if (file.version !== 1) {
+      throw new Error(`[FixtureStore] Unsupported fixture file version: ${file.version}`);
+    }
+    this.entries = [...file.entries];
+    this.consumed.clear();
+    console.log(`[FixtureStore] Loaded ${this.entries.length} fixtures`);
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.consumed.clear();
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  toFixtureFile(): FixtureFile {
+    return {
+      version: 1,
+      recordedAt: new Date().toISOString(),
+      entries: [...this.entries]
+    };
+  }
+
+  /**
+   * Browser helper for record mode: saves the captured fixtures as a JSON file.
+   * In Node, write `toFixtureFile()` with fs instead.
+   */
+  download(filename = 'provider-fixtures.json'): void {
+    const blob = new Blob([JSON.stringify(this.toFixtureFile(), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+}
+
+// Export singleton instance
+export const fixtureStore = new FixtureStore();
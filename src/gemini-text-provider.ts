@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { GoogleGenAI } from '@google/genai';
+import { DEFAULT_GEMINI_TEXT_MODEL } from './ai-config';
+import { TextGenerationProvider, TextGenerationRequest, resolveTemperature, withInlineSchema } from './text-generation-provider';
+
+export class GeminiTextProvider implements TextGenerationProvider {
+  readonly name = 'Gemini';
+  private client: GoogleGenAI;
+  private model: string;
+
+  constructor(apiKey: string, model: string = DEFAULT_GEMINI_TEXT_MODEL) {
+    if (!apiKey) {
+      throw new Error("API key is required to initialize GeminiTextProvider.");
+    }
+    this.client = new GoogleGenAI({ apiKey });
+    this.model = model;
+  }
+
+  async generate(request: TextGenerationRequest): Promise<string> {
+    console.log(`[Gemini] Sending request to ${this.model}`);
+    const response = await this.client.models.generateContent(this.buildParams(request));
+
+    const responseText = response.text;
+    if (!responseText) {
+      throw new Error('No response generated from Gemini');
+    }
+
+    console.log('[Gemini] Generated response:', responseText);
+    return responseText.trim();
+  }
+
+  async *stream(request: TextGenerationRequest): AsyncGenerator<string> {
+    console.log(`[Gemini] Sending streaming request to ${this.model}`);
+    const chunks = await this.client.models.generateContentStream(this.buildParams(request));
+    for await (const chunk of chunks) {
+      const delta = chunk.text;
+      if (delta) yield delta;
+    }
+  }
+
+  private buildParams(request: TextGenerationRequest) {
+    const wantsJson = request.useJsonFormat || (request.useStructuredOutput && !!request.jsonSchema);
+    // Gemini's responseSchema is an OpenAPI subset that rejects keys like additionalProperties,
+    // so the JSON Schema is passed in the system instruction instead.
+    return {
+      model: this.model,
+      contents: request.userMessage,
+      config: {
+        systemInstruction: withInlineSchema(request),
+        temperature: resolveTemperature(request),
+        maxOutputTokens: 2048,
+        ...(wantsJson ? { responseMimeType: 'application/json' } : {})
+      },
+    };
+  }
+}
@@ -2,7 +2,21 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
  */
-import Groq from "groq-sdk";
+import {
+  DEFAULT_GEMINI_TEXT_MODEL,
+  DEFAULT_LOCAL_LLM_BASE_URL,
+  DEFAULT_LOCAL_LLM_MODEL,
+  DEFAULT_TEXT_PROVIDER,
+  TEXT_PROVIDER_IDS,
+  TextProviderId
+} from './ai-config';
+import { TextGenerationOptions, TextGenerationProvider } from './text-generation-provider';
+import { GroqTextProvider, OpenAICompatibleTextProvider } from './openai-compatible-provider';
+import { GeminiTextProvider } from './gemini-text-provider';
+import { fixtureStore, getProviderMode, isOfflineProviderMode } from './fixture-store';
+import { RecordingTextProvider, ReplayTextProvider } from './replay-text-provider';
+import { ScriptedMockTextProvider } from './mock-text-provider';
+import { Schema, StructuredOutputError, ValidationResult, buildRepairPrompt, validateAgainstSchema } from './structured-output';
 
 /**
  * Utility function to clean JSON response from Groq that might be wrapped in markdown code blocks
@@ -29,167 +43,210 @@ export function cleanJsonResponse(response: string): string {
   return jsonStr;
 }
 
-export class GroqService {
-  private apiKey: string;
-  private groq: Groq | null = null;
-
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
-    
-    // In development, use Groq SDK directly
-    if (import.meta.env.DEV) {
-      this.groq = new Groq({ 
-        apiKey, 
-        dangerouslyAllowBrowser: true 
+export interface TextProviderConfig {
+  provider: TextProviderId;
+  groqApiKey?: string;
+  geminiApiKey?: string;
+  localBaseUrl: string;
+  localModel: string;
+  localApiKey?: string;
+}
+
+/**
+ * Reads the text provider selection from the environment (see vite.config.ts).
+ * TEXT_PROVIDER=openai-compatible runs everything against a local model.
+ */
+export function getTextProviderConfig(): TextProviderConfig {
+  const requested = process.env.TEXT_PROVIDER as TextProviderId | undefined;
+  const provider = requested && TEXT_PROVIDER_IDS.includes(requested) ? requested : DEFAULT_TEXT_PROVIDER;
+  if (requested && provider !== requested) {
+    console.warn(`[TextProvider] Unknown TEXT_PROVIDER "${requested}", falling back to ${DEFAULT_TEXT_PROVIDER}`);
+  }
+  return {
+    provider,
+    groqApiKey: process.env.GROQ_API_KEY,
+    geminiApiKey: process.env.GEMINI_API_KEY,
+    localBaseUrl: process.env.LOCAL_LLM_BASE_URL || DEFAULT_LOCAL_LLM_BASE_URL,
+    localModel: process.env.LOCAL_LLM_MODEL || DEFAULT_LOCAL_LLM_MODEL,
+    localApiKey: process.env.LOCAL_LLM_API_KEY
+  };
+}
+
+/**
+ * Returns an error message if the configured provider is missing its credentials, otherwise null.
+ */
+export function getTextProviderConfigError(config: TextProviderConfig = getTextProviderConfig()): string | null {
+  if (isOfflineProviderMode()) {
+    return null;
+  }
+  if (config.provider === 'groq' && !config.groqApiKey && import.meta.env.DEV) {
+    return "GROQ_API_KEY environment variable is required for text generation. Add it to .env.local";
+  }
+  if (config.provider === 'gemini' && !config.geminiApiKey) {
+    return "GEMINI_API_KEY environment variable is required for Gemini text generation. Add it to .env.local";
+  }
+  return null;
+}
+
+export function createTextGenerationProvider(config: TextProviderConfig): TextGenerationProvider {
+  switch (config.provider) {
+    case 'openai-compatible': {
+      const baseUrl = config.localBaseUrl.replace(/\/+$/, '');
+      return new OpenAICompatibleTextProvider({
+        name: 'LocalLLM',
+        endpoint: `${baseUrl}/chat/completions`,
+        apiKey: config.localApiKey,
+        // A single local model usually serves every role
+        models: { fast: config.localModel, creative: config.localModel, structured: config.localModel },
+        supportsJsonSchema: process.env.LOCAL_LLM_JSON_SCHEMA !== 'false'
       });
     }
+    case 'gemini':
+      return new GeminiTextProvider(config.geminiApiKey || '', process.env.GEMINI_TEXT_MODEL || DEFAULT_GEMINI_TEXT_MODEL);
+    case 'groq':
+    default:
+      return new GroqTextProvider(config.groqApiKey || '');
+  }
+}
+
+/**
+ * Creates the provider for the current PROVIDER_MODE: a live provider, a live provider that
+ * records to the fixture store, a replay of recorded fixtures, or the scripted mock.
+ */
+export function createProviderForMode(config: TextProviderConfig): TextGenerationProvider {
+  switch (getProviderMode()) {
+    case 'mock':
+      return new ScriptedMockTextProvider();
+    case 'replay':
+      return new ReplayTextProvider(fixtureStore);
+    case 'record':
+      return new RecordingTextProvider(createTextGenerationProvider(config), fixtureStore);
+    case 'live':
+    default:
+      return createTextGenerationProvider(config);
+  }
+}
+
+/**
+ * Entry point for all text generation in the app. Historically Groq-only; the actual
+ * backend is now whichever TextGenerationProvider is configured.
+ */
+export class GroqService {
+  private provider: TextGenerationProvider;
+
+  constructor(apiKey?: string, provider?: TextGenerationProvider) {
+    if (provider) {
+      this.provider = provider;
+    } else {
+      const config = getTextProviderConfig();
+      this.provider = createProviderForMode({ ...config, groqApiKey: apiKey || config.groqApiKey });
+    }
+  }
+
+  get providerName(): string {
+    return this.provider.name;
   }
 
   async generateResponse(
     systemPrompt: string,
     userMessage: string,
     useJsonFormat = false,
-    options: {
-      useStructuredOutput?: boolean;
-      jsonSchema?: object;
-      useCreativeModel?: boolean;
-      temperature?: number;
-    } = {}
+    options: TextGenerationOptions = {}
   ): Promise<string> {
     try {
-      // Choose model based on structured output support
-      let model: string;
-      if (options.useStructuredOutput && options.jsonSchema) {
-        // Use a model that supports structured outputs
-        model = "meta-llama/llama-4-maverick-17b-128e-instruct";
-      } else {
-        // Use regular models for non-structured generation
-        model = options.useCreativeModel ? "llama-3.3-70b-versatile" : "llama-3.1-8b-instant";
-      }
-      const temperature = options.temperature ?? (options.useCreativeModel ? 1.2 : 0.8);
-
-      // Generate random seed for variety
-      const randomSeed = Math.floor(Math.random() * 1000000);
-      console.log(`[Groq] Sending request to ${model} with temperature ${temperature}, seed ${randomSeed}`);
-
-      if (import.meta.env.DEV && this.groq) {
-        // Development: Use Groq SDK directly
-
-        const requestBody: any = {
-          messages: [
-            {
-              role: "system",
-              content: systemPrompt,
-            },
-            {
-              role: "user",
-              content: userMessage,
-            },
-          ],
-          model,
-          temperature,
-          max_tokens: 2048,
-          seed: randomSeed, // Random seed for variety
-        };
-
-        // Handle different output formats
-        if (options.useStructuredOutput && options.jsonSchema) {
-          // Use Groq's structured outputs with JSON Schema
-          requestBody.response_format = {
-            type: "json_schema",
-            json_schema: {
-              name: "scene_generation",
-              schema: options.jsonSchema,
-              strict: true
-            }
-          };
-        } else if (useJsonFormat) {
-          // Fallback to basic JSON object mode
-          requestBody.response_format = {"type": "json_object"};
-        }
-
-        const completion = await this.groq.chat.completions.create(requestBody);
-
-        const responseText = completion.choices[0]?.message?.content;
-        
-        if (!responseText) {
-          throw new Error('No response generated from Groq');
-        }
-
-        console.log('[Groq] Generated response:', responseText);
-        return responseText.trim();
-      } else {
-        // Production: Use fetch to Vercel API route
-
-        // Choose model based on structured output support (same logic as dev)
-        let model: string;
-        if (options.useStructuredOutput && options.jsonSchema) {
-          // Use a model that supports structured outputs
-          model = "meta-llama/llama-4-maverick-17b-128e-instruct";
-        } else {
-          // Use regular models for non-structured generation
-          model = options.useCreativeModel ? "llama-3.3-70b-versatile" : "llama-3.1-8b-instant";
-        }
-
-        const requestBody: any = {
-          messages: [
-            {
-              role: "system",
-              content: systemPrompt,
-            },
-            {
-              role: "user",
-              content: userMessage,
-            },
-          ],
-          model,
-          temperature,
-          max_tokens: 2048,
-          seed: randomSeed, // Random seed for variety
-        };
-
-        // Handle different output formats (same logic as dev)
-        if (options.useStructuredOutput && options.jsonSchema) {
-          // Use Groq's structured outputs with JSON Schema
-          requestBody.response_format = {
-            type: "json_schema",
-            json_schema: {
-              name: "scene_generation",
-              schema: options.jsonSchema,
-              strict: true
-            }
-          };
-        } else if (useJsonFormat) {
-          // Fallback to basic JSON object mode
-          requestBody.response_format = {"type": "json_object"};
-        }
-
-        const response = await fetch('/api/groq', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(requestBody),
-        });
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          throw new Error(`API request failed: ${response.status} - ${errorText}`);
-        }
-
-        const data = await response.json();
-        const responseText = data.choices[0]?.message?.content;
-        
-        if (!responseText) {
-          throw new Error('No response generated from Groq');
-        }
-
-        console.log('[Groq] Generated response:', responseText);
-        return responseText.trim();
-      }
+      return await this.provider.generate({
+        systemPrompt,
+        userMessage,
+        useJsonFormat,
+        ...options
+      });
     } catch (error) {
-      console.error('Failed to generate response with Groq:', error);
+      console.error(`Failed to generate response with ${this.provider.name}:`, error);
       throw error;
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Generates a JSON payload and validates it against the schema, with one repair re-prompt
+   * on failure. Throws StructuredOutputError if the payload is still malformed.
+   */
+  async generateStructured<T>(
+    systemPrompt: string,
+    userMessage: string,
+    schema: Schema<T>,
+    options: TextGenerationOptions = {}
+  ): Promise<T> {
+    const requestOptions = { ...options, jsonSchema: schema.toJsonSchema() };
+    const response = await this.generateResponse(systemPrompt, userMessage, true, requestOptions);
+    return this.parseStructured(response, systemPrompt, userMessage, schema, requestOptions);
+  }
+
+  /**
+   * Validates an already generated (e.g. streamed) response, re-prompting once with the
+   * validation errors if it does not match the schema.
+   */
+  async parseStructured<T>(
+    response: string,
+    systemPrompt: string,
+    userMessage: string,
+    schema: Schema<T>,
+    options: TextGenerationOptions = {}
+  ): Promise<T> {
+    const firstAttempt = parseAndValidate(response, schema);
+    if (firstAttempt.ok) {
+      return firstAttempt.value;
+    }
+
+    const jsonSchema = options.jsonSchema || schema.toJsonSchema();
+    console.warn(`[${this.provider.name}] ${options.purpose || 'Structured'} response failed validation, asking for a repair:`, firstAttempt.errors);
+    const repaired = await this.generateResponse(
+      systemPrompt,
+      buildRepairPrompt(userMessage, response, firstAttempt.errors, jsonSchema),
+      true,
+      { ...options, jsonSchema }
+    );
+
+    const secondAttempt = parseAndValidate(repaired, schema);
+    if (secondAttempt.ok) {
+      console.log(`[${this.provider.name}] ${options.purpose || 'Structured'} response repaired`);
+      return secondAttempt.value;
+    }
+    throw new StructuredOutputError(
+      `${options.purpose || 'Structured'} response is still invalid after repair: ${secondAttempt.errors.join('; ')}`,
+      secondAttempt.errors,
+      repaired
+    );
+  }
+
+  /**
+   * Streams the response as text deltas, for callers that render or speak text as it arrives.
+   */
+  async *streamResponse(
+    systemPrompt: string,
+    userMessage: string,
+    useJsonFormat = false,
+    options: TextGenerationOptions = {}
+  ): AsyncGenerator<string> {
+    try {
+      yield* this.provider.stream({
+        systemPrompt,
+        userMessage,
+        useJsonFormat,
+        ...options
+      });
+    } catch (error) {
+      console.error(`Failed to stream response with ${this.provider.name}:`, error);
+      throw error;
+    }
+  }
+}
+
+function parseAndValidate<T>(response: string, schema: Schema<T>): ValidationResult<T> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(cleanJsonResponse(response));
+  } catch (error) {
+    return { ok: false, errors: [`Response is not valid JSON (${(error as Error).message})`] };
+  }
+  return validateAgainstSchema(schema, parsed);
+}
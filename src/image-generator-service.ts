@@ -4,6 +4,7 @@
  */
 import { GoogleGenAI, Modality } from '@google/genai';
 import { DEFAULT_IMAGE_MODEL, FALLBACK_IMAGE_GENERATION_MODEL } from './ai-config';
+import { fixtureStore, getProviderMode, isOfflineProviderMode } from './fixture-store';
 
 export interface ImageConfig {
     numberOfImages?: number;
@@ -12,16 +13,38 @@ export interface ImageConfig {
 }
 
 export class ImageGeneratorService {
-  private client: GoogleGenAI;
+  private client: GoogleGenAI | null;
 
   constructor(apiKey: string) {
-     if (!apiKey) {
+     if (!apiKey && !isOfflineProviderMode()) {
       throw new Error("API key is required to initialize ImageGeneratorService.");
     }
-    this.client = new GoogleGenAI({ apiKey });
+    this.client = apiKey ? new GoogleGenAI({ apiKey }) : null;
   }
 
   async generate(model: string, prompt: string, config: ImageConfig): Promise<any> {
+    const mode = getProviderMode();
+    const fixtureRequest = { model, prompt, config };
+
+    if (mode === 'mock') {
+      // No image parts: callers treat this the same as a failed generation
+      return { candidates: [] };
+    }
+    if (mode === 'replay') {
+      return fixtureStore.lookup('image', fixtureRequest);
+    }
+
+    const response = await this.generateLive(model, prompt, config);
+    if (mode === 'record') {
+      fixtureStore.record('image', fixtureRequest, { candidates: response.candidates });
+    }
+    return response;
+  }
+
+  private async generateLive(model: string, prompt: string, config: ImageConfig): Promise<any> {
+    if (!this.client) {
+      throw new Error("ImageGeneratorService has no API key configured.");
+    }
     try {
       const response = await this.client.models.generateContent({
         model: model,
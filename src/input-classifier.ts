@@ -2,13 +2,31 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
  */
-import { GroqService, cleanJsonResponse } from './groq-service';
+import { GroqService } from './groq-service';
+import { Infer, s } from './structured-output';
+import { isNameMentioned } from './npcs';
 
-export interface InputClassification {
-  type: 'navigation' | 'dialogue' | 'examination';
-  confidence: number;
-  intent: string;
-  shouldGenerateScene: boolean;
+const INPUT_CLASSIFICATION_SCHEMA = s.object({
+  type: s.enum(['navigation', 'dialogue', 'examination']),
+  confidence: s.optional(s.number({ min: 0, max: 1 })),
+  intent: s.optional(s.string()),
+  shouldGenerateScene: s.optional(s.boolean())
+});
+
+export type InputClassification = Required<Infer<typeof INPUT_CLASSIFICATION_SCHEMA>>;
+
+const SPEECH_PATTERN = /\b(hello|hey|hi|greetings|thanks|thank you|say|ask|tell|talk|speak|you|your)\b/;
+
+/**
+ * Whether the input reads as something said to a character rather than an action: a question,
+ * a quote, a greeting or speech verb, words addressed to someone, or the listener's name.
+ */
+export function looksLikeSpeech(input: string, listenerName?: string): boolean {
+  const text = input.toLowerCase().trim();
+  if (text.endsWith('?') || /^["']/.test(text) || SPEECH_PATTERN.test(text)) {
+    return true;
+  }
+  return !!listenerName && isNameMentioned(text, listenerName);
 }
 
 export class InputClassifier {
@@ -19,8 +37,8 @@ export class InputClassifier {
   }
 
   async classifyInput(userInput: string, hasCompanion: boolean = false): Promise<InputClassification> {
-    // If companion is present, default to dialogue unless clearly navigation
-    if (hasCompanion && !this.isObviousNavigation(userInput)) {
+    // The companion travels with the player, so only input addressed to someone is dialogue
+    if (hasCompanion && looksLikeSpeech(userInput) && !this.isObviousNavigation(userInput)) {
       return {
         type: 'dialogue',
         confidence: 0.8,
@@ -48,13 +66,12 @@ Respond with JSON:
 
 Navigation and some examinations should generate new scenes.`;
 
-      const response = await this.groqService.generateResponse(
+      const result = await this.groqService.generateStructured(
         "You are a precise input classifier. Always respond with valid JSON only.",
         prompt,
-        true
+        INPUT_CLASSIFICATION_SCHEMA,
+        { purpose: 'classification' }
       );
-
-      const result = JSON.parse(cleanJsonResponse(response));
       return {
         type: result.type,
         confidence: result.confidence || 0.7,
@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { worldKey } from './world-model';
+
+export interface InventoryItem {
+  id: string;
+  name: string;
+  description: string;
+  tags: string[];
+  iconUrl?: string; // Generated in the background after the item is taken
+  acquiredAt: number; // Message id of the narration in which the item was taken
+}
+
+export interface NewInventoryItem {
+  name: string;
+  description: string;
+  tags: string[];
+}
+
+export const MAX_INVENTORY_ITEMS = 20;
+
+/**
+ * Finds a carried item by name. Exact (case-insensitive) matches win; otherwise a partial
+ * match either way round, so "the rusty key" finds "Rusty Key".
+ */
+export function findInventoryItem(inventory: InventoryItem[], name: string): InventoryItem | undefined {
+  const key = worldKey(name);
+  if (!key) return undefined;
+  return inventory.find(item => worldKey(item.name) === key)
+    || inventory.find(item => key.includes(worldKey(item.name)) || worldKey(item.name).includes(key));
+}
+
+/**
+ * Returns the inventory with the item added. Items are unique by name; taking something
+ * already carried leaves the inventory unchanged.
+ */
+export function addInventoryItem(inventory: InventoryItem[], item: NewInventoryItem, messageId: number): InventoryItem[] {
+  if (inventory.some(existing => worldKey(existing.name) === worldKey(item.name))) {
+    return inventory;
+  }
+  if (inventory.length >= MAX_INVENTORY_ITEMS) {
+    console.warn(`[Inventory] Inventory full, cannot add "${item.name}"`);
+    return inventory;
+  }
+  return [...inventory, {
+    id: `${worldKey(item.name).replace(/\s+/g, '-')}-${messageId}`,
+    name: item.name.trim(),
+    description: item.description.trim(),
+    tags: item.tags.map(tag => tag.trim().toLowerCase()).filter(Boolean),
+    acquiredAt: messageId
+  }];
+}
+
+export function removeInventoryItem(inventory: InventoryItem[], id: string): InventoryItem[] {
+  return inventory.filter(item => item.id !== id);
+}
+
+export function describeInventoryForPrompt(inventory: InventoryItem[]): string {
+  if (inventory.length === 0) {
+    return 'The player is carrying nothing.';
+  }
+  return inventory
+    .map(item => `- ${item.name}: ${item.description}${item.tags.length ? ` [${item.tags.join(', ')}]` : ''}`)
+    .join('\n');
+}
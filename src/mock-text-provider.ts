@@ -0,0 +1,180 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { VOICE_OPTIONS } from './ai-data';
+import { TextGenerationProvider, TextGenerationRequest, TextRequestPurpose } from './text-generation-provider';
+import { splitIntoDeltas } from './replay-text-provider';
+
+type MockPayload = string | object;
+
+const DEFAULT_NARRATOR_VOICE = VOICE_OPTIONS[0].name;
+
+// Canned, schema-valid payloads for each request purpose
+const DEFAULT_PAYLOADS: Record<TextRequestPurpose, MockPayload> = {
+  story_decision: {
+    responseType: 'exploration',
+    reasoning: 'Mock decision: player is exploring',
+    shouldGenerateImage: true,
+    narratorVoice: DEFAULT_NARRATOR_VOICE,
+    imagePrompt: 'A dim stone corridor lit by flickering torches'
+  },
+  exploration: {
+    narrationText: 'You step forward into a dim stone corridor. Torches flicker along the walls, and somewhere ahead water drips steadily.',
+    imagePrompt: 'A dim stone corridor lit by flickering torches, water pooling on the floor',
+    worldPatch: {
+      currentLocation: 'Torchlit Corridor',
+      locations: [{
+        name: 'Torchlit Corridor',
+        description: 'A stone corridor with dripping water and freshly lit torches.',
+        exits: [{ direction: 'back up the stair', leadsTo: 'Collapsed Archway' }, { direction: 'ahead', leadsTo: 'Flooded Crypt' }]
+      }],
+      facts: ['Someone lit the torches recently'],
+      openedThreads: ['Who lit the torches?']
+    }
+  },
+  companion_introduction: {
+    narrationText: 'A figure steps out from behind a pillar, lantern raised, studying you with open curiosity.',
+    imagePrompt: 'A cloaked figure holding a lantern beside a stone pillar',
+    companionFirstWords: 'You made it this far. Not many do.'
+  },
+  adventure_setup: {
+    character: {
+      characterType: 'Lantern Spirit',
+      role: 'Keeper of the Lower Halls',
+      mood: 'Curious',
+      style: 'Speaks plainly with dry humour',
+      voiceName: DEFAULT_NARRATOR_VOICE,
+      characterName: 'Wick',
+      characterDescription: 'A small spirit bound to an old lantern, tasked with guiding lost travellers.',
+      detailedVisualDescription: 'A glowing wisp of blue flame inside a battered brass lantern.',
+      coreTrait: 'Curious',
+      mainWant: 'To be freed from the lantern',
+      keyFlaw: 'Afraid of the dark beyond the lantern light',
+      voicePromptInstruction: 'Speak plainly, warmly, with a touch of dry humour.',
+      gender: 'neutral',
+      age: 'young',
+      accent: '',
+      stats: { might: -1, agility: 2, wits: 2, presence: 1 }
+    },
+    scene: {
+      imagePrompt: 'A collapsed archway opening into torchlit catacombs',
+      narrationText: 'The archway collapsed behind you an hour ago. Now the only way out is down, into catacombs that were sealed for a reason.',
+      narratorVoiceName: DEFAULT_NARRATOR_VOICE,
+      worldSetting: 'Catacombs beneath an abandoned city, sealed since a plague a century ago.',
+      locationName: 'Collapsed Archway',
+      locationDescription: 'A rubble-choked archway at the top of a stair leading down into the catacombs.'
+    },
+    quest: {
+      mainQuest: {
+        title: 'Break the Lantern Binding',
+        description: 'Find the binding rite in the catacombs and use it to free Wick from the lantern.'
+      },
+      optionalObjectives: [
+        { title: 'Find Another Way Out', description: 'Discover an exit that does not lead back through the collapsed archway.' },
+        { title: 'Learn Why the Catacombs Were Sealed', description: 'Uncover what happened here during the plague.' }
+      ]
+    }
+  },
+  companion_dialogue: "I'm right here with you. Let's keep moving.",
+  classification: {
+    type: 'navigation',
+    confidence: 0.9,
+    intent: 'Move to new location',
+    shouldGenerateScene: true
+  },
+  memory_summary: {
+    summary: 'The player and I found our way into the catacombs and followed the torchlit corridor deeper.',
+    facts: [{ text: 'The player promised to help free me from the lantern', category: 'promise' }]
+  },
+  memory_condense: 'The player and I have been exploring the catacombs together, searching for a way out.',
+  relationship_appraisal: {
+    delta: 3,
+    sentiment: 'positive',
+    reason: 'They stayed close and listened when I spoke.'
+  },
+  mood_evaluation: {
+    changed: false,
+    mood: 'wary',
+    style: 'hushed',
+    reason: 'Nothing has changed since the catacombs swallowed the light.'
+  },
+  epilogue: {
+    endingType: 'bittersweet',
+    title: 'The Lantern Unbound',
+    narrationText: 'You chose the harder stair, and the oath you swore to the drowned chapel held when it mattered. The last words of the rite echo through the crypt, and the lantern glass cracks. Wick drifts free, brighter than you have ever seen, and for the first time the catacombs feel like a place you could leave.',
+    partingWords: 'You kept your promise, even when the dark made it heavy. I will remember the light you carried down here.',
+    imagePrompt: 'A blue flame rising free from a cracked brass lantern in a vaulted crypt, dawn light spilling down a stair'
+  },
+  combat_narration: {
+    narrationText: 'Bone scrapes on stone as the skeleton lunges, and you twist aside just in time. Wick flares beside you, throwing blue light into its empty sockets.'
+  },
+  npc_persona: {
+    characterType: 'Gravedigger',
+    role: 'Tends the catacomb dead for coin',
+    characterDescription: 'A stooped old gravedigger with a shovel worn smooth from decades of use.',
+    coreTrait: 'Suspicious',
+    mainWant: 'To be paid for his silence',
+    keyFlaw: 'Greedy',
+    voicePromptInstruction: 'Gravelly and slow, with long pauses.',
+    mood: 'wary',
+    style: 'grumbling',
+    gender: 'male',
+    age: 'old',
+    accent: 'british',
+    firstWords: 'Living folk, down here? That is a first this year.'
+  },
+  npc_dialogue: 'Ask all you like. Answers cost extra down here.',
+  companion_remark: {
+    speak: true,
+    intent: 'warning',
+    text: 'Mind the floor here. Those scratch marks are fresh.'
+  }
+};
+
+/**
+ * Per-purpose queues of payloads the mock provider returns before falling back to its defaults.
+ */
+export class MockTextScript {
+  private queues = new Map<TextRequestPurpose, MockPayload[]>();
+
+  enqueue(purpose: TextRequestPurpose, ...payloads: MockPayload[]): void {
+    const queue = this.queues.get(purpose) || [];
+    queue.push(...payloads);
+    this.queues.set(purpose, queue);
+  }
+
+  next(purpose: TextRequestPurpose): MockPayload | undefined {
+    return this.queues.get(purpose)?.shift();
+  }
+
+  reset(): void {
+    this.queues.clear();
+  }
+}
+
+// Export singleton instance
+export const mockTextScript = new MockTextScript();
+
+/**
+ * Deterministic provider for offline runs. Answers by request purpose using the script,
+ * then the canned defaults.
+ */
+export class ScriptedMockTextProvider implements TextGenerationProvider {
+  readonly name = 'Mock';
+
+  constructor(private script: MockTextScript = mockTextScript) {}
+
+  async generate(request: TextGenerationRequest): Promise<string> {
+    if (!request.purpose) {
+      throw new Error('[Mock] Text request has no purpose; cannot choose a mock payload');
+    }
+    const payload = this.script.next(request.purpose) ?? DEFAULT_PAYLOADS[request.purpose];
+    console.log(`[Mock] Returning ${request.purpose} payload`);
+    return typeof payload === 'string' ? payload : JSON.stringify(payload);
+  }
+
+  async *stream(request: TextGenerationRequest): AsyncGenerator<string> {
+    yield* splitIntoDeltas(await this.generate(request));
+  }
+}
@@ -2,20 +2,27 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
  */
-import { ElevenLabsTTSService } from './elevenlabs-tts-service';
 import { voiceSelectionService } from './voice-selection-service';
-import { audioEventBus } from './audio-event-bus';
+import { StreamingSpeech } from './streaming-text';
+import { SpeechVoice, speechSynthesisService } from './speech-synthesis-provider';
+import { PlaybackLineOptions } from './audio-playback-queue';
 
-export class NarrationService {
-  private ttsService: ElevenLabsTTSService;
+// Who narration lines are spoken and remembered as
+export const NARRATOR_SPEAKER = 'Narrator';
+
+// The story comes first: narration plays ahead of anything else still waiting in the queue
+const NARRATION_PLAYBACK: PlaybackLineOptions = { source: 'narration', priority: 'high', label: NARRATOR_SPEAKER };
 
+export class NarrationService {
   constructor(geminiApiKey: string) {
-    // Use ElevenLabs API key from environment (defined in vite.config.ts)
-    const elevenLabsApiKey = process.env.ELEVENLABS_API_KEY;
-    if (!elevenLabsApiKey) {
-      throw new Error("ELEVENLABS_API_KEY environment variable is required for narration. Add it to .env.local");
-    }
-    this.ttsService = new ElevenLabsTTSService(elevenLabsApiKey);
+    // Speech goes through speechSynthesisService, which falls back between providers
+  }
+
+  // The genre's narrator voice when a genre is known, otherwise the Story Weaver's voice name
+  private narratorVoice(voiceName: string, genre?: string): SpeechVoice {
+    return genre
+      ? { voiceName, voiceId: voiceSelectionService.selectNarratorVoice(genre, 'opening') }
+      : { voiceName };
   }
 
   async playNarration(text: string, voiceName: string, genre?: string): Promise<void> {
@@ -26,29 +33,30 @@ export class NarrationService {
       console.warn("[NarrationService] No narration text provided. Skipping narration.");
       return;
     }
-
-    // Signal that narration TTS is starting
-    audioEventBus.startTTS('narration');
+    if (speechSynthesisService.isTextOnly) {
+      return;
+    }
 
     try {
-      // Use voice selection service to pick appropriate narrator voice if genre provided
-      if (genre) {
-        const selectedNarratorVoiceId = voiceSelectionService.selectNarratorVoice(genre, 'opening');
-        console.log("[NarrationService] Using selected narrator voice ID:", selectedNarratorVoiceId);
-        await this.ttsService.speakTextWithVoiceId(text, selectedNarratorVoiceId);
-      } else {
-        // Fallback to original voice name system
-        console.log("[NarrationService] Using fallback voice name:", voiceName);
-        await this.ttsService.speakText(text, voiceName);
-      }
+      const voice = this.narratorVoice(voiceName, genre);
+      console.log("[NarrationService] Using narrator voice:", voice);
+      await speechSynthesisService.speak(text, voice, NARRATION_PLAYBACK);
       const duration = performance.now() - startTime;
       console.log(`[NarrationService] ⏱️ TTS narration completed in ${duration.toFixed(2)}ms`);
     } catch (error) {
       console.error("[NarrationService] TTS narration failed:", error);
       // Don't throw - just log and continue
-    } finally {
-      // Signal that narration TTS has ended
-      audioEventBus.endTTS();
     }
   }
+
+  /**
+   * Narration for text that is still streaming in. Sentences are spoken as soon as they
+   * complete, as one line in the playback queue.
+   */
+  createStreamingNarration(voiceName: string, genre?: string): StreamingSpeech {
+    const voice = this.narratorVoice(voiceName, genre);
+    console.log("[NarrationService] Starting streaming narration with", voice);
+
+    return speechSynthesisService.createSentencePipeline(voice, NARRATION_PLAYBACK);
+  }
 }
\ No newline at end of file
@@ -0,0 +1,234 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { GroqService } from './groq-service';
+import { Infer, s } from './structured-output';
+import { ConversationConfig } from './conversation-service';
+import { CharacterTraits } from './voice-selection-service';
+import { worldKey } from './world-model';
+
+// Messages kept per NPC; older ones drop off, since NPCs have no long-term memory
+export const MAX_NPC_HISTORY = 12;
+
+const NPC_PERSONA_SCHEMA = s.object({
+  characterType: s.string(),
+  role: s.string(),
+  characterDescription: s.string({ minLength: 1 }),
+  coreTrait: s.string(),
+  mainWant: s.string(),
+  keyFlaw: s.string(),
+  voicePromptInstruction: s.string(),
+  mood: s.string(),
+  style: s.string(),
+  gender: s.enum(['male', 'female', 'neutral']),
+  age: s.enum(['young', 'middle_aged', 'old']),
+  accent: s.string(),
+  firstWords: s.string({ minLength: 1 })
+});
+
+export type NpcPersonaResponse = Infer<typeof NPC_PERSONA_SCHEMA>;
+export type NpcPersona = Omit<NpcPersonaResponse, 'firstWords'>;
+
+export interface NpcHistoryMessage {
+  sender: 'user' | 'companion'; // 'companion' is the NPC's own side of the conversation
+  text: string;
+}
+
+/**
+ * A character other than the companion that the player can talk to. Each one has its own
+ * persona, voice and conversation history, and stays where it was met.
+ */
+export interface SecondaryNpc {
+  id: string;
+  name: string;
+  persona: NpcPersona;
+  voiceId: string; // ElevenLabs voice picked by voiceSelectionService
+  voiceName: string; // Fallback voice when no voice id is available
+  location: string; // World location the NPC was met in
+  history: NpcHistoryMessage[];
+  introducedAt: number; // Message id of the narration that introduced the NPC
+}
+
+export interface NpcContext {
+  genre: string;
+  setting: string;
+  location: string;
+}
+
+export function createNpc(name: string, persona: NpcPersona, voice: { voiceId: string; voiceName: string }, location: string, messageId: number): SecondaryNpc {
+  return {
+    id: `npc-${worldKey(name).replace(/\s+/g, '-')}-${messageId}`,
+    name: name.trim(),
+    persona,
+    voiceId: voice.voiceId,
+    voiceName: voice.voiceName,
+    location,
+    history: [],
+    introducedAt: messageId
+  };
+}
+
+export function npcsAt(npcs: SecondaryNpc[], location: string): SecondaryNpc[] {
+  return npcs.filter(npc => worldKey(npc.location) === worldKey(location));
+}
+
+/**
+ * Finds an NPC by name, exact first, then a partial match either way round, so "Bram"
+ * finds "Bram the Smith".
+ */
+export function findNpcByName(npcs: SecondaryNpc[], name: string): SecondaryNpc | undefined {
+  const key = worldKey(name);
+  if (!key) return undefined;
+  return npcs.find(npc => worldKey(npc.name) === key)
+    || npcs.find(npc => key.includes(worldKey(npc.name)) || worldKey(npc.name).includes(key));
+}
+
+// Words in names like "Bram the Smith" that say nothing about who is meant
+const NAME_FILLER_WORDS = ['the', 'of', 'and', 'von', 'van', 'del', 'de', 'la', 'le'];
+
+// Position of the first word of the name in the input, or -1
+function mentionIndex(input: string, name: string): number {
+  const words = worldKey(name).split(/\s+/).filter(word => word.length > 2 && !NAME_FILLER_WORDS.includes(word));
+  const positions = words
+    .map(word => input.search(new RegExp(`\\b${word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`)))
+    .filter(index => index >= 0);
+  return positions.length ? Math.min(...positions) : -1;
+}
+
+export function isNameMentioned(input: string, name: string): boolean {
+  return mentionIndex(worldKey(input), name) >= 0;
+}
+
+/**
+ * The NPC the player is talking to by name, if any. When the companion is named earlier in
+ * the input the player is addressing the companion, so no NPC is returned.
+ */
+export function findAddressedNpc(input: string, npcs: SecondaryNpc[], companionName?: string): SecondaryNpc | undefined {
+  const text = worldKey(input);
+  const mentioned = npcs
+    .map(npc => ({ npc, index: mentionIndex(text, npc.name) }))
+    .filter(entry => entry.index >= 0)
+    .sort((a, b) => a.index - b.index)[0];
+  if (!mentioned) return undefined;
+
+  const companionIndex = companionName ? mentionIndex(text, companionName) : -1;
+  return companionIndex >= 0 && companionIndex < mentioned.index ? undefined : mentioned.npc;
+}
+
+export function recordNpcExchange(npc: SecondaryNpc, userInput: string, reply: string): SecondaryNpc {
+  const history: NpcHistoryMessage[] = [...npc.history];
+  if (userInput) history.push({ sender: 'user', text: userInput });
+  history.push({ sender: 'companion', text: reply });
+  return { ...npc, history: history.slice(-MAX_NPC_HISTORY) };
+}
+
+export function buildNpcConversationConfig(npc: SecondaryNpc, genre: string, inventoryContext?: string, playerContext?: string): ConversationConfig {
+  return {
+    characterName: npc.name,
+    characterDescription: npc.persona.characterDescription,
+    voiceName: npc.voiceName,
+    voiceId: npc.voiceId,
+    genre,
+    coreTrait: npc.persona.coreTrait,
+    mainWant: npc.persona.mainWant,
+    keyFlaw: npc.persona.keyFlaw,
+    voicePromptInstruction: npc.persona.voicePromptInstruction,
+    currentMood: npc.persona.mood,
+    currentStyle: npc.persona.style,
+    inventoryContext,
+    playerContext,
+    npcHistory: npc.history
+  };
+}
+
+export function npcVoiceTraits(persona: NpcPersona): CharacterTraits {
+  return {
+    characterType: persona.characterType,
+    role: persona.role,
+    mood: persona.mood,
+    style: persona.style,
+    coreTrait: persona.coreTrait,
+    mainWant: persona.mainWant,
+    keyFlaw: persona.keyFlaw,
+    gender: persona.gender,
+    age: persona.age,
+    accent: persona.accent
+  };
+}
+
+export function describeNpcsForPrompt(npcs: SecondaryNpc[], currentLocation: string): string {
+  const present = npcsAt(npcs, currentLocation);
+  if (present.length === 0) {
+    return 'No other characters are here.';
+  }
+  return present
+    .map(npc => `- ${npc.name} (${npc.persona.role || npc.persona.characterType}): ${npc.persona.characterDescription}`)
+    .join('\n');
+}
+
+export class NpcPersonaService {
+  private groqService: GroqService;
+
+  constructor(groqApiKey?: string) {
+    this.groqService = new GroqService(groqApiKey);
+  }
+
+  /**
+   * Fleshes out an NPC the Story Weaver has just introduced into a full persona, in the same
+   * terms as the companion's so the same conversation and voice code can play them.
+   */
+  async generatePersona(name: string, brief: string, context: NpcContext): Promise<NpcPersonaResponse> {
+    const prompt = `A new character has just appeared in a ${context.genre} adventure.
+
+Name: ${name}
+First impression: ${brief}
+World: ${context.setting || 'unknown'}
+Location: ${context.location || 'unknown'}
+
+Create their persona. They are a side character with their own agenda, not the player's companion.
+
+Respond with JSON:
+{
+  "characterType": "What they are, e.g. Innkeeper, Smuggler, Ghost",
+  "role": "Their place in this world",
+  "characterDescription": "One sentence",
+  "coreTrait": "...",
+  "mainWant": "...",
+  "keyFlaw": "...",
+  "voicePromptInstruction": "How they speak, for a voice actor",
+  "mood": "One or two words",
+  "style": "Speaking style, a few words",
+  "gender": "male|female|neutral",
+  "age": "young|middle_aged|old",
+  "accent": "american, british, australian, swedish, or empty for no preference",
+  "firstWords": "What they say to the player first, in character"
+}`;
+
+    try {
+      return await this.groqService.generateStructured(
+        'You create memorable side characters for interactive stories. Always respond with valid JSON only.',
+        prompt,
+        NPC_PERSONA_SCHEMA,
+        { purpose: 'npc_persona', useCreativeModel: true, temperature: 0.9 }
+      );
+    } catch (error) {
+      console.error(`[NPCs] Failed to generate persona for ${name}, using a plain one:`, error);
+      return {
+        characterType: 'Stranger',
+        role: 'A local',
+        characterDescription: brief || `A stranger named ${name}.`,
+        coreTrait: 'Guarded',
+        mainWant: 'To get through the day unharmed',
+        keyFlaw: 'Distrustful of strangers',
+        voicePromptInstruction: 'Speak plainly and briefly.',
+        mood: 'wary',
+        style: 'terse',
+        gender: 'neutral',
+        age: 'middle_aged',
+        accent: '',
+        firstWords: 'What do you want?'
+      };
+    }
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { GROQ_API_BASE_URL, GROQ_PROXY_URL, GROQ_TEXT_MODELS, TextModelSet } from './ai-config';
+import { TextGenerationProvider, TextGenerationRequest, buildChatCompletionBody, withInlineSchema } from './text-generation-provider';
+
+export interface OpenAICompatibleConfig {
+  name?: string;
+  /** Full chat completions URL, e.g. http://localhost:11434/v1/chat/completions */
+  endpoint: string;
+  apiKey?: string;
+  models: TextModelSet;
+  /** Whether the server honours response_format.type = "json_schema" */
+  supportsJsonSchema?: boolean;
+}
+
+/**
+ * Talks to any server that implements the OpenAI chat completions API
+ * (Ollama, llama.cpp server, LM Studio, Groq).
+ */
+export class OpenAICompatibleTextProvider implements TextGenerationProvider {
+  readonly name: string;
+  protected config: OpenAICompatibleConfig;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.config = config;
+    this.name = config.name || 'openai-compatible';
+  }
+
+  async generate(request: TextGenerationRequest): Promise<string> {
+    const response = await this.post(request, false);
+    const data = await response.json();
+    const responseText = data.choices?.[0]?.message?.content;
+
+    if (!responseText) {
+      throw new Error(`No response generated from ${this.name}`);
+    }
+
+    console.log(`[${this.name}] Generated response:`, responseText);
+    return responseText.trim();
+  }
+
+  async *stream(request: TextGenerationRequest): AsyncGenerator<string> {
+    const response = await this.post(request, true);
+    if (!response.body) {
+      throw new Error(`No response stream from ${this.name}`);
+    }
+    yield* parseChatCompletionStream(response.body);
+  }
+
+  private async post(request: TextGenerationRequest, stream: boolean): Promise<Response> {
+    const supportsJsonSchema = this.config.supportsJsonSchema ?? true;
+    const body = buildChatCompletionBody(
+      supportsJsonSchema ? request : { ...request, systemPrompt: withInlineSchema(request) },
+      this.config.models,
+      supportsJsonSchema
+    );
+    if (stream) {
+      body.stream = true;
+    }
+    console.log(`[${this.name}] Sending ${stream ? 'streaming ' : ''}request to ${body.model} with temperature ${body.temperature}, seed ${body.seed}`);
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+
+    const response = await fetch(this.config.endpoint, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`API request failed: ${response.status} - ${errorText}`);
+    }
+    return response;
+  }
+}
+
+/**
+ * Parses an OpenAI-style SSE stream ("data: {...}" lines, terminated by "data: [DONE]")
+ * into content deltas.
+ */
+export async function* parseChatCompletionStream(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) continue;
+        const payload = trimmed.slice(5).trim();
+        if (payload === '[DONE]') return;
+
+        try {
+          const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+          if (delta) yield delta;
+        } catch (parseError) {
+          console.warn('[SSE] Skipping malformed stream chunk:', payload.substring(0, 100));
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Groq: calls the API directly in development and goes through the Vercel proxy
+ * (api/groq.ts) in production so the key never ships to the browser.
+ */
+export class GroqTextProvider extends OpenAICompatibleTextProvider {
+  constructor(apiKey: string, models: TextModelSet = GROQ_TEXT_MODELS) {
+    const useDirectApi = import.meta.env.DEV;
+    super({
+      name: 'Groq',
+      endpoint: useDirectApi ? `${GROQ_API_BASE_URL}/chat/completions` : GROQ_PROXY_URL,
+      apiKey: useDirectApi ? apiKey : undefined,
+      models,
+      supportsJsonSchema: true
+    });
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { StoryArc, StoryArcStage } from './story-arc';
+
+/**
+ * A story beat the pacing director plans for. Threats, twists and revelations escalate; quiet
+ * moments let the story breathe.
+ */
+export type PacingBeat = 'threat' | 'twist' | 'revelation' | 'quiet_moment' | 'companion_arrival';
+
+export const PACING_BEATS: PacingBeat[] = ['threat', 'twist', 'revelation', 'quiet_moment', 'companion_arrival'];
+
+export const PACING_BEAT_LABELS: Record<PacingBeat, string> = {
+  threat: 'Threat',
+  twist: 'Twist',
+  revelation: 'Revelation',
+  quiet_moment: 'Quiet moment',
+  companion_arrival: 'Companion arrives'
+};
+
+const BEAT_GUIDANCE: Record<PacingBeat, string> = {
+  threat: 'Escalate with a threat: a danger closes in, an enemy shows its hand, or something the player cares about is put at risk.',
+  twist: 'Deliver a twist: something the player believed turns out to be wrong, or a plan goes sideways.',
+  revelation: 'Reveal something: a clue, a secret or a piece of the past that points toward the main quest.',
+  quiet_moment: 'Give the story a quiet moment: a safe place, a breather, time to take stock.',
+  companion_arrival: 'Bring the companion into the story (responseType companion_introduction).'
+};
+
+// Tension the story should sit in during each arc stage
+const TENSION_RANGES: Record<StoryArcStage, [number, number]> = {
+  setup: [15, 40],
+  rising_action: [35, 70],
+  climax: [70, 100],
+  resolution: [0, 25]
+};
+
+// How much each beat moves tension when it lands
+const BEAT_TENSION: Record<PacingBeat, number> = {
+  threat: 20,
+  twist: 15,
+  revelation: 8,
+  quiet_moment: -20,
+  companion_arrival: 0
+};
+
+// How the kind of turn moves tension, whether or not a beat landed
+const RESPONSE_TENSION: Record<string, number> = {
+  combat: 15,
+  npc_introduction: 4,
+  exploration: 3,
+  examination: 1,
+  dialogue_attempt: -2,
+  npc_dialogue: -2,
+  companion_dialogue: -4,
+  // A finished fight: winning releases the tension, losing piles more on
+  combat_victory: -12,
+  combat_fled: -6,
+  combat_defeat: 8
+};
+
+// Beats each stage plans for, in order
+const STAGE_BEATS: Record<StoryArcStage, PacingBeat[]> = {
+  setup: ['revelation'],
+  rising_action: ['threat', 'revelation', 'quiet_moment', 'twist', 'threat'],
+  climax: ['threat', 'revelation'],
+  resolution: ['quiet_moment']
+};
+
+const MIN_BEAT_SPACING = 2;
+const MAX_BEAT_SPACING = 4;
+// The companion arrives within this many turns, as before the director existed
+const MAX_COMPANION_ARRIVAL_TURN = 5;
+// Turns a beat may run late before the director insists on it
+const OVERDUE_GRACE_TURNS = 2;
+// The director insists at most once in this many turns; otherwise the Story Weaver decides
+export const MIN_TURNS_BETWEEN_OVERRIDES = 4;
+// Share of the distance to the middle of the stage's range that tension drifts back each turn
+const TENSION_DRIFT = 0.15;
+// How far outside the stage's range tension may stray before the director reacts unplanned
+const TENSION_SLACK = 10;
+
+export interface PlannedBeat {
+  beat: PacingBeat;
+  dueTurn: number; // Story arc turn the beat should land on
+}
+
+/**
+ * The pacing director's view of the story, kept with the turn bookkeeping in saves.
+ */
+export interface PacingState {
+  tension: number; // 0-100
+  stage: StoryArcStage; // Arc stage the plan was made for
+  plan: PlannedBeat[]; // Beats still to come, soonest first
+  turnsSinceOverride: number;
+  lastOverride?: PacingBeat; // What the director last insisted on
+}
+
+/**
+ * What the director asks of the Story Weaver for the coming turn.
+ */
+export interface PacingDirective {
+  tension: number;
+  targetRange: [number, number];
+  beat?: PacingBeat;
+  isRequired: boolean; // The director insists, using up its override allowance
+}
+
+const randomInt = (min: number, max: number, random: () => number): number =>
+  min + Math.floor(random() * (max - min + 1));
+
+function planBeats(stage: StoryArcStage, fromTurn: number, needsCompanion: boolean, random: () => number): PlannedBeat[] {
+  const plan: PlannedBeat[] = [];
+  let turn = fromTurn;
+  if (needsCompanion) {
+    turn += randomInt(1, stage === 'setup' ? MAX_COMPANION_ARRIVAL_TURN : 1, random);
+    plan.push({ beat: 'companion_arrival', dueTurn: turn });
+  }
+  STAGE_BEATS[stage].forEach(beat => {
+    turn += randomInt(MIN_BEAT_SPACING, MAX_BEAT_SPACING, random);
+    plan.push({ beat, dueTurn: turn });
+  });
+  return plan;
+}
+
+export function createPacingState(arc: StoryArc, isCompanionPresent: boolean, random: () => number = Math.random): PacingState {
+  return {
+    tension: TENSION_RANGES[arc.stage][0],
+    stage: arc.stage,
+    plan: planBeats(arc.stage, arc.turn, !isCompanionPresent, random),
+    turnsSinceOverride: MIN_TURNS_BETWEEN_OVERRIDES
+  };
+}
+
+/**
+ * The beat for the coming turn. A planned beat is suggested once it is due and insisted on once
+ * it is overdue, as long as the director has not insisted on something too recently. With
+ * nothing due, tension far outside the stage's range calls for a threat or a quiet moment.
+ */
+export function getPacingDirective(state: PacingState, arc: StoryArc): PacingDirective {
+  const turn = arc.turn + 1;
+  const targetRange = TENSION_RANGES[arc.stage];
+  const next = state.plan[0];
+  if (next && next.dueTurn <= turn) {
+    const isOverdue = turn - next.dueTurn >= OVERDUE_GRACE_TURNS;
+    return {
+      tension: state.tension,
+      targetRange,
+      beat: next.beat,
+      isRequired: isOverdue && state.turnsSinceOverride >= MIN_TURNS_BETWEEN_OVERRIDES
+    };
+  }
+
+  let beat: PacingBeat | undefined;
+  if (state.tension > targetRange[1] + TENSION_SLACK) beat = 'quiet_moment';
+  else if (state.tension < targetRange[0] - TENSION_SLACK) beat = 'threat';
+  return { tension: state.tension, targetRange, beat, isRequired: false };
+}
+
+export function describePacingForPrompt(directive: PacingDirective): string {
+  const lines = [`Tension: ${directive.tension}/100 (aim for ${directive.targetRange[0]}-${directive.targetRange[1]} at this stage of the story)`];
+  if (!directive.beat) {
+    lines.push('No beat is due. Follow the player\'s lead.');
+  } else if (directive.isRequired) {
+    lines.push(`Required beat this turn: ${PACING_BEAT_LABELS[directive.beat]}. ${BEAT_GUIDANCE[directive.beat]}`);
+  } else {
+    lines.push(`Next beat: ${PACING_BEAT_LABELS[directive.beat]}. ${BEAT_GUIDANCE[directive.beat]} Work it in if it fits the player's action; otherwise leave it for a later turn.`);
+  }
+  return lines.join('\n');
+}
+
+export interface PacingTurn {
+  responseType: string;
+  beat?: PacingBeat; // The beat the turn delivered, if any
+  insistedOn?: PacingBeat; // The beat the director insisted on this turn, delivered or not
+  isCompanionPresent: boolean;
+}
+
+/**
+ * Updates tension and the beat plan after a turn has played out. arc is the story arc after
+ * the turn; a new stage gets a fresh plan.
+ */
+export function recordPacingTurn(state: PacingState, arc: StoryArc, turn: PacingTurn, random: () => number = Math.random): PacingState {
+  const [min, max] = TENSION_RANGES[arc.stage];
+  let tension = state.tension + (RESPONSE_TENSION[turn.responseType] ?? 0) + (turn.beat ? BEAT_TENSION[turn.beat] : 0);
+  tension += ((min + max) / 2 - tension) * TENSION_DRIFT;
+  tension = Math.round(Math.min(100, Math.max(0, tension)));
+
+  let plan = state.plan;
+  const deliveredIndex = turn.beat ? plan.findIndex(entry => entry.beat === turn.beat) : -1;
+  if (deliveredIndex >= 0) {
+    plan = plan.filter((_, index) => index !== deliveredIndex);
+  }
+  // A beat the director insisted on gets one turn; if the story went elsewhere, the plan moves on
+  if (turn.insistedOn && plan[0]?.beat === turn.insistedOn && turn.insistedOn !== turn.beat) {
+    console.log(`[Pacing] ${PACING_BEAT_LABELS[turn.insistedOn]} was required but did not land, dropping it`);
+    plan = plan.slice(1);
+  }
+  if (turn.isCompanionPresent) {
+    plan = plan.filter(entry => entry.beat !== 'companion_arrival');
+  }
+  if (arc.stage !== state.stage) {
+    plan = planBeats(arc.stage, arc.turn, !turn.isCompanionPresent, random);
+  }
+
+  if (turn.beat) {
+    console.log(`[Pacing] ${PACING_BEAT_LABELS[turn.beat]} landed on turn ${arc.turn}, tension ${state.tension} -> ${tension}`);
+  }
+  return {
+    tension,
+    stage: arc.stage,
+    plan,
+    turnsSinceOverride: turn.insistedOn ? 0 : state.turnsSinceOverride + 1,
+    lastOverride: turn.insistedOn ?? state.lastOverride
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export const PRONOUN_OPTIONS = ['they/them', 'she/her', 'he/him'];
+export const MAX_PLAYER_TRAITS = 3;
+export const SUGGESTED_PLAYER_TRAITS = ['Brave', 'Curious', 'Cautious', 'Charming', 'Clever', 'Stubborn', 'Kind', 'Reckless'];
+
+/**
+ * Who the player is, set up before the adventure starts. Every field is optional; an empty
+ * character plays as the anonymous "you" the game has always had.
+ */
+export interface PlayerCharacter {
+  name: string;
+  pronouns: string; // One of PRONOUN_OPTIONS or the player's own
+  background: string;
+  traits: string[];
+  appearance: string; // Used for the portrait
+  portraitUrl: string;
+}
+
+export function createPlayerCharacter(): PlayerCharacter {
+  return { name: '', pronouns: PRONOUN_OPTIONS[0], background: '', traits: [], appearance: '', portraitUrl: '' };
+}
+
+export function hasPlayerIdentity(player: PlayerCharacter): boolean {
+  return !!(player.name.trim() || player.background.trim() || player.traits.length);
+}
+
+export function toggleTrait(player: PlayerCharacter, trait: string): PlayerCharacter {
+  const name = trait.trim();
+  if (!name) return player;
+  const exists = player.traits.some(existing => existing.toLowerCase() === name.toLowerCase());
+  if (exists) {
+    return { ...player, traits: player.traits.filter(existing => existing.toLowerCase() !== name.toLowerCase()) };
+  }
+  return player.traits.length >= MAX_PLAYER_TRAITS ? player : { ...player, traits: [...player.traits, name] };
+}
+
+/**
+ * The player as prompts should see them. Narration stays in the second person; the name and
+ * pronouns are for the characters who talk to and about the player.
+ */
+export function describePlayerForPrompt(player: PlayerCharacter): string {
+  if (!hasPlayerIdentity(player)) {
+    return 'The player has not said who they are. Address them as "you" and do not invent a name or backstory for them.';
+  }
+  const lines = [
+    `Name: ${player.name.trim() || 'not given'}`,
+    `Pronouns: ${player.pronouns.trim() || 'they/them'}`
+  ];
+  if (player.background.trim()) lines.push(`Background: ${player.background.trim()}`);
+  if (player.traits.length) lines.push(`Traits: ${player.traits.join(', ')}`);
+  lines.push(`Narration stays in the second person. Characters ${player.name.trim() ? `call the player ${player.name.trim()} and ` : ''}use these pronouns for them, and the story reacts to their background and traits.`);
+  return lines.join('\n');
+}
+
+export function buildPortraitDescription(player: PlayerCharacter): string {
+  const parts = [
+    player.appearance.trim() || 'An adventurer',
+    player.background.trim() && `Background: ${player.background.trim()}`,
+    player.traits.length ? `Bearing that shows they are ${player.traits.join(', ').toLowerCase()}` : ''
+  ];
+  return parts.filter(Boolean).join('. ');
+}
@@ -5,6 +5,7 @@
 
 import { Genre } from './ai-data-types';
 import { VOICE_OPTIONS } from './ai-data';
+import { MAX_SCENE_TAGS, SCENE_TAGS } from './soundscape';
 
 export function buildConsolidatedAdventurePrompt(
     genre: Genre,
@@ -305,7 +306,8 @@ function getVoiceDescriptor(voiceName: string, voiceDetails?: typeof VOICE_OPTIO
 
 export function buildExplorationAdventurePrompt(
     genre: Genre,
-    availableVoiceNames: string[]
+    availableVoiceNames: string[],
+    playerDescription?: string // From describePlayerForPrompt, when the player set up a character
 ): string {
     // Add randomization elements to encourage variety
     const randomSeed = Math.floor(Math.random() * 1000);
@@ -330,9 +332,12 @@ CRITICAL REQUIREMENTS:
 - ESTABLISH CONTEXT: Explain how this situation came to be - what events led to this moment?
 - Set up the BACKSTORY and CIRCUMSTANCES that put the player in this situation
 - Examples: "The escape pod's systems failed during the crash landing..." or "The ancient seal has been broken, releasing..." or "The expedition went wrong when..."
-- DO NOT define who the player is - they can be anyone they want
+${playerDescription ? `- THE PLAYER is already defined; shape the situation around who they are and never contradict it:
+${playerDescription}
+- The companion should be someone who would plausibly cross paths with this player
+` : `- DO NOT define who the player is - they can be anyone they want
 - Focus on WHAT HAPPENED to create this situation, not WHO the player is
-- NO companion character mentioned in scene narration
+`}- NO companion character mentioned in scene narration
 - AVOID GENERIC LOCATIONS: No forests, basic paths, or typical outdoor settings
 - Create UNIQUE, SPECIFIC locations that fit ${genre} perfectly
 - Make it immediately intriguing and compelling with clear context
@@ -355,12 +360,34 @@ Generate a VALID JSON object with this EXACT structure:
     "voicePromptInstruction": "string - How character should speak and behave in dialogue",
     "gender": "string - MUST be 'male', 'female', or 'neutral'",
     "age": "string - MUST be 'young', 'middle_aged', or 'old'",
-    "accent": "string - Accent preference (e.g., 'american', 'british') or empty string"
+    "accent": "string - Accent preference (e.g., 'american', 'british') or empty string",
+    "stats": {
+      "might": "integer from -1 to 3 - Strength and toughness",
+      "agility": "integer from -1 to 3 - Speed, stealth and dexterity",
+      "wits": "integer from -1 to 3 - Perception, knowledge and cunning",
+      "presence": "integer from -1 to 3 - Charm, nerve and force of will"
+    }
   },
   "scene": {
     "imagePrompt": "string - A detailed image generation prompt for an EXPLORATION scene WITHOUT any characters, focusing on atmospheric environmental details that suggest mystery or intrigue",
     "narrationText": "string - Opening narration (2-4 sentences) written in SECOND PERSON (you/your) that MUST include a compelling 'CALL TO ADVENTURE' hook. REQUIRED STRUCTURE: (1) Establish the inciting incident - what specific event, discovery, or crisis brought you to this moment? (2) Describe the immediate stakes or mystery that demands action. (3) Set the atmospheric scene with sensory details. This must create urgency and intrigue, not just describe a location. Focus on DRAMATIC CIRCUMSTANCES and compelling BACKSTORY that hooks the player.",
-    "narratorVoiceName": "string - MUST be one from: [${availableVoiceNames.join(', ')}]"
+    "narratorVoiceName": "string - MUST be one from: [${availableVoiceNames.join(', ')}]",
+    "worldSetting": "string - One or two sentences summarising the wider world: place, era, and what makes it distinctive",
+    "locationName": "string - Short name for the opening location (e.g. 'The Sunken Archive')",
+    "locationDescription": "string - One sentence describing the opening location",
+    "sceneTags": ["string - 0-${MAX_SCENE_TAGS} of: ${SCENE_TAGS.join(', ')}, for the scene's background sound"]
+  },
+  "quest": {
+    "mainQuest": {
+      "title": "string - Short quest title (e.g. 'Rekindle the Drowned Beacon')",
+      "description": "string - One or two sentences on what the player must achieve. It MUST serve the companion's mainWant and grow out of the scene's inciting incident"
+    },
+    "optionalObjectives": [
+      {
+        "title": "string - Short objective title",
+        "description": "string - One sentence on a side goal the player can pursue in this setting"
+      }
+    ]
   }
 }
 
@@ -375,6 +402,8 @@ ABSOLUTE REQUIREMENTS:
 8. Scene narration describes what the PLAYER sees, hears, and experiences
 9. Use "you" and "your" throughout the scene narration
 10. Focus on environmental storytelling and atmosphere
+11. Character stats should fit the character's type and traits and add up to about 4; give them one clear weakness
+12. Give 2-3 optionalObjectives. The mainQuest should take a whole adventure to complete, and must not name the companion, who has not been met yet
 
 EXCELLENT examples (compelling call to adventure with inciting incident + stakes + atmosphere):
 - "The research station's evacuation alarm triggered three hours ago, but the transport never came. Now you find yourself in the abandoned laboratory where the experiment went catastrophically wrong, strange energy readings still pulsing from the containment chamber that lies cracked open."
@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export const MAIN_QUEST_ID = 'main';
+export const MAX_OPTIONAL_OBJECTIVES = 3;
+
+export type ObjectiveStatus = 'active' | 'completed';
+
+export interface QuestObjective {
+  id: string; // MAIN_QUEST_ID for the main quest, "optional-<n>" for the rest
+  title: string;
+  description: string;
+  isMain: boolean;
+  status: ObjectiveStatus;
+  progress: string[]; // Short notes, oldest first, one per turn that moved the objective along
+  completedAt?: number; // Message id of the narration in which the objective was completed
+}
+
+export interface NewObjective {
+  title: string;
+  description: string;
+}
+
+export interface QuestUpdate {
+  objectiveId: string;
+  progressNote: string;
+  completed: boolean;
+}
+
+export function createQuestLog(mainQuest: NewObjective, optionalObjectives: NewObjective[]): QuestObjective[] {
+  const toObjective = (objective: NewObjective, id: string, isMain: boolean): QuestObjective => ({
+    id,
+    title: objective.title.trim(),
+    description: objective.description.trim(),
+    isMain,
+    status: 'active',
+    progress: []
+  });
+
+  return [
+    toObjective(mainQuest, MAIN_QUEST_ID, true),
+    ...optionalObjectives
+      .slice(0, MAX_OPTIONAL_OBJECTIVES)
+      .map((objective, index) => toObjective(objective, `optional-${index + 1}`, false))
+  ];
+}
+
+/**
+ * Returns the quest log with the Story Weaver's updates applied, plus the objectives those
+ * updates completed. Updates for unknown or already completed objectives are ignored.
+ */
+export function applyQuestUpdates(
+  quests: QuestObjective[],
+  updates: QuestUpdate[],
+  messageId: number
+): { quests: QuestObjective[]; completed: QuestObjective[] } {
+  const completed: QuestObjective[] = [];
+  const next = quests.map(objective => {
+    const update = updates.find(entry => entry.objectiveId === objective.id);
+    if (!update || objective.status === 'completed') return objective;
+
+    const note = update.progressNote.trim();
+    const updated: QuestObjective = {
+      ...objective,
+      progress: note ? [...objective.progress, note] : objective.progress
+    };
+    if (update.completed) {
+      updated.status = 'completed';
+      updated.completedAt = messageId;
+      completed.push(updated);
+    }
+    return updated;
+  });
+
+  updates
+    .filter(update => !quests.some(objective => objective.id === update.objectiveId))
+    .forEach(update => console.warn(`[Quests] Ignoring update for unknown objective "${update.objectiveId}"`));
+
+  return { quests: next, completed };
+}
+
+export function getMainQuest(quests: QuestObjective[]): QuestObjective | undefined {
+  return quests.find(objective => objective.isMain);
+}
+
+export function isMainQuestComplete(quests: QuestObjective[]): boolean {
+  return getMainQuest(quests)?.status === 'completed';
+}
+
+export function describeQuestsForPrompt(quests: QuestObjective[]): string {
+  if (quests.length === 0) {
+    return 'No quests.';
+  }
+  return quests
+    .map(objective => {
+      const label = objective.isMain ? 'MAIN QUEST' : 'Optional';
+      const latest = objective.progress.length ? ` Progress so far: ${objective.progress.slice(-2).join('; ')}.` : '';
+      return `- [${objective.id}] ${label} (${objective.status}): ${objective.title} - ${objective.description}${latest}`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,148 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { GroqService } from './groq-service';
+import { s } from './structured-output';
+
+export const INITIAL_RELATIONSHIP_LEVEL = 50;
+const MAX_AFFINITY_DELTA = 10;
+
+export type RelationshipTier = 'hostile' | 'cold' | 'neutral' | 'warm' | 'loyal';
+
+interface TierDefinition {
+  tier: RelationshipTier;
+  label: string;
+  minLevel: number;
+  guidance: string;
+}
+
+// Ordered from highest to lowest minLevel
+const RELATIONSHIP_TIERS: TierDefinition[] = [
+  { tier: 'loyal', label: 'Loyal', minLevel: 80, guidance: 'You trust the player completely. Be openly warm, protective and loyal; share private thoughts and take risks for them.' },
+  { tier: 'warm', label: 'Friendly', minLevel: 60, guidance: 'You like the player. Be friendly and supportive, joke with them and offer help willingly.' },
+  { tier: 'neutral', label: 'Neutral', minLevel: 40, guidance: 'You are still making up your mind about the player. Be polite but reserved, and keep personal matters to yourself.' },
+  { tier: 'cold', label: 'Cold', minLevel: 20, guidance: 'You are wary of the player. Be curt and guarded, question their choices and help only when it suits you.' },
+  { tier: 'hostile', label: 'Hostile', minLevel: 0, guidance: 'You resent the player. Be cold, sarcastic and unhelpful; you are close to walking away.' }
+];
+
+export function getRelationshipTier(level: number): TierDefinition {
+  return RELATIONSHIP_TIERS.find(tier => level >= tier.minLevel) || RELATIONSHIP_TIERS[RELATIONSHIP_TIERS.length - 1];
+}
+
+export interface RelationshipEventDefinition {
+  id: string;
+  label: string;
+  threshold: number;
+  direction: 'rising' | 'falling';
+  /** Instruction for the companion's next reply once the event has triggered */
+  directive: string;
+}
+
+/**
+ * One-off moments that trigger the first time relationshipLevel crosses a threshold.
+ */
+export const RELATIONSHIP_EVENTS: RelationshipEventDefinition[] = [
+  { id: 'confession', label: 'Confession', threshold: 90, direction: 'rising', directive: 'Confess something you have never told anyone, tied to what you want most. It should feel like a turning point in your bond.' },
+  { id: 'trust', label: 'Trust earned', threshold: 70, direction: 'rising', directive: 'Tell the player, in your own words, that you have come to trust them.' },
+  { id: 'rift', label: 'Rift', threshold: 25, direction: 'falling', directive: 'Confront the player about how they have been treating you. Let your flaw colour how you say it.' },
+  { id: 'betrayal', label: 'Betrayal', threshold: 10, direction: 'falling', directive: 'You have had enough. Betray or abandon the player in a way that fits your wants and flaws, and say so plainly.' }
+];
+
+export interface RelationshipMilestone {
+  eventId: string;
+  level: number;
+  messageId: number;
+  acknowledged: boolean; // Set once the companion has acted on the event in a reply
+}
+
+/**
+ * Events crossed when the level moves from `previous` to `next`, skipping ones already reached.
+ */
+export function findTriggeredEvents(previous: number, next: number, milestones: RelationshipMilestone[]): RelationshipEventDefinition[] {
+  return RELATIONSHIP_EVENTS.filter(event => {
+    if (milestones.some(milestone => milestone.eventId === event.id)) return false;
+    return event.direction === 'rising'
+      ? previous < event.threshold && next >= event.threshold
+      : previous > event.threshold && next <= event.threshold;
+  });
+}
+
+export function getRelationshipEvent(id: string): RelationshipEventDefinition | undefined {
+  return RELATIONSHIP_EVENTS.find(event => event.id === id);
+}
+
+export function describeRelationshipForPrompt(level: number): string {
+  const tier = getRelationshipTier(level);
+  return `Relationship with the player: ${level}/100 (${tier.label}). ${tier.guidance}`;
+}
+
+// Out-of-range deltas are clamped rather than rejected
+const AFFINITY_APPRAISAL_SCHEMA = s.object({
+  delta: s.number(),
+  sentiment: s.enum(['positive', 'neutral', 'negative']),
+  reason: s.string()
+});
+
+export interface AffinityAppraisal {
+  delta: number;
+  sentiment: 'positive' | 'neutral' | 'negative';
+  reason: string;
+}
+
+export interface AppraisalContext {
+  characterName: string;
+  coreTrait: string;
+  mainWant: string;
+  keyFlaw: string;
+  relationshipLevel: number;
+}
+
+export class RelationshipService {
+  private groqService: GroqService;
+
+  constructor(groqApiKey?: string) {
+    this.groqService = new GroqService(groqApiKey);
+  }
+
+  /**
+   * Judges how one exchange changed the companion's feelings toward the player, from the
+   * companion's point of view: what serves their want moves the level up, what pokes at
+   * their flaw moves it down.
+   */
+  async appraiseExchange(context: AppraisalContext, userInput: string, companionReply: string): Promise<AffinityAppraisal> {
+    const prompt = `You are judging how ${context.characterName}'s feelings toward the player changed in one exchange.
+
+${context.characterName}:
+- Core trait: ${context.coreTrait}
+- Main want: ${context.mainWant}
+- Key flaw: ${context.keyFlaw}
+- Current relationship: ${context.relationshipLevel}/100
+
+Player said: "${userInput}"
+${context.characterName} replied: "${companionReply}"
+
+Respond with JSON:
+{
+  "delta": integer from -${MAX_AFFINITY_DELTA} to ${MAX_AFFINITY_DELTA},
+  "sentiment": "positive|neutral|negative",
+  "reason": "One short sentence from ${context.characterName}'s perspective"
+}
+
+Small talk is 0 to 2. Helping with or respecting ${context.characterName}'s main want is strongly positive. Mocking, exploiting or triggering their key flaw is negative. Reserve ±8 or more for moments ${context.characterName} would remember for a long time.`;
+
+    const parsed = await this.groqService.generateStructured(
+      'You evaluate character relationships in an interactive story. Always respond with valid JSON only.',
+      prompt,
+      AFFINITY_APPRAISAL_SCHEMA,
+      { purpose: 'relationship_appraisal', temperature: 0.2 }
+    );
+
+    const delta = Math.max(-MAX_AFFINITY_DELTA, Math.min(MAX_AFFINITY_DELTA, Math.round(parsed.delta)));
+    return { delta, sentiment: parsed.sentiment, reason: parsed.reason };
+  }
+}
+
+export function clampRelationshipLevel(level: number): number {
+  return Math.max(0, Math.min(100, level));
+}
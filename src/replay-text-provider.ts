@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { FixtureStore } from './fixture-store';
+import { TextGenerationProvider, TextGenerationRequest } from './text-generation-provider';
+
+/**
+ * Passes requests through to a live provider and records each response.
+ */
+export class RecordingTextProvider implements TextGenerationProvider {
+  readonly name: string;
+
+  constructor(private inner: TextGenerationProvider, private store: FixtureStore) {
+    this.name = `${inner.name} (recording)`;
+  }
+
+  async generate(request: TextGenerationRequest): Promise<string> {
+    const response = await this.inner.generate(request);
+    this.store.record('text', request, response);
+    return response;
+  }
+
+  async *stream(request: TextGenerationRequest): AsyncGenerator<string> {
+    let fullText = '';
+    for await (const delta of this.inner.stream(request)) {
+      fullText += delta;
+      yield delta;
+    }
+    // Recorded under the same hash as generate() so either call can replay it
+    this.store.record('text', request, fullText.trim());
+  }
+}
+
+/**
+ * Serves previously recorded responses. Never touches the network.
+ */
+export class ReplayTextProvider implements TextGenerationProvider {
+  readonly name = 'Replay';
+
+  constructor(private store: FixtureStore) {}
+
+  async generate(request: TextGenerationRequest): Promise<string> {
+    const response = this.store.lookup<string>('text', request);
+    console.log(`[Replay] Replayed ${request.purpose || 'text'} response`);
+    return response;
+  }
+
+  async *stream(request: TextGenerationRequest): AsyncGenerator<string> {
+    yield* splitIntoDeltas(await this.generate(request));
+  }
+}
+
+/**
+ * Re-chunks a complete response word by word so offline streams exercise the same code paths.
+ */
+export function* splitIntoDeltas(text: string): Generator<string> {
+  const parts = text.match(/\S+\s*/g) || [];
+  for (const part of parts) {
+    yield part;
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { AdventureSnapshot, SaveSlotSummary, migrateSnapshot, summarizeSnapshot } from './adventure-snapshot';
+
+const DB_NAME = 'ai-companion-rpg';
+const DB_VERSION = 1;
+const SNAPSHOT_STORE = 'snapshots';
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Adventure snapshots in IndexedDB, one record per save slot. Records are stored as written
+ * and migrated to the current snapshot version when read.
+ */
+export class SaveGameStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+            db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async withStore<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction(SNAPSHOT_STORE, mode);
+    return promisifyRequest(action(transaction.objectStore(SNAPSHOT_STORE)));
+  }
+
+  async save(snapshot: AdventureSnapshot): Promise<void> {
+    const startTime = performance.now();
+    await this.withStore('readwrite', store => store.put(snapshot));
+    console.log(`[Saves] ⏱️ Saved "${snapshot.name}" (${snapshot.id}) in ${(performance.now() - startTime).toFixed(2)}ms`);
+  }
+
+  async load(id: string): Promise<AdventureSnapshot | null> {
+    const raw = await this.withStore('readonly', store => store.get(id));
+    return raw ? migrateSnapshot(raw) : null;
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.withStore('readwrite', store => store.delete(id));
+    console.log(`[Saves] Deleted save ${id}`);
+  }
+
+  /**
+   * All readable saves, most recent first. Saves that fail to migrate are logged and skipped.
+   */
+  async listSlots(): Promise<SaveSlotSummary[]> {
+    const records = await this.withStore<unknown[]>('readonly', store => store.getAll());
+    const summaries: SaveSlotSummary[] = [];
+    for (const record of records) {
+      try {
+        summaries.push(summarizeSnapshot(migrateSnapshot(record)));
+      } catch (error) {
+        console.warn('[Saves] Skipping unreadable save:', error);
+      }
+    }
+    return summaries.sort((a, b) => b.savedAt - a.savedAt);
+  }
+}
+
+// Export singleton instance
+export const saveGameStore = new SaveGameStore();
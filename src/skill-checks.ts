@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { s } from './structured-output';
+
+export const STAT_NAMES = ['might', 'agility', 'wits', 'presence'] as const;
+export type StatName = typeof STAT_NAMES[number];
+
+/** Modifiers added to a d20 roll, from -1 (weak) to +3 (exceptional) */
+export type CharacterStats = Record<StatName, number>;
+
+const MIN_STAT = -1;
+const MAX_STAT = 3;
+
+export const DEFAULT_PLAYER_STATS: CharacterStats = { might: 1, agility: 1, wits: 1, presence: 1 };
+
+export const STAT_LABELS: Record<StatName, string> = {
+  might: 'Might',
+  agility: 'Agility',
+  wits: 'Wits',
+  presence: 'Presence'
+};
+
+export const STATS_SCHEMA = s.object({
+  might: s.number({ integer: true, description: `Strength and toughness, ${MIN_STAT} to ${MAX_STAT}` }),
+  agility: s.number({ integer: true, description: `Speed, stealth and dexterity, ${MIN_STAT} to ${MAX_STAT}` }),
+  wits: s.number({ integer: true, description: `Perception, knowledge and cunning, ${MIN_STAT} to ${MAX_STAT}` }),
+  presence: s.number({ integer: true, description: `Charm, nerve and force of will, ${MIN_STAT} to ${MAX_STAT}` })
+});
+
+// Out-of-range stats from the model are clamped rather than rejected
+export function normalizeStats(stats: CharacterStats): CharacterStats {
+  return Object.fromEntries(
+    STAT_NAMES.map(stat => [stat, Math.max(MIN_STAT, Math.min(MAX_STAT, Math.round(stats[stat] ?? 0)))])
+  ) as CharacterStats;
+}
+
+/**
+ * Small deterministic RNG (mulberry32). The whole generator is one 32-bit number, so it can
+ * be saved with the adventure and a run with the same seed rolls the same dice.
+ */
+export class SeededRandom {
+  private current: number;
+
+  constructor(seed: number) {
+    this.current = seed >>> 0;
+  }
+
+  get state(): number {
+    return this.current;
+  }
+
+  /** Uniform float in [0, 1) */
+  next(): number {
+    this.current = (this.current + 0x6D2B79F5) >>> 0;
+    let t = this.current;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  rollDie(sides: number): number {
+    return Math.floor(this.next() * sides) + 1;
+  }
+}
+
+/**
+ * Seed for a new adventure. DICE_SEED pins it so offline and replay runs roll the same dice.
+ */
+export function createDiceSeed(): number {
+  const fixedSeed = Number(process.env.DICE_SEED);
+  if (process.env.DICE_SEED && Number.isFinite(fixedSeed)) {
+    return fixedSeed >>> 0;
+  }
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+export type SkillCheckActor = 'player' | 'companion';
+export type SkillCheckOutcome = 'critical' | 'success' | 'partial' | 'fail';
+
+export const MIN_DIFFICULTY = 5;
+export const MAX_DIFFICULTY = 25;
+
+export interface SkillCheckRequest {
+  stat: StatName;
+  difficulty: number;
+  actor: SkillCheckActor;
+  reason: string;
+}
+
+export interface SkillCheckResult extends SkillCheckRequest {
+  roll: number; // The natural d20
+  modifier: number;
+  total: number;
+  outcome: SkillCheckOutcome;
+}
+
+export const OUTCOME_LABELS: Record<SkillCheckOutcome, string> = {
+  critical: 'Critical success',
+  success: 'Success',
+  partial: 'Partial success',
+  fail: 'Failure'
+};
+
+// How the narration should treat each outcome
+const OUTCOME_GUIDANCE: Record<SkillCheckOutcome, string> = {
+  critical: 'It goes better than hoped. The action succeeds outright and brings an unexpected advantage.',
+  success: 'The action succeeds.',
+  partial: 'The action only partly succeeds, or succeeds at a cost: a complication, an injury, a noise that draws attention, or something lost.',
+  fail: 'The action fails. Narrate a setback that changes the situation, so simply trying again is not the obvious next step.'
+};
+
+/**
+ * Rolls a d20 plus the actor's stat against the difficulty. A natural 20 is always critical
+ * and a natural 1 always fails; otherwise missing by up to 4 is a partial success.
+ */
+export function resolveSkillCheck(request: SkillCheckRequest, stats: CharacterStats, rng: SeededRandom): SkillCheckResult {
+  const difficulty = Math.max(MIN_DIFFICULTY, Math.min(MAX_DIFFICULTY, Math.round(request.difficulty)));
+  const roll = rng.rollDie(20);
+  const modifier = stats[request.stat] ?? 0;
+  const total = roll + modifier;
+
+  let outcome: SkillCheckOutcome;
+  if (roll === 20 || total >= difficulty + 10) outcome = 'critical';
+  else if (roll === 1) outcome = 'fail';
+  else if (total >= difficulty) outcome = 'success';
+  else if (total >= difficulty - 4) outcome = 'partial';
+  else outcome = 'fail';
+
+  return { ...request, difficulty, roll, modifier, total, outcome };
+}
+
+export function formatModifier(modifier: number): string {
+  return modifier >= 0 ? `+${modifier}` : `${modifier}`;
+}
+
+/**
+ * One-line summary used as the dice card's chat text and in transcripts.
+ */
+export function describeSkillCheck(result: SkillCheckResult, actorName: string): string {
+  return `${actorName} - ${STAT_LABELS[result.stat]} check (difficulty ${result.difficulty}): rolled ${result.roll} ${formatModifier(result.modifier)} = ${result.total}. ${OUTCOME_LABELS[result.outcome]}.`;
+}
+
+export function describeSkillCheckForPrompt(result: SkillCheckResult, actorName: string): string {
+  return `${actorName} attempted this (${result.reason}) and it was resolved with a ${STAT_LABELS[result.stat]} check against difficulty ${result.difficulty}: ${OUTCOME_LABELS[result.outcome].toUpperCase()}.
+${OUTCOME_GUIDANCE[result.outcome]}
+Do not mention dice, rolls or numbers in the narration.`;
+}
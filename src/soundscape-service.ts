@@ -0,0 +1,165 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { watch } from 'vue';
+import { audioEventBus } from './audio-event-bus';
+import { SOUNDSCAPE_LAYERS, SoundscapeBed, SoundscapeLayer, SoundscapeManifest, SoundscapeScene, chooseBed } from './soundscape';
+
+// Served from public/, so the soundscape works offline like everything else in record/replay
+const MANIFEST_URL = '/audio/soundscape.json';
+const CROSSFADE_SECONDS = 3;
+// Beds drop to this share of their volume while narration or dialogue plays
+const DUCK_LEVEL = 0.3;
+const DUCK_ATTACK_SECONDS = 0.3;
+const DUCK_RELEASE_SECONDS = 1.2;
+
+interface PlayingBed {
+  bed: SoundscapeBed;
+  source: AudioBufferSourceNode;
+  gain: GainNode;
+}
+
+/**
+ * Music and ambience under the story. Each layer loops one bed at a time and crossfades when
+ * the scene calls for another; both duck while speech plays. Beds whose files are missing are
+ * skipped, so the manifest can list more than is installed.
+ */
+export class SoundscapeService {
+  private context: AudioContext | null = null;
+  private duckGain: GainNode | null = null;
+  private layerGains = new Map<SoundscapeLayer, GainNode>();
+  private volumes: Record<SoundscapeLayer, number> = { music: 0.5, ambience: 0.7 };
+  private playing = new Map<SoundscapeLayer, PlayingBed>();
+  // Bumped on every change per layer, so a bed that finishes loading late is not started
+  private requests = new Map<SoundscapeLayer, number>();
+  private manifestPromise: Promise<SoundscapeManifest> | null = null;
+  private buffers = new Map<string, Promise<AudioBuffer | null>>();
+
+  constructor() {
+    watch(() => audioEventBus.state.value.isTTSPlaying, isTTSPlaying => this.duck(isTTSPlaying));
+  }
+
+  private loadManifest(): Promise<SoundscapeManifest> {
+    if (!this.manifestPromise) {
+      this.manifestPromise = fetch(MANIFEST_URL)
+        .then(response => {
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+          return response.json() as Promise<SoundscapeManifest>;
+        })
+        .catch(error => {
+          console.warn('[Soundscape] No soundscape manifest, playing without music or ambience:', error);
+          return { beds: [] };
+        });
+    }
+    return this.manifestPromise;
+  }
+
+  private getContext(): AudioContext {
+    if (!this.context) {
+      this.context = new (window.AudioContext || (window as any).webkitAudioContext)();
+      this.duckGain = this.context.createGain();
+      this.duckGain.connect(this.context.destination);
+      SOUNDSCAPE_LAYERS.forEach(layer => {
+        const gain = this.context!.createGain();
+        gain.gain.value = this.volumes[layer];
+        gain.connect(this.duckGain!);
+        this.layerGains.set(layer, gain);
+      });
+    }
+    // Browsers keep audio suspended until the page has been interacted with
+    if (this.context.state === 'suspended') {
+      this.context.resume().catch(() => {});
+    }
+    return this.context;
+  }
+
+  private loadBuffer(bed: SoundscapeBed): Promise<AudioBuffer | null> {
+    const url = new URL(bed.src, new URL(MANIFEST_URL, window.location.href)).href;
+    if (!this.buffers.has(url)) {
+      this.buffers.set(url, fetch(url)
+        .then(response => {
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+          return response.arrayBuffer();
+        })
+        .then(data => this.getContext().decodeAudioData(data))
+        .catch(error => {
+          console.warn(`[Soundscape] Could not load ${bed.id} from ${url}:`, error);
+          return null;
+        }));
+    }
+    return this.buffers.get(url)!;
+  }
+
+  /**
+   * Plays the beds that fit the scene, crossfading any layer whose bed changes.
+   */
+  async setScene(scene: SoundscapeScene): Promise<void> {
+    const manifest = await this.loadManifest();
+    await Promise.all(SOUNDSCAPE_LAYERS.map(layer => this.playBed(layer, chooseBed(manifest, layer, scene))));
+  }
+
+  /** Fades both layers out, e.g. when leaving the game screen. */
+  stop(): void {
+    SOUNDSCAPE_LAYERS.forEach(layer => {
+      this.requests.set(layer, (this.requests.get(layer) || 0) + 1);
+      this.fadeOut(layer);
+    });
+  }
+
+  setVolume(layer: SoundscapeLayer, volume: number): void {
+    this.volumes[layer] = volume;
+    const gain = this.layerGains.get(layer);
+    if (gain && this.context) {
+      gain.gain.setTargetAtTime(volume, this.context.currentTime, 0.05);
+    }
+  }
+
+  private async playBed(layer: SoundscapeLayer, bed: SoundscapeBed | null): Promise<void> {
+    const request = (this.requests.get(layer) || 0) + 1;
+    this.requests.set(layer, request);
+    if (this.playing.get(layer)?.bed.id === bed?.id) return;
+
+    const buffer = bed ? await this.loadBuffer(bed) : null;
+    if (this.requests.get(layer) !== request) return;
+    this.fadeOut(layer);
+    if (!bed || !buffer) return;
+
+    console.log(`[Soundscape] ${layer}: ${bed.id}`);
+    const context = this.getContext();
+    const gain = context.createGain();
+    gain.gain.setValueAtTime(0, context.currentTime);
+    gain.gain.linearRampToValueAtTime(bed.volume ?? 1, context.currentTime + CROSSFADE_SECONDS);
+    gain.connect(this.layerGains.get(layer)!);
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.loop = true;
+    source.connect(gain);
+    source.start();
+    this.playing.set(layer, { bed, source, gain });
+  }
+
+  private fadeOut(layer: SoundscapeLayer): void {
+    const current = this.playing.get(layer);
+    if (!current || !this.context) return;
+    this.playing.delete(layer);
+    const now = this.context.currentTime;
+    current.gain.gain.cancelScheduledValues(now);
+    current.gain.gain.setValueAtTime(current.gain.gain.value, now);
+    current.gain.gain.linearRampToValueAtTime(0, now + CROSSFADE_SECONDS);
+    current.source.stop(now + CROSSFADE_SECONDS);
+  }
+
+  private duck(isDucked: boolean): void {
+    if (!this.context || !this.duckGain) return;
+    const now = this.context.currentTime;
+    const gain = this.duckGain.gain;
+    gain.cancelScheduledValues(now);
+    gain.setValueAtTime(gain.value, now);
+    gain.linearRampToValueAtTime(isDucked ? DUCK_LEVEL : 1, now + (isDucked ? DUCK_ATTACK_SECONDS : DUCK_RELEASE_SECONDS));
+  }
+}
+
+// Export singleton instance
+export const soundscapeService = new SoundscapeService();
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export type SoundscapeLayer = 'music' | 'ambience';
+
+export const SOUNDSCAPE_LAYERS: SoundscapeLayer[] = ['music', 'ambience'];
+
+/**
+ * Tags the Story Weaver may attach to a scene. Beds in the manifest are matched on these.
+ */
+export const SCENE_TAGS = ['forest', 'rain', 'tavern', 'spaceship', 'cave', 'city', 'ocean', 'wind', 'night', 'combat'];
+export const MAX_SCENE_TAGS = 3;
+
+/**
+ * A looping background track. Beds with genres only play in those genres unless one of their
+ * tags matches the scene; beds without genres play in any.
+ */
+export interface SoundscapeBed {
+  id: string;
+  layer: SoundscapeLayer;
+  src: string; // Relative to the manifest
+  tags?: string[];
+  genres?: string[];
+  volume?: number; // 0-1, to even out loudness between files
+}
+
+export interface SoundscapeManifest {
+  beds: SoundscapeBed[];
+}
+
+export interface SoundscapeScene {
+  genre: string;
+  tags: string[];
+}
+
+/**
+ * The Story Weaver's tags for a scene, lower-cased, limited to SCENE_TAGS and cut to the
+ * first MAX_SCENE_TAGS.
+ */
+export function normalizeSceneTags(tags: string[] | undefined): string[] {
+  const known = (tags || []).map(tag => tag.trim().toLowerCase()).filter(tag => SCENE_TAGS.includes(tag));
+  return [...new Set(known)].slice(0, MAX_SCENE_TAGS);
+}
+
+/**
+ * The bed a layer should play for a scene: each matching tag counts twice as much as a
+ * matching genre, and the earlier bed in the manifest wins a tie. Null when nothing fits.
+ */
+export function chooseBed(manifest: SoundscapeManifest, layer: SoundscapeLayer, scene: SoundscapeScene): SoundscapeBed | null {
+  let best: SoundscapeBed | null = null;
+  let bestScore = 0;
+  manifest.beds
+    .filter(bed => bed.layer === layer)
+    .forEach(bed => {
+      const tagMatches = (bed.tags || []).filter(tag => scene.tags.includes(tag)).length;
+      const isGenreMatch = !!bed.genres?.includes(scene.genre);
+      const score = tagMatches * 2 + (isGenreMatch ? 1 : 0);
+      if (score > bestScore) {
+        best = bed;
+        bestScore = score;
+      }
+    });
+  return best;
+}
@@ -0,0 +1,200 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { ElevenLabsVoiceSettings } from './companion-mood';
+import { getProviderMode, hashRequest } from './fixture-store';
+
+const DB_NAME = 'ai-companion-rpg-speech';
+const DB_VERSION = 1;
+const CLIP_STORE = 'clips'; // Audio, read only on a hit
+const CLIP_INFO_STORE = 'clipInfo'; // Sizes and last use, read to decide what to evict
+const LINE_STORE = 'lines';
+const MAX_CACHE_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Everything that changes the audio a provider returns. Two requests with equal fields give
+ * the same clip.
+ */
+export interface SpeechCacheRequest {
+  provider: string;
+  voiceId: string;
+  model: string;
+  voiceSettings?: ElevenLabsVoiceSettings;
+  text: string; // After stage-direction cleanup
+}
+
+export interface CachedClip {
+  key: string;
+  provider: string;
+  audio: ArrayBuffer;
+}
+
+interface ClipInfo {
+  key: string;
+  byteLength: number;
+  lastUsedAt: number;
+}
+
+// A chat message's speaker and text, and the clips it was spoken as, sentence by sentence
+interface LineRecord {
+  key: string;
+  clipKeys: string[];
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Keyed by speaker too, so the same words said by the narrator and by a companion replay in their own voices
+const lineKey = (speaker: string, text: string) => hashRequest('speech', { speaker, line: text.trim().replace(/\s+/g, ' ') });
+
+/**
+ * Generated speech in IndexedDB, so retries, repeated lines and replays do not pay for the
+ * same audio twice. The least recently used clips are evicted past MAX_CACHE_BYTES. Lines
+ * remember which clips they were spoken as, so a chat message can be replayed from the cache.
+ */
+export class SpeechCache {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private hits = 0;
+  private misses = 0;
+
+  /**
+   * Only live play uses the cache; record mode must reach the provider so every clip ends up
+   * in the fixtures, and replay and mock make no speech requests worth caching.
+   */
+  isEnabled(): boolean {
+    return typeof indexedDB !== 'undefined' && getProviderMode() === 'live';
+  }
+
+  keyFor(request: SpeechCacheRequest): string {
+    return hashRequest('speech', request);
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(CLIP_STORE)) {
+            db.createObjectStore(CLIP_STORE, { keyPath: 'key' });
+          }
+          if (!db.objectStoreNames.contains(CLIP_INFO_STORE)) {
+            db.createObjectStore(CLIP_INFO_STORE, { keyPath: 'key' }).createIndex('lastUsedAt', 'lastUsedAt');
+          }
+          if (!db.objectStoreNames.contains(LINE_STORE)) {
+            db.createObjectStore(LINE_STORE, { keyPath: 'key' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async readClip(key: string): Promise<CachedClip | null> {
+    const db = await this.openDatabase();
+    const transaction = db.transaction([CLIP_STORE, CLIP_INFO_STORE], 'readwrite');
+    const clip = await promisifyRequest<CachedClip | undefined>(transaction.objectStore(CLIP_STORE).get(key));
+    if (clip) {
+      const info: ClipInfo = { key, byteLength: clip.audio.byteLength, lastUsedAt: Date.now() };
+      transaction.objectStore(CLIP_INFO_STORE).put(info);
+    }
+    return clip || null;
+  }
+
+  /**
+   * Looks a clip up for synthesis and counts the hit or miss. Cache errors count as misses.
+   */
+  async get(key: string): Promise<CachedClip | null> {
+    let clip: CachedClip | null = null;
+    try {
+      clip = await this.readClip(key);
+    } catch (error) {
+      console.warn('[SpeechCache] Lookup failed:', error);
+    }
+    if (clip) this.hits++;
+    else this.misses++;
+    console.log(`[SpeechCache] ${clip ? 'Hit' : 'Miss'} ${key} (${this.hits} hits, ${this.misses} misses)`);
+    return clip;
+  }
+
+  async put(key: string, provider: string, audio: ArrayBuffer): Promise<void> {
+    try {
+      const db = await this.openDatabase();
+      const clip: CachedClip = { key, provider, audio };
+      const info: ClipInfo = { key, byteLength: audio.byteLength, lastUsedAt: Date.now() };
+      const transaction = db.transaction([CLIP_STORE, CLIP_INFO_STORE], 'readwrite');
+      transaction.objectStore(CLIP_STORE).put(clip);
+      await promisifyRequest(transaction.objectStore(CLIP_INFO_STORE).put(info));
+      await this.evict();
+    } catch (error) {
+      console.warn('[SpeechCache] Storing a clip failed:', error);
+    }
+  }
+
+  // Drops the least recently used clips until the cache fits in MAX_CACHE_BYTES
+  private async evict(): Promise<void> {
+    const db = await this.openDatabase();
+    const infos = await promisifyRequest<ClipInfo[]>(db.transaction(CLIP_INFO_STORE, 'readonly').objectStore(CLIP_INFO_STORE).index('lastUsedAt').getAll());
+    let totalBytes = infos.reduce((total, info) => total + info.byteLength, 0);
+    const evicted: string[] = [];
+    for (const info of infos) {
+      if (totalBytes <= MAX_CACHE_BYTES) break;
+      totalBytes -= info.byteLength;
+      evicted.push(info.key);
+    }
+    if (!evicted.length) return;
+
+    const transaction = db.transaction([CLIP_STORE, CLIP_INFO_STORE], 'readwrite');
+    evicted.forEach(key => {
+      transaction.objectStore(CLIP_STORE).delete(key);
+      transaction.objectStore(CLIP_INFO_STORE).delete(key);
+    });
+    console.log(`[SpeechCache] Evicted ${evicted.length} clip(s), ${(totalBytes / 1024 / 1024).toFixed(1)}MB left`);
+  }
+
+  async rememberLine(speaker: string, text: string, clipKeys: string[]): Promise<void> {
+    if (!text.trim() || !clipKeys.length) return;
+    try {
+      const line: LineRecord = { key: lineKey(speaker, text), clipKeys };
+      const db = await this.openDatabase();
+      await promisifyRequest(db.transaction(LINE_STORE, 'readwrite').objectStore(LINE_STORE).put(line));
+    } catch (error) {
+      console.warn('[SpeechCache] Storing a line failed:', error);
+    }
+  }
+
+  /**
+   * The clips a speaker's line was spoken as, in order, or null if it was never spoken or any
+   * of its clips has since been evicted.
+   */
+  async getLine(speaker: string, text: string): Promise<CachedClip[] | null> {
+    try {
+      const db = await this.openDatabase();
+      const line = await promisifyRequest<LineRecord | undefined>(db.transaction(LINE_STORE, 'readonly').objectStore(LINE_STORE).get(lineKey(speaker, text)));
+      if (!line) return null;
+      const clips: CachedClip[] = [];
+      for (const key of line.clipKeys) {
+        const clip = await this.readClip(key);
+        if (!clip) return null;
+        clips.push(clip);
+      }
+      return clips;
+    } catch (error) {
+      console.warn('[SpeechCache] Reading a line failed:', error);
+      return null;
+    }
+  }
+}
+
+// Export singleton instance
+export const speechCache = new SpeechCache();
@@ -0,0 +1,423 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { DEFAULT_ELEVENLABS_OUTPUT_FORMAT, DEFAULT_SPEECH_PROVIDER, ELEVENLABS_TTS_MODEL, GEMINI_TTS_MODEL, SPEECH_PROVIDER_OPTIONS, SpeechProviderId } from './ai-config';
+import { VOICE_OPTIONS } from './ai-data';
+import { VoiceOption } from './ai-data-types';
+import { ElevenLabsVoiceSettings } from './companion-mood';
+import { ElevenLabsTTSService } from './elevenlabs-tts-service';
+import { Playback, PlaybackLineOptions, audioPlaybackQueue } from './audio-playback-queue';
+import { isOfflineProviderMode } from './fixture-store';
+import { SentenceSpeechPipeline, StreamingSpeech } from './streaming-text';
+import { SpeechCacheRequest, speechCache } from './speech-cache';
+import { createSpeechTimings, readWholeStream } from './streaming-audio';
+import { TTSService } from './tts-service';
+import { voiceSelectionService } from './voice-selection-service';
+
+/**
+ * A character's or the narrator's voice. voiceName is one of VOICE_OPTIONS; its style and
+ * pitch are what the voice is mapped by on providers that do not have it.
+ */
+export interface SpeechVoice {
+  voiceName: string;
+  voiceId?: string; // ElevenLabs voice, when one was picked for the character
+  voiceSettings?: ElevenLabsVoiceSettings;
+}
+
+/**
+ * Speech that has been requested and can be played once, through audioPlaybackQueue.
+ * Providers that stream start downloading as soon as it is created.
+ */
+export interface PreparedSpeech {
+  start(): Playback;
+  audio?: Promise<ArrayBuffer>; // The whole clip once downloaded, when it was asked to be kept
+  cacheKey?: string; // Set when the clip is, or is about to be, in the speech cache
+}
+
+export interface SpeechSynthesisProvider {
+  readonly id: Exclude<SpeechProviderId, 'none'>;
+  /** False when the provider has no API key or the browser lacks support. */
+  isAvailable(): boolean;
+  /**
+   * Starts generating speech. Resolves to null when there is nothing to play, e.g. in mock
+   * mode. keepAudio asks for the whole clip as well, for the cache.
+   */
+  synthesize(text: string, voice: SpeechVoice, keepAudio?: boolean): Promise<PreparedSpeech | null>;
+  /** What the audio depends on. Providers whose audio cannot be kept leave this out. */
+  describeRequest?(text: string, voice: SpeechVoice): SpeechCacheRequest;
+  /** Starts playing a clip this provider generated earlier. */
+  playCached?(audio: ArrayBuffer, text: string): Playback;
+}
+
+type VoiceTraits = Pick<VoiceOption, 'style' | 'pitch'>;
+
+const DEFAULT_VOICE_NAME = 'Puck';
+// Providers are tried in this order after the preferred one
+const FALLBACK_ORDER: Array<SpeechSynthesisProvider['id']> = ['elevenlabs', 'gemini', 'browser'];
+// A provider that fails this many times in a row is skipped for the rest of the session
+const MAX_CONSECUTIVE_FAILURES = 2;
+
+const ELEVENLABS_AGE_BY_PITCH: Record<string, string> = { High: 'young', Normal: 'middle_aged', Low: 'old' };
+const PITCH_BY_ELEVENLABS_AGE: Record<string, string> = { young: 'High', middle_aged: 'Normal', old: 'Low' };
+const BROWSER_PITCH: Record<string, number> = { High: 1.25, Normal: 1, Low: 0.8 };
+// Common system voice names, since the Web Speech API does not say which voices are male or female
+const BROWSER_VOICE_HINTS: Record<string, string[]> = {
+  Female: ['female', 'samantha', 'victoria', 'karen', 'moira', 'tessa', 'zira', 'susan', 'hazel', 'aria', 'jenny'],
+  Male: ['male', 'daniel', 'alex', 'fred', 'david', 'mark', 'george', 'guy', 'ryan']
+};
+
+// Lines are remembered for replay under whoever spoke them
+const lineSpeaker = (playback: PlaybackLineOptions): string => playback.label || playback.source;
+
+// Same voice name, same pick, so a character keeps their voice across sessions
+const stableIndex = (key: string, length: number): number =>
+  [...key].reduce((sum, ch) => sum + ch.charCodeAt(0), 0) % length;
+
+/**
+ * The style and pitch of a voice. Voices known only by their ElevenLabs id are described by
+ * that voice's gender and age.
+ */
+export function getVoiceTraits(voice: SpeechVoice): VoiceTraits {
+  const option = VOICE_OPTIONS.find(entry => entry.name === voice.voiceName);
+  if (option) return option;
+  const elevenLabsVoice = voice.voiceId ? voiceSelectionService.getVoiceById(voice.voiceId) : undefined;
+  if (elevenLabsVoice) {
+    const style = elevenLabsVoice.gender === 'female' ? 'Female' : elevenLabsVoice.gender === 'male' ? 'Male' : 'Neutral';
+    return { style, pitch: PITCH_BY_ELEVENLABS_AGE[elevenLabsVoice.age] || 'Normal' };
+  }
+  return { style: 'Neutral', pitch: 'Normal' };
+}
+
+export function toGeminiVoiceName(voice: SpeechVoice): string {
+  if (VOICE_OPTIONS.some(option => option.name === voice.voiceName)) return voice.voiceName;
+  const traits = getVoiceTraits(voice);
+  const sameStyle = VOICE_OPTIONS.filter(option => option.style === traits.style);
+  const candidates = sameStyle.filter(option => option.pitch === traits.pitch);
+  const pool = candidates.length ? candidates : sameStyle;
+  return pool.length ? pool[stableIndex(voice.voiceId || voice.voiceName, pool.length)].name : DEFAULT_VOICE_NAME;
+}
+
+export function toElevenLabsVoiceId(voice: SpeechVoice): string | undefined {
+  if (voice.voiceId) return voice.voiceId;
+  const traits = getVoiceTraits(voice);
+  const gender = traits.style === 'Female' ? 'female' : traits.style === 'Male' ? 'male' : 'neutral';
+  const sameGender = voiceSelectionService.getVoicesByFilter({ gender });
+  const candidates = sameGender.filter(entry => entry.age === ELEVENLABS_AGE_BY_PITCH[traits.pitch]);
+  const pool = candidates.length ? candidates : sameGender.length ? sameGender : voiceSelectionService.getVoicesByFilter({});
+  return pool.length ? pool[stableIndex(voice.voiceName, pool.length)].id : undefined;
+}
+
+export class ElevenLabsSpeechProvider implements SpeechSynthesisProvider {
+  readonly id = 'elevenlabs' as const;
+  private service?: ElevenLabsTTSService;
+
+  isAvailable(): boolean {
+    return !!process.env.ELEVENLABS_API_KEY || isOfflineProviderMode();
+  }
+
+  private getService(): ElevenLabsTTSService {
+    this.service = this.service || new ElevenLabsTTSService(process.env.ELEVENLABS_API_KEY || '');
+    return this.service;
+  }
+
+  describeRequest(text: string, voice: SpeechVoice): SpeechCacheRequest {
+    return {
+      provider: this.id,
+      voiceId: toElevenLabsVoiceId(voice) || '',
+      model: `${ELEVENLABS_TTS_MODEL}/${DEFAULT_ELEVENLABS_OUTPUT_FORMAT}`,
+      voiceSettings: voice.voiceSettings,
+      text
+    };
+  }
+
+  async synthesize(text: string, voice: SpeechVoice, keepAudio = false): Promise<PreparedSpeech | null> {
+    const service = this.getService();
+    const stream = await service.streamSpeech(text, {
+      voiceId: toElevenLabsVoiceId(voice),
+      voiceName: voice.voiceName,
+      voiceSettings: voice.voiceSettings
+    });
+    if (!stream) return null;
+    if (!keepAudio) {
+      return { start: () => service.startSpeechStream(stream) };
+    }
+    // One copy plays as it arrives, the other is collected for the cache
+    const [playbackBody, keptBody] = stream.body.tee();
+    return {
+      start: () => service.startSpeechStream({ ...stream, body: playbackBody }),
+      audio: readWholeStream(keptBody)
+    };
+  }
+
+  playCached(audio: ArrayBuffer, text: string): Playback {
+    return this.getService().startSpeechStream({ body: new Blob([audio]).stream(), timings: createSpeechTimings(text) });
+  }
+}
+
+/**
+ * Gemini TTS. Returns the whole clip as 24 kHz PCM, so it starts later than ElevenLabs.
+ */
+export class GeminiSpeechProvider implements SpeechSynthesisProvider {
+  readonly id = 'gemini' as const;
+  private service?: TTSService;
+
+  isAvailable(): boolean {
+    return !!process.env.GEMINI_API_KEY && !isOfflineProviderMode();
+  }
+
+  private getService(): TTSService {
+    this.service = this.service || new TTSService(process.env.GEMINI_API_KEY || '');
+    return this.service;
+  }
+
+  describeRequest(text: string, voice: SpeechVoice): SpeechCacheRequest {
+    return { provider: this.id, voiceId: toGeminiVoiceName(voice), model: GEMINI_TTS_MODEL, text };
+  }
+
+  async synthesize(text: string, voice: SpeechVoice): Promise<PreparedSpeech | null> {
+    const service = this.getService();
+    const pcm = await service.generateSpeech(text, { voiceName: toGeminiVoiceName(voice) });
+    if (!pcm) {
+      throw new Error('Gemini TTS returned no audio');
+    }
+    return { start: () => service.startPCMAudio(pcm), audio: Promise.resolve(pcm) };
+  }
+
+  playCached(audio: ArrayBuffer): Playback {
+    return this.getService().startPCMAudio(audio);
+  }
+}
+
+/**
+ * The browser's own speechSynthesis. Needs no key or network, but the voices depend on the
+ * system and cannot be told apart reliably. Its audio never reaches the page, so it is not cached.
+ */
+export class BrowserSpeechProvider implements SpeechSynthesisProvider {
+  readonly id = 'browser' as const;
+
+  isAvailable(): boolean {
+    return typeof window !== 'undefined' && 'speechSynthesis' in window && !isOfflineProviderMode();
+  }
+
+  async synthesize(text: string, voice: SpeechVoice): Promise<PreparedSpeech | null> {
+    const traits = getVoiceTraits(voice);
+    return { start: () => this.speak(text, traits) };
+  }
+
+  private pickVoice(traits: VoiceTraits): SpeechSynthesisVoice | undefined {
+    const english = window.speechSynthesis.getVoices().filter(entry => entry.lang.toLowerCase().startsWith('en'));
+    const hints = BROWSER_VOICE_HINTS[traits.style] || [];
+    const hinted = english.filter(entry => {
+      const name = entry.name.toLowerCase();
+      // 'female' contains 'male', so male hints must not match female voices
+      if (traits.style === 'Male' && name.includes('female')) return false;
+      return hints.some(hint => name.includes(hint));
+    });
+    return hinted[0] || english[0];
+  }
+
+  private speak(text: string, traits: VoiceTraits): Playback {
+    const finished = new Promise<void>((resolve, reject) => {
+      const utterance = new SpeechSynthesisUtterance(text);
+      const systemVoice = this.pickVoice(traits);
+      if (systemVoice) utterance.voice = systemVoice;
+      utterance.pitch = BROWSER_PITCH[traits.pitch] ?? 1;
+      utterance.volume = audioPlaybackQueue.volume;
+      utterance.onend = () => resolve();
+      utterance.onerror = event => {
+        // Cancelled speech is not a failure
+        if (event.error === 'interrupted' || event.error === 'canceled') resolve();
+        else reject(new Error(`Browser speech failed: ${event.error}`));
+      };
+      window.speechSynthesis.speak(utterance);
+    });
+    // The browser speaks one utterance at a time, and the queue never starts a second
+    return {
+      finished,
+      pause: () => window.speechSynthesis.pause(),
+      resume: () => window.speechSynthesis.resume(),
+      stop: () => window.speechSynthesis.cancel(),
+      // An utterance keeps the volume it started with; the next one picks up the new level
+      setVolume: () => {}
+    };
+  }
+}
+
+export function getConfiguredSpeechProvider(): SpeechProviderId {
+  const requested = process.env.SPEECH_PROVIDER as SpeechProviderId | undefined;
+  const isKnown = SPEECH_PROVIDER_OPTIONS.some(option => option.id === requested);
+  if (requested && !isKnown) {
+    console.warn(`[Speech] Unknown SPEECH_PROVIDER "${requested}", falling back to ${DEFAULT_SPEECH_PROVIDER}`);
+  }
+  return requested && isKnown ? requested : DEFAULT_SPEECH_PROVIDER;
+}
+
+/**
+ * Speaks through the preferred provider and falls back to the others when it has no key or
+ * its request fails. With 'none' preferred nothing is spoken at all.
+ */
+export class SpeechSynthesisService {
+  private providers: SpeechSynthesisProvider[] = [new ElevenLabsSpeechProvider(), new GeminiSpeechProvider(), new BrowserSpeechProvider()];
+  private preferred: SpeechProviderId = getConfiguredSpeechProvider();
+  private consecutiveFailures = new Map<SpeechSynthesisProvider['id'], number>();
+
+  get isTextOnly(): boolean {
+    return this.preferred === 'none';
+  }
+
+  setPreferredProvider(id: SpeechProviderId): void {
+    if (id === this.preferred) return;
+    console.log(`[Speech] Preferred provider: ${id}`);
+    this.preferred = id;
+    this.consecutiveFailures.clear();
+  }
+
+  isProviderAvailable(id: SpeechProviderId): boolean {
+    return id === 'none' || this.providers.some(provider => provider.id === id && provider.isAvailable());
+  }
+
+  private providerOrder(): SpeechSynthesisProvider[] {
+    if (this.isTextOnly) return [];
+    const order = [this.preferred, ...FALLBACK_ORDER.filter(id => id !== this.preferred)];
+    return order
+      .map(id => this.providers.find(provider => provider.id === id))
+      .filter((provider): provider is SpeechSynthesisProvider =>
+        !!provider && provider.isAvailable() && (this.consecutiveFailures.get(provider.id) || 0) < MAX_CONSECUTIVE_FAILURES);
+  }
+
+  /**
+   * Speech for one sentence from the first provider that can produce it. A cached clip is
+   * played as is; a new one is stored once it has fully downloaded.
+   */
+  async synthesize(text: string, voice: SpeechVoice): Promise<PreparedSpeech | null> {
+    for (const provider of this.providerOrder()) {
+      // Surrounding whitespace does not change the audio, so it does not change the key either
+      const request = speechCache.isEnabled() ? provider.describeRequest?.(text.trim(), voice) : undefined;
+      const cacheKey = request && speechCache.keyFor(request);
+      if (cacheKey && provider.playCached) {
+        const clip = await speechCache.get(cacheKey);
+        if (clip) {
+          const playCached = provider.playCached.bind(provider);
+          return { start: () => playCached(clip.audio, text), cacheKey };
+        }
+      }
+
+      try {
+        const speech = await provider.synthesize(text, voice, !!cacheKey);
+        this.consecutiveFailures.set(provider.id, 0);
+        if (speech && cacheKey && speech.audio) {
+          speech.audio
+            .then(audio => speechCache.put(cacheKey, provider.id, audio))
+            .catch(error => console.warn('[Speech] Could not keep audio for the cache:', error));
+          return { ...speech, cacheKey };
+        }
+        return speech;
+      } catch (error) {
+        const failures = (this.consecutiveFailures.get(provider.id) || 0) + 1;
+        this.consecutiveFailures.set(provider.id, failures);
+        console.warn(`[Speech] ${provider.id} failed${failures >= MAX_CONSECUTIVE_FAILURES ? ', skipping it from now on' : ''}; trying the next provider:`, error);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Speaks a finished line through the playback queue. prepareText turns the line as shown
+   * into what is spoken; the line is remembered as shown, so its chat message can be replayed.
+   * Resolves once the line has played, been skipped or been cut off.
+   */
+  async speak(
+    text: string,
+    voice: SpeechVoice,
+    playback: PlaybackLineOptions,
+    prepareText: (line: string) => string = line => line
+  ): Promise<void> {
+    const spoken = prepareText(text);
+    if (!spoken.trim()) return;
+    // Queued before synthesis, so the line keeps its place while the audio is generated
+    const line = audioPlaybackQueue.openLine(playback);
+    try {
+      const speech = await this.synthesize(spoken, voice);
+      if (!speech) return;
+      if (speech.cacheKey) {
+        speechCache.rememberLine(lineSpeaker(playback), text, [speech.cacheKey]);
+      }
+      await line.play(() => speech.start());
+    } finally {
+      line.close();
+      await line.finished;
+    }
+  }
+
+  /**
+   * Speaks text as it streams in: each completed sentence is requested right away and queued
+   * for playback in order. Once finished, the whole line is remembered for replay if every
+   * sentence went through the cache. Sentences that complete after the line was skipped are
+   * not synthesized at all.
+   */
+  createSentencePipeline(
+    voice: SpeechVoice,
+    playback: PlaybackLineOptions,
+    prepareText: (sentence: string) => string = sentence => sentence
+  ): StreamingSpeech {
+    let line = '';
+    const clipKeys: Array<string | undefined> = [];
+    const queuedLine = audioPlaybackQueue.openLine(playback);
+    const pipeline = new SentenceSpeechPipeline<PreparedSpeech>({
+      synthesize: sentence => {
+        const text = prepareText(sentence);
+        if (!text.trim() || queuedLine.isCancelled) return Promise.resolve(null);
+        const slot = clipKeys.push(undefined) - 1;
+        return this.synthesize(text, voice).then(speech => {
+          clipKeys[slot] = speech?.cacheKey;
+          return speech;
+        });
+      },
+      play: speech => queuedLine.play(() => speech.start())
+    });
+
+    return {
+      push: delta => {
+        line += delta;
+        pipeline.push(delta);
+      },
+      finish: async () => {
+        try {
+          await pipeline.finish();
+        } finally {
+          queuedLine.close();
+        }
+        await queuedLine.finished;
+        if (clipKeys.length && clipKeys.every(key => key)) {
+          speechCache.rememberLine(lineSpeaker(playback), line, clipKeys as string[]);
+        }
+      }
+    };
+  }
+
+  /**
+   * Plays a speaker's line again from the speech cache, without calling any provider. Resolves
+   * to false when the line was never cached or its audio has since been evicted.
+   */
+  async replayLine(speaker: string, text: string, playback: PlaybackLineOptions): Promise<boolean> {
+    const clips = await speechCache.getLine(speaker, text);
+    if (!clips) {
+      console.log('[Speech] Line is not in the speech cache');
+      return false;
+    }
+    const line = audioPlaybackQueue.openLine(playback);
+    clips.forEach(clip => {
+      const provider = this.providers.find(entry => entry.id === clip.provider);
+      const playCached = provider?.playCached?.bind(provider);
+      if (playCached) {
+        line.play(() => playCached(clip.audio, text));
+      }
+    });
+    line.close();
+    await line.finished;
+    return true;
+  }
+}
+
+export const speechSynthesisService = new SpeechSynthesisService();
@@ -0,0 +1,164 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { ChatMessageKind } from './chat-messages';
+import { QuestObjective } from './quests';
+import { WorldModel } from './world-model';
+
+export type StoryArcStage = 'setup' | 'rising_action' | 'climax' | 'resolution';
+
+export const STORY_ARC_STAGES: StoryArcStage[] = ['setup', 'rising_action', 'climax', 'resolution'];
+
+export const STORY_ARC_LABELS: Record<StoryArcStage, string> = {
+  setup: 'Setup',
+  rising_action: 'Rising action',
+  climax: 'Climax',
+  resolution: 'Resolution'
+};
+
+interface StageBudget {
+  minTurns: number; // The Story Weaver cannot move the arc on before this
+  maxTurns: number; // Past this the arc moves on by itself
+  guidance: string;
+}
+
+// Resolution has no budget: reaching it ends the adventure
+const STAGE_BUDGETS: Record<Exclude<StoryArcStage, 'resolution'>, StageBudget> = {
+  setup: {
+    minTurns: 2,
+    maxTurns: 6,
+    guidance: 'Establish the world, the companion and what is at stake, and point the player toward the main quest.'
+  },
+  rising_action: {
+    minTurns: 4,
+    maxTurns: 16,
+    guidance: 'Raise the stakes with complications, allies, enemies and clues that lead toward the main quest.'
+  },
+  climax: {
+    minTurns: 2,
+    maxTurns: 6,
+    guidance: 'Play out the decisive confrontation or choice of the main quest. Bring the open threads together and make the player act.'
+  }
+};
+
+// Turns before a stage's maximum at which the Story Weaver is told to wrap it up
+const WRAP_UP_WARNING_TURNS = 2;
+
+/**
+ * Where the adventure is in its story arc. Turns count the player's turns outside a fight,
+ * including direct conversations with NPCs, plus one for each fight once it ends; the combat
+ * rounds in between do not move the arc.
+ */
+export interface StoryArc {
+  stage: StoryArcStage;
+  turn: number;
+  stageStartedAt: number; // Turn on which the current stage began
+}
+
+export function createStoryArc(): StoryArc {
+  return { stage: 'setup', turn: 0, stageStartedAt: 0 };
+}
+
+const nextStage = (stage: StoryArcStage): StoryArcStage =>
+  STORY_ARC_STAGES[Math.min(STORY_ARC_STAGES.indexOf(stage) + 1, STORY_ARC_STAGES.length - 1)];
+
+/**
+ * Counts a turn and moves the arc on. The Story Weaver proposes a stage, but the arc only moves
+ * one stage at a time and never before the stage's minimum; once a stage runs past its
+ * maximum the arc moves on by itself, so every adventure reaches an end.
+ */
+export function advanceStoryArc(arc: StoryArc, proposedStage?: StoryArcStage): StoryArc {
+  const next: StoryArc = { ...arc, turn: arc.turn + 1 };
+  if (arc.stage === 'resolution') return next;
+
+  const budget = STAGE_BUDGETS[arc.stage];
+  const turnsInStage = next.turn - arc.stageStartedAt;
+  const isProposedLater = !!proposedStage && STORY_ARC_STAGES.indexOf(proposedStage) > STORY_ARC_STAGES.indexOf(arc.stage);
+  if ((isProposedLater && turnsInStage >= budget.minTurns) || turnsInStage >= budget.maxTurns) {
+    console.log(`[StoryArc] ${STORY_ARC_LABELS[arc.stage]} -> ${STORY_ARC_LABELS[nextStage(arc.stage)]} on turn ${next.turn}${isProposedLater ? '' : ' (stage ran long)'}`);
+    return { ...next, stage: nextStage(arc.stage), stageStartedAt: next.turn };
+  }
+  return next;
+}
+
+/**
+ * Jumps straight to the resolution, e.g. once the main quest is completed.
+ */
+export function resolveStoryArc(arc: StoryArc): StoryArc {
+  return arc.stage === 'resolution' ? arc : { ...arc, stage: 'resolution', stageStartedAt: arc.turn };
+}
+
+export function describeArcForPrompt(arc: StoryArc): string {
+  if (arc.stage === 'resolution') {
+    return 'Resolution: the main story is over. The player is free to wander; keep scenes calm and reflective.';
+  }
+  const budget = STAGE_BUDGETS[arc.stage];
+  const turnsInStage = arc.turn - arc.stageStartedAt;
+  const lines = [
+    `${STORY_ARC_LABELS[arc.stage]} (turn ${arc.turn + 1}, ${turnsInStage} turn(s) into this stage)`,
+    budget.guidance
+  ];
+  if (turnsInStage >= budget.maxTurns - WRAP_UP_WARNING_TURNS) {
+    lines.push(`This stage has run long: move the story into the ${STORY_ARC_LABELS[nextStage(arc.stage)].toLowerCase()} within the next turn or two.`);
+  }
+  if (arc.stage === 'climax') {
+    lines.push('Once the decisive moment has played out, whether the player won, lost or walked away, set arcStage to "resolution" to end the adventure.');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * How the adventure ended. The Story Weaver picks one from what the player achieved and chose.
+ */
+export type EndingType = 'triumph' | 'bittersweet' | 'tragic' | 'open';
+
+export const ENDING_TYPES: EndingType[] = ['triumph', 'bittersweet', 'tragic', 'open'];
+
+export const ENDING_LABELS: Record<EndingType, string> = {
+  triumph: 'Triumph',
+  bittersweet: 'Bittersweet ending',
+  tragic: 'Tragic ending',
+  open: 'Open ending'
+};
+
+export interface AdventureStats {
+  turns: number;
+  locationsVisited: number;
+  relationshipLevel: number;
+  objectivesCompleted: number;
+  objectivesTotal: number;
+  charactersMet: number; // Secondary NPCs, not counting the companion
+}
+
+export function computeAdventureStats(
+  chatHistory: Array<{ kind: ChatMessageKind }>,
+  world: WorldModel,
+  quests: QuestObjective[],
+  relationshipLevel: number,
+  charactersMet: number
+): AdventureStats {
+  return {
+    turns: chatHistory.filter(msg => msg.kind === 'player').length,
+    locationsVisited: Object.values(world.locations).filter(location => location.visited).length,
+    relationshipLevel,
+    objectivesCompleted: quests.filter(objective => objective.status === 'completed').length,
+    objectivesTotal: quests.length,
+    charactersMet
+  };
+}
+
+/**
+ * The epilogue played once the story arc reaches its resolution. Its image lives on the chat
+ * message so saves and exports carry it only once.
+ */
+export interface AdventureEnding {
+  endingType: EndingType;
+  title: string; // Name of this ending
+  questTitle: string;
+  mainQuestCompleted: boolean;
+  narrationText: string;
+  partingWords?: string; // The companion's goodbye, when they were met
+  messageId: number; // The epilogue narration
+  stats: AdventureStats;
+}
@@ -2,31 +2,127 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
  */
-import { GroqService, cleanJsonResponse } from './groq-service';
+import { GroqService } from './groq-service';
+import { extractPartialJsonString } from './streaming-text';
 import { VOICE_OPTIONS } from './ai-data';
 import { Genre } from './ai-data-types';
+import { WorldModel, WorldPatch, WORLD_PATCH_INSTRUCTIONS, describeWorldForPrompt } from './world-model';
+import { Infer, s } from './structured-output';
+import { InventoryItem, describeInventoryForPrompt } from './inventory';
+import { QuestObjective, describeQuestsForPrompt, getMainQuest } from './quests';
+import { MAX_DIFFICULTY, MIN_DIFFICULTY, STAT_NAMES, SkillCheckResult, describeSkillCheckForPrompt } from './skill-checks';
+import { SecondaryNpc, describeNpcsForPrompt, findNpcByName, npcsAt } from './npcs';
+import { COMPANION_TACTICS, CombatEvent, ENCOUNTER_SCHEMA, ENEMY_THREATS, Encounter, MAX_ENEMIES, MAX_LOOT, describeEncounterForPrompt } from './combat';
+import { HistoryEntry, formatHistoryForPrompt } from './chat-messages';
+import { looksLikeSpeech } from './input-classifier';
+import { ENDING_TYPES, STORY_ARC_STAGES, StoryArc, describeArcForPrompt } from './story-arc';
+import { PACING_BEATS, PacingDirective, describePacingForPrompt } from './pacing-director';
+import { PlayerCharacter, describePlayerForPrompt } from './player-character';
+import { MAX_SCENE_TAGS, SCENE_TAGS } from './soundscape';
 
 export interface GameState {
     genre: Genre;
+    player: PlayerCharacter;
     currentScene: string;
-    chatHistory: Array<{ sender: 'user' | 'companion'; text: string; imageUrl?: string }>;
+    chatHistory: HistoryEntry[]; // Story messages only; system notices are left out
     isCompanionPresent: boolean;
     companionName?: string;
     companionDescription?: string;
-    worldSetting: string;
+    companionTraits?: string;
+    world: WorldModel;
+    inventory: InventoryItem[];
+    quests: QuestObjective[];
+    npcs: SecondaryNpc[];
+    tabletopMode: boolean;
+    storyArc: StoryArc;
+    pacing?: PacingDirective; // Only set for the turn the director was asked about
     recentSceneElements: string[];
 }
 
-export interface StoryWeaverDecision {
-    responseType: 'exploration' | 'dialogue_attempt' | 'companion_dialogue' | 'companion_introduction' | 'examination';
-    reasoning: string;
-    shouldGenerateImage: boolean;
-    narratorVoice: string;
-    responseText?: string;
-    imagePrompt?: string;
-    companionFirstWords?: string;
+const STORY_DECISION_SCHEMA = s.object({
+    responseType: s.enum(['exploration', 'dialogue_attempt', 'companion_dialogue', 'companion_introduction', 'examination', 'take_item', 'use_item', 'combat', 'npc_introduction', 'npc_dialogue']),
+    reasoning: s.string(),
+    shouldGenerateImage: s.boolean(),
+    narratorVoice: s.string(),
+    responseText: s.optional(s.string()),
+    imagePrompt: s.optional(s.string()),
+    companionFirstWords: s.optional(s.string()),
+    item: s.optional(s.object({
+        name: s.string({ minLength: 1 }),
+        description: s.string(),
+        tags: s.array(s.string())
+    })),
+    itemName: s.optional(s.string()),
+    consumesItem: s.optional(s.boolean()),
+    skillCheck: s.optional(s.object({
+        stat: s.enum(STAT_NAMES),
+        difficulty: s.number({ integer: true }),
+        actor: s.enum(['player', 'companion']),
+        reason: s.string()
+    })),
+    encounter: s.optional(ENCOUNTER_SCHEMA),
+    npc: s.optional(s.object({
+        name: s.string({ minLength: 1 }),
+        description: s.string()
+    })),
+    npcName: s.optional(s.string()),
+    questUpdates: s.optional(s.array(s.object({
+        objectiveId: s.string({ minLength: 1 }),
+        progressNote: s.string(),
+        completed: s.boolean()
+    }))),
+    arcStage: s.optional(s.enum(STORY_ARC_STAGES)),
+    pacingBeat: s.optional(s.enum([...PACING_BEATS, 'none'])),
+    worldPatch: s.optional(s.freeform<WorldPatch>())
+});
+
+export type StoryWeaverDecision = Infer<typeof STORY_DECISION_SCHEMA>;
+
+const EXPLORATION_SCHEMA = s.object({
+    narrationText: s.string({ minLength: 1 }),
+    imagePrompt: s.optional(s.string()),
+    sceneTags: s.optional(s.array(s.string())),
+    worldPatch: s.optional(s.freeform<WorldPatch>())
+});
+
+export type ExplorationResponse = Infer<typeof EXPLORATION_SCHEMA>;
+
+const COMPANION_INTRODUCTION_SCHEMA = s.object({
+    narrationText: s.string({ minLength: 1 }),
+    imagePrompt: s.string({ minLength: 1 }),
+    companionFirstWords: s.string({ minLength: 1 })
+});
+
+export type CompanionIntroduction = Infer<typeof COMPANION_INTRODUCTION_SCHEMA>;
+
+const EPILOGUE_SCHEMA = s.object({
+    endingType: s.enum(ENDING_TYPES),
+    title: s.string({ minLength: 1 }),
+    narrationText: s.string({ minLength: 1 }),
+    partingWords: s.string(),
+    imagePrompt: s.string({ minLength: 1 })
+});
+
+export type Epilogue = Infer<typeof EPILOGUE_SCHEMA>;
+
+/**
+ * What the player did over the whole adventure, for the epilogue to look back on.
+ */
+export interface EpilogueRecap {
+    playerActions: string[]; // Everything the player said or did, oldest first
+    companionMemories: string[]; // The companion's summaries of earlier parts of the story
+    relationshipLevel: number;
 }
 
+// Player actions quoted in the epilogue prompt; the companion's memories cover the rest
+const MAX_RECAP_ACTIONS = 30;
+
+const COMBAT_NARRATION_SCHEMA = s.object({
+    narrationText: s.string({ minLength: 1 })
+});
+
+export type CombatNarration = Infer<typeof COMBAT_NARRATION_SCHEMA>;
+
 export class StoryWeaverService {
     private groqService: GroqService;
 
@@ -39,9 +135,17 @@ export class StoryWeaverService {
             console.log('[StoryWeaver] Analyzing user input:', userInput);
             
             const availableVoiceNames = VOICE_OPTIONS.map(v => v.name);
-            const recentHistory = gameState.chatHistory.slice(-3).map(msg => 
-                `${msg.sender === 'user' ? 'Player' : 'Narrator'}: ${msg.text}`
-            ).join('\n');
+            const recentHistory = formatHistoryForPrompt(gameState.chatHistory.slice(-3));
+
+            const skillCheckInstructions = gameState.tabletopMode ? `
+SKILL CHECKS (tabletop mode is on):
+If the player attempts something risky or uncertain (climbing, sneaking, forcing, persuading, recalling obscure lore), add "skillCheck" and use responseType exploration; the outcome is narrated after the dice are rolled, so leave responseText empty.
+- stat: ${STAT_NAMES.join(', ')}
+- difficulty: ${MIN_DIFFICULTY} (easy) to ${MAX_DIFFICULTY} (nearly impossible); 10 is a typical challenge, 15 is hard
+- actor: "player", or "companion" when the player asks the companion to do it (only if the companion is present)
+- reason: a few words on what is being attempted
+Do not call for checks on safe, routine actions, on conversation with the companion, or twice in a row for the same thing.
+` : '';
 
             const prompt = `You are the Story Weaver, the dungeon master of an interactive ${gameState.genre} adventure. 
 Your role is to analyze player input and decide how the story should respond to maintain narrative flow and engagement.
@@ -51,9 +155,30 @@ CURRENT GAME STATE:
 - Current Scene: ${gameState.currentScene}
 - Companion Present: ${gameState.isCompanionPresent}
 - Companion Name: ${gameState.companionName || 'None'}
-- World Setting: ${gameState.worldSetting}
+- Companion Personality: ${gameState.companionTraits || 'Unknown'}
 - Recent Scene Elements: ${gameState.recentSceneElements.join(', ') || 'None'}
 
+THE PLAYER:
+${describePlayerForPrompt(gameState.player)}
+
+ESTABLISHED WORLD:
+${describeWorldForPrompt(gameState.world)}
+
+PLAYER INVENTORY:
+${describeInventoryForPrompt(gameState.inventory)}
+
+QUESTS:
+${describeQuestsForPrompt(gameState.quests)}
+
+OTHER CHARACTERS HERE (besides the companion):
+${describeNpcsForPrompt(gameState.npcs, gameState.world.currentLocation)}
+
+STORY ARC:
+${describeArcForPrompt(gameState.storyArc)}
+${gameState.pacing ? `
+PACING:
+${describePacingForPrompt(gameState.pacing)}
+` : ''}
 RECENT CONVERSATION:
 ${recentHistory || 'Adventure just beginning'}
 
@@ -67,55 +192,133 @@ Analyze this input and decide the most appropriate narrative response. Consider:
 
 RESPONSE TYPES:
 - exploration: Player is moving/exploring, generate new scene with image (shouldGenerateImage: true)
-- dialogue_attempt: Player trying to talk but no one present, acknowledge attempt (shouldGenerateImage: false)
-- companion_dialogue: Player talking to present companion (shouldGenerateImage: false)
+- dialogue_attempt: Player trying to talk but no one is present to answer, acknowledge attempt (shouldGenerateImage: false)
+- companion_dialogue: Player talking to present companion (shouldGenerateImage: false). The companion travels with the player, so moving, searching, taking or using things stays exploration, examination, take_item or use_item even when the companion is present; they react to those on their own.
 - companion_introduction: Time to introduce the companion character (shouldGenerateImage: true)
 - examination: Player examining something in current scene. Use shouldGenerateImage: true if the examination reveals significant new visual details, locations, or objects that would benefit from an image. Use shouldGenerateImage: false for simple observations.
+- take_item: Player picks up or takes an object that could plausibly be here. Fill in "item" and narrate the taking in responseText (shouldGenerateImage: false)
+- use_item: Player uses something from their inventory. Set "itemName" to the item's exact inventory name, "consumesItem" to true if it is used up, and narrate the result in responseText (shouldGenerateImage: false). If the player does not carry the item, use examination or dialogue_attempt instead and narrate that they do not have it.
+- npc_introduction: A new character other than the companion appears or is found here (a shopkeeper, a guard, a stranger). Fill in "npc" with a short distinct name and a one-sentence first impression, narrate their arrival in responseText without writing their dialogue, and describe them in imagePrompt (shouldGenerateImage: true). Introduce characters sparingly and never one that already exists.
+- npc_dialogue: Player speaks to one of the OTHER CHARACTERS HERE. Set "npcName" to their exact name (shouldGenerateImage: false); they answer for themselves.
+- combat: A fight breaks out, because the player attacks someone or something hostile attacks them. Fill in "encounter", narrate the moment the fight begins in responseText without resolving any blows, and describe the confrontation in imagePrompt (shouldGenerateImage: true). Only start combat when violence is the natural next beat, never for a mild disagreement.
 
 Respond with JSON:
 {
-  "responseType": "exploration|dialogue_attempt|companion_dialogue|companion_introduction|examination",
+  "responseType": "exploration|dialogue_attempt|companion_dialogue|companion_introduction|examination|take_item|use_item|combat|npc_introduction|npc_dialogue",
   "reasoning": "Brief explanation of why this response type was chosen",
   "shouldGenerateImage": true/false,
   "narratorVoice": "voice_name_from_list",
-  "responseText": "The actual narrative response (for dialogue_attempt/examination types)",
+  "responseText": "The actual narrative response (for dialogue_attempt/examination/take_item/use_item/combat/npc_introduction types)",
   "imagePrompt": "Image prompt if shouldGenerateImage is true",
-  "companionFirstWords": "What companion says when introduced (companion_introduction only)"
+  "companionFirstWords": "What companion says when introduced (companion_introduction only)",
+  "item": { "name": "Item name", "description": "One sentence", "tags": ["key", "weapon", "light", "healing", "consumable", ...] } (take_item only),
+  "itemName": "Exact inventory name (use_item only)",
+  "consumesItem": true/false (use_item only),
+  "npc": { "name": "...", "description": "One sentence" } (npc_introduction only),
+  "npcName": "Exact name from OTHER CHARACTERS HERE (npc_dialogue only)",
+  "encounter": { "enemies": [{ "name": "Short distinct name", "description": "One sentence", "threat": "${ENEMY_THREATS.join('|')}" }], "companionTactic": "${COMPANION_TACTICS.join('|')}", "loot": [{ "name": "...", "description": "...", "tags": [...] }], "defeatConsequence": "What happens if the player loses, short of death" } (combat only, 1-${MAX_ENEMIES} enemies, up to ${MAX_LOOT} loot items; pick companionTactic from the companion's personality),
+${gameState.tabletopMode ? `  "skillCheck": { "stat": "might|agility|wits|presence", "difficulty": 10, "actor": "player|companion", "reason": "..." } (risky actions only),\n` : ''}  "questUpdates": [{ "objectiveId": "id in brackets from QUESTS", "progressNote": "One short line on what the player achieved", "completed": true/false }],
+  "arcStage": "${STORY_ARC_STAGES.join('|')}",
+  "pacingBeat": "${PACING_BEATS.join('|')}|none" (the beat this turn delivers),
+  "worldPatch": {}
 }
 
+${skillCheckInstructions}
+QUEST UPDATES:
+Only add an entry to questUpdates when this action clearly moves an active objective forward, and set completed to true only once the objective is fully achieved. Most turns leave questUpdates empty. The main quest should take real effort across many turns; never complete it early, and when you do, narrate the moment of triumph in responseText.
+
+STORY ARC:
+Set arcStage to the stage the story is in after this turn. Keep the current stage until its work is done, then move one stage on. Steer the scenes, characters and dangers you introduce toward the climax, where the main quest is won or lost. The adventure ends when the arc reaches resolution, so only set it once the climax has played out.
+${gameState.pacing ? `
+PACING:
+Set pacingBeat to the beat this turn delivers, or "none". A required beat must land this turn, shaped around whatever the player did; a suggested one only when it fits.
+` : ''}
+${WORLD_PATCH_INSTRUCTIONS}
+Only fill in worldPatch for dialogue_attempt, examination, take_item and use_item; other response types update the world when their scene is generated. The player's inventory is tracked separately, so do not add carried items to worldPatch.items.
+
 IMPORTANT:
-- Set shouldGenerateImage to true for exploration and companion_introduction
+- Set shouldGenerateImage to true for exploration, companion_introduction, npc_introduction and combat
 - For examination: set shouldGenerateImage to true if the player discovers something visually significant (new objects, hidden areas, detailed clues, etc.), false for simple observations
-- Set shouldGenerateImage to false for dialogue_attempt and companion_dialogue
+- Set shouldGenerateImage to false for dialogue_attempt, companion_dialogue and npc_dialogue
 
 Available narrator voices: ${availableVoiceNames.join(', ')}
 
 IMPORTANT: Choose responseType based on narrative logic, not just input classification. Consider story pacing and engagement.`;
 
-            const response = await this.groqService.generateResponse(
+            const decision = await this.groqService.generateStructured(
                 "You are a master storyteller and dungeon master. Always respond with valid JSON only.",
                 prompt,
-                true,
+                STORY_DECISION_SCHEMA,
                 {
+                    purpose: 'story_decision',
                     useCreativeModel: true,
                     temperature: 0.8
                 }
             );
 
-            const decision = JSON.parse(cleanJsonResponse(response));
-            
-            // Validate and set defaults
-            const validResponseTypes = ['exploration', 'dialogue_attempt', 'companion_dialogue', 'companion_introduction', 'examination'];
-            if (!validResponseTypes.includes(decision.responseType)) {
+            // Item decisions without their item fall back to a plain examination
+            if ((decision.responseType === 'take_item' && !decision.item) || (decision.responseType === 'use_item' && !decision.itemName)) {
+                console.warn(`[StoryWeaver] ${decision.responseType} decision is missing its item, treating as examination`);
+                decision.responseType = 'examination';
+            }
+
+            // NPC decisions must name someone who can answer; meeting someone twice is a conversation
+            const npcsHere = npcsAt(gameState.npcs, gameState.world.currentLocation);
+            if (decision.responseType === 'npc_introduction') {
+                const existing = decision.npc && findNpcByName(npcsHere, decision.npc.name);
+                if (!decision.npc) {
+                    console.warn('[StoryWeaver] npc_introduction decision is missing its npc, treating as exploration');
+                    decision.responseType = 'exploration';
+                } else if (existing) {
+                    decision.responseType = 'npc_dialogue';
+                    decision.npcName = existing.name;
+                }
+            }
+            if (decision.responseType === 'npc_dialogue') {
+                const npc = findNpcByName(npcsHere, decision.npcName || '');
+                if (npc) {
+                    decision.npcName = npc.name;
+                } else {
+                    console.warn(`[StoryWeaver] npc_dialogue names no one here ("${decision.npcName}"), treating as ${gameState.isCompanionPresent ? 'companion_dialogue' : 'dialogue_attempt'}`);
+                    decision.responseType = gameState.isCompanionPresent ? 'companion_dialogue' : 'dialogue_attempt';
+                    if (!gameState.isCompanionPresent) {
+                        decision.responseText = decision.responseText || 'No one by that name is here to answer you.';
+                    }
+                }
+            }
+            if (decision.responseType !== 'npc_introduction') {
+                delete decision.npc;
+            }
+
+            // A fight needs someone to fight
+            if (decision.responseType === 'combat' && !decision.encounter?.enemies.length) {
+                console.warn('[StoryWeaver] Combat decision has no enemies, treating as exploration');
                 decision.responseType = 'exploration';
             }
+            if (decision.responseType !== 'combat') {
+                delete decision.encounter;
+            }
+
+            // Risky actions are narrated through the exploration prompt so the story follows the roll;
+            // checks are dropped outside tabletop mode and for conversation
+            if (decision.skillCheck) {
+                if (!gameState.tabletopMode || ['companion_dialogue', 'companion_introduction', 'dialogue_attempt', 'combat', 'npc_introduction', 'npc_dialogue'].includes(decision.responseType)) {
+                    delete decision.skillCheck;
+                } else {
+                    if (decision.skillCheck.actor === 'companion' && !gameState.isCompanionPresent) {
+                        decision.skillCheck.actor = 'player';
+                    }
+                    decision.responseType = 'exploration';
+                }
+            }
 
+            // Set defaults the schema leaves open
             if (!availableVoiceNames.includes(decision.narratorVoice)) {
                 decision.narratorVoice = availableVoiceNames[Math.floor(Math.random() * availableVoiceNames.length)];
             }
 
             // Ensure correct shouldGenerateImage setting and imagePrompt
-            if (decision.responseType === 'exploration' || decision.responseType === 'companion_introduction') {
+            if (decision.responseType === 'exploration' || decision.responseType === 'companion_introduction' || decision.responseType === 'combat' || decision.responseType === 'npc_introduction') {
                 decision.shouldGenerateImage = true;
             } else if (decision.responseType === 'examination') {
                 // Keep the AI's decision for examination images
@@ -130,6 +333,10 @@ IMPORTANT: Choose responseType based on narrative logic, not just input classifi
                     decision.imagePrompt = `A mysterious ${gameState.genre.toLowerCase()} scene showing the area the player is exploring, atmospheric and detailed`;
                 } else if (decision.responseType === 'companion_introduction') {
                     decision.imagePrompt = `${gameState.companionDescription} appearing in ${gameState.currentScene}, ${gameState.genre.toLowerCase()} style`;
+                } else if (decision.responseType === 'npc_introduction') {
+                    decision.imagePrompt = `${decision.npc!.name}, ${decision.npc!.description}, in ${gameState.currentScene}, ${gameState.genre.toLowerCase()} style`;
+                } else if (decision.responseType === 'combat') {
+                    decision.imagePrompt = `A tense ${gameState.genre.toLowerCase()} confrontation in ${gameState.currentScene}, dramatic and dynamic`;
                 } else if (decision.responseType === 'examination') {
                     decision.imagePrompt = `Close-up view of what the player is examining in ${gameState.currentScene}, ${gameState.genre.toLowerCase()} style, detailed and atmospheric`;
                 }
@@ -146,7 +353,8 @@ IMPORTANT: Choose responseType based on narrative logic, not just input classifi
                 voice: decision.narratorVoice,
                 shouldGenerateImage: decision.shouldGenerateImage,
                 hasImagePrompt: !!decision.imagePrompt,
-                hasResponseText: !!decision.responseText
+                hasResponseText: !!decision.responseText,
+                skillCheck: decision.skillCheck ? `${decision.skillCheck.stat} ${decision.skillCheck.difficulty}` : 'none'
             });
 
             return decision;
@@ -164,16 +372,16 @@ IMPORTANT: Choose responseType based on narrative logic, not just input classifi
         // Simple fallback logic
         const input = userInput.toLowerCase();
         
-        if (gameState.isCompanionPresent) {
+        if (gameState.isCompanionPresent && looksLikeSpeech(userInput, gameState.companionName)) {
             return {
                 responseType: 'companion_dialogue',
-                reasoning: 'Companion is present, defaulting to dialogue',
+                reasoning: 'Companion is present and the player is talking',
                 shouldGenerateImage: false,
                 narratorVoice: randomVoice
             };
         }
         
-        if (input.includes('hello') || input.includes('hi') || input.includes('say') || input.includes('talk')) {
+        if (!gameState.isCompanionPresent && (input.includes('hello') || input.includes('hi') || input.includes('say') || input.includes('talk'))) {
             return {
                 responseType: 'dialogue_attempt',
                 reasoning: 'Player attempting dialogue with no one present',
@@ -201,54 +409,92 @@ IMPORTANT: Choose responseType based on narrative logic, not just input classifi
         };
     }
 
-    async generateExplorationResponse(userAction: string, gameState: GameState): Promise<{
-        narrationText: string;
-        imagePrompt?: string;
-    }> {
+    /**
+     * When onNarrationProgress is given the response is streamed, and the callback receives
+     * the narration text decoded so far each time it grows. A resolved skill check decides
+     * whether the action succeeds.
+     */
+    async generateExplorationResponse(
+        userAction: string,
+        gameState: GameState,
+        onNarrationProgress?: (narrationText: string) => void,
+        skillCheck?: SkillCheckResult
+    ): Promise<ExplorationResponse> {
         try {
-            const recentHistory = gameState.chatHistory.slice(-2).map(msg => 
-                `${msg.sender === 'user' ? 'Player' : 'Narrator'}: ${msg.text}`
-            ).join('\n');
+            const recentHistory = formatHistoryForPrompt(gameState.chatHistory.slice(-2));
 
             const recentElementsText = gameState.recentSceneElements.length > 0
                 ? `\nRecent scene elements to avoid repeating: ${gameState.recentSceneElements.join(', ')}`
                 : '';
 
+            const checkActor = skillCheck?.actor === 'companion' ? gameState.companionName || 'The companion' : 'The player';
+            const skillCheckText = skillCheck
+                ? `\nACTION OUTCOME (already decided, narrate it faithfully):\n${describeSkillCheckForPrompt(skillCheck, checkActor)}\n`
+                : '';
+
             const prompt = `You are crafting the next scene in a ${gameState.genre} adventure story.
 
 CURRENT CONTEXT:
-- World Setting: ${gameState.worldSetting}
 - Current Scene: ${gameState.currentScene}
 - Player Action: ${userAction}${recentElementsText}
 
+THE PLAYER:
+${describePlayerForPrompt(gameState.player)}
+
+ESTABLISHED WORLD:
+${describeWorldForPrompt(gameState.world)}
+
+QUESTS (let discoveries hint at ways to progress the active ones):
+${describeQuestsForPrompt(gameState.quests)}
+
+PLAYER INVENTORY (only these items are carried; never have the player use anything else they hold):
+${describeInventoryForPrompt(gameState.inventory)}
+
 RECENT STORY:
 ${recentHistory}
-
+${skillCheckText}${gameState.pacing?.beat ? `\nPACING (let this scene carry the beat if it fits):\n${describePacingForPrompt(gameState.pacing)}\n` : ''}
 Create a compelling scene that PROGRESSES the story. The player's action should lead to discovery, change, or advancement.
 
 Respond with JSON:
 {
   "narrationText": "2-4 sentences describing what happens next, written in second person (you/your)",
-  "imagePrompt": "Detailed visual description for image generation of the new scene"
+  "imagePrompt": "Detailed visual description for image generation of the new scene",
+  "sceneTags": ["0-${MAX_SCENE_TAGS} of: ${SCENE_TAGS.join(', ')}, for the scene's background sound"],
+  "worldPatch": {}
 }
 
+${WORLD_PATCH_INSTRUCTIONS}
+If the player moves somewhere new, set worldPatch.currentLocation and describe the location with its exits.
+
 Focus on:
 - Clear progression from current situation
 - New elements, locations, or discoveries
 - Compelling mysteries, dangers, or phenomena
 - Environmental storytelling and atmosphere`;
 
-            const response = await this.groqService.generateResponse(
-                "You are a creative storyteller crafting immersive adventure scenes.",
-                prompt,
-                true,
-                {
-                    useCreativeModel: true,
-                    temperature: 1.1
+            const systemPrompt = "You are a creative storyteller crafting immersive adventure scenes.";
+            const options = {
+                purpose: 'exploration' as const,
+                useCreativeModel: true,
+                temperature: 1.1
+            };
+
+            if (!onNarrationProgress) {
+                return await this.groqService.generateStructured(systemPrompt, prompt, EXPLORATION_SCHEMA, options);
+            }
+
+            let response = '';
+            let narrationSoFar = '';
+            for await (const delta of this.groqService.streamResponse(systemPrompt, prompt, true, options)) {
+                response += delta;
+                const narration = extractPartialJsonString(response, 'narrationText');
+                if (narration && narration.length > narrationSoFar.length) {
+                    narrationSoFar = narration;
+                    onNarrationProgress(narration);
                 }
-            );
+            }
 
-            return JSON.parse(cleanJsonResponse(response));
+            return await this.groqService.parseStructured(response, systemPrompt, prompt, EXPLORATION_SCHEMA, options);
 
         } catch (error) {
             console.error('[StoryWeaver] Failed to generate exploration response:', error);
@@ -258,21 +504,20 @@ Focus on:
         }
     }
 
-    async generateCompanionIntroduction(userInput: string, gameState: GameState): Promise<{
-        narrationText: string;
-        imagePrompt: string;
-        companionFirstWords: string;
-    }> {
+    async generateCompanionIntroduction(userInput: string, gameState: GameState): Promise<CompanionIntroduction> {
         try {
             const prompt = `You are introducing the companion character in a ${gameState.genre} adventure.
 
 CONTEXT:
 - Current Scene: ${gameState.currentScene}
-- World Setting: ${gameState.worldSetting}
+- World Setting: ${gameState.world.setting || 'an unknown realm'}
 - Companion: ${gameState.companionName} - ${gameState.companionDescription}
 - Player just said: "${userInput}"
 
-Create a dramatic companion introduction that feels natural and engaging.
+THE PLAYER:
+${describePlayerForPrompt(gameState.player)}
+
+Create a dramatic companion introduction that feels natural and engaging. If the companion has reason to know of the player's background, let it colour how they greet them.
 
 Respond with JSON:
 {
@@ -281,18 +526,17 @@ Respond with JSON:
   "companionFirstWords": "What the companion says or does when they first interact"
 }`;
 
-            const response = await this.groqService.generateResponse(
+            return await this.groqService.generateStructured(
                 "You are a creative storyteller crafting character introductions.",
                 prompt,
-                true,
+                COMPANION_INTRODUCTION_SCHEMA,
                 {
+                    purpose: 'companion_introduction',
                     useCreativeModel: true,
                     temperature: 1.0
                 }
             );
 
-            return JSON.parse(cleanJsonResponse(response));
-
         } catch (error) {
             console.error('[StoryWeaver] Failed to generate companion introduction:', error);
             return {
@@ -302,4 +546,143 @@ Respond with JSON:
             };
         }
     }
+
+    /**
+     * Writes the end of the adventure once the story arc reaches its resolution: which kind of
+     * ending the player earned, a narrated look back at their choices, and the companion's
+     * parting words.
+     */
+    async generateEpilogue(gameState: GameState, recap: EpilogueRecap): Promise<Epilogue> {
+        const mainQuest = getMainQuest(gameState.quests);
+        const mainQuestCompleted = mainQuest?.status === 'completed';
+        try {
+            const recentHistory = formatHistoryForPrompt(gameState.chatHistory.slice(-4));
+            const playerActions = recap.playerActions.slice(-MAX_RECAP_ACTIONS).map(action => `- ${action}`).join('\n');
+
+            const prompt = `A ${gameState.genre} adventure has reached its end.
+
+MAIN QUEST: ${mainQuest?.title} - ${mainQuest?.description} (${mainQuestCompleted ? 'completed' : 'not completed'})
+
+ALL OBJECTIVES:
+${describeQuestsForPrompt(gameState.quests)}
+
+ESTABLISHED WORLD:
+${describeWorldForPrompt(gameState.world)}
+
+THE PLAYER:
+${describePlayerForPrompt(gameState.player)}
+
+Companion: ${gameState.isCompanionPresent ? `${gameState.companionName} - ${gameState.companionDescription} (relationship with the player: ${recap.relationshipLevel}/100)` : 'None met'}
+${recap.companionMemories.length ? `
+EARLIER IN THE STORY:
+${recap.companionMemories.map(summary => `- ${summary}`).join('\n')}
+` : ''}
+WHAT THE PLAYER DID:
+${playerActions || '- Very little'}
+
+RECENT STORY:
+${recentHistory}
+
+Write the epilogue. Pick the ending the player earned:
+- triumph: the main quest was completed and little was lost
+- bittersweet: the main quest was completed at a real cost, or only partly achieved
+- tragic: the main quest failed and the world is worse for it
+- open: the player walked away and the story is left unresolved
+Look back on the choices that mattered most and show what they changed. ${gameState.isCompanionPresent ? `Then give ${gameState.companionName}'s parting words to the player, in character, shaped by how close they have grown.` : 'No companion was met, so leave partingWords empty.'}
+
+Respond with JSON:
+{
+  "endingType": "${ENDING_TYPES.join('|')}",
+  "title": "A short evocative name for this ending",
+  "narrationText": "4-6 sentences in second person (you/your) that recall the player's key choices and close the adventure",
+  "partingWords": "One to three spoken sentences, no stage directions",
+  "imagePrompt": "Visual description of the final scene"
+}`;
+
+            return await this.groqService.generateStructured(
+                "You are a creative storyteller writing satisfying endings.",
+                prompt,
+                EPILOGUE_SCHEMA,
+                {
+                    purpose: 'epilogue',
+                    useCreativeModel: true,
+                    temperature: 0.9
+                }
+            );
+
+        } catch (error) {
+            console.error('[StoryWeaver] Failed to generate epilogue:', error);
+            return {
+                endingType: mainQuestCompleted ? 'triumph' : 'open',
+                title: mainQuestCompleted ? mainQuest?.title || 'The End' : 'The Road Goes On',
+                narrationText: mainQuestCompleted
+                    ? `With "${mainQuest?.title || 'your quest'}" finally complete, a stillness settles over ${gameState.world.setting || 'the world around you'}. Whatever comes next, this part of your story has reached its end.`
+                    : `The story of ${gameState.world.setting || 'this place'} winds down without the ending you set out for. Whatever was left undone will wait for another day.`,
+                partingWords: gameState.isCompanionPresent ? 'Whatever road you take next, I am glad I walked this one with you.' : '',
+                imagePrompt: `A quiet final scene in ${gameState.currentScene}, ${gameState.genre.toLowerCase()} style`
+            };
+        }
+    }
+
+    /**
+     * Narrates one exchange of a fight from the dice results. When the encounter has ended
+     * the narration also closes the fight.
+     */
+    async narrateCombatRound(playerAction: string, encounter: Encounter, events: CombatEvent[], gameState: GameState): Promise<CombatNarration> {
+        const outcomes: Record<Encounter['phase'], string> = {
+            active: 'The fight goes on. End on the tension of the next moment.',
+            victory: `The fight is won. Close it and let the player notice what the enemies leave behind${encounter.loot.length ? `: ${encounter.loot.map(item => item.name).join(', ')}` : ''}.`,
+            defeat: `The player is beaten. Close the fight with this consequence: ${encounter.defeatConsequence || 'the player is left battered and the enemies are gone'}. The player survives.`,
+            fled: 'The player escapes. Close the fight with them getting away.'
+        };
+        try {
+            const companion = encounter.combatants.find(combatant => combatant.side === 'ally');
+            const prompt = `You are narrating a fight in a ${gameState.genre} adventure.
+
+SCENE: ${gameState.currentScene}
+
+THE PLAYER:
+${describePlayerForPrompt(gameState.player)}
+
+COMBATANTS:
+${describeEncounterForPrompt(encounter)}
+${companion ? `\nThe companion ${companion.name} fights alongside the player. Personality: ${gameState.companionTraits || companion.description}. Their fighting style is ${encounter.companionTactic}; show it in how they act and anything they shout.\n` : ''}
+PLAYER'S COMMAND: "${playerAction}"
+
+WHAT HAPPENED THIS ROUND (already decided, in order):
+${events.map(event => `- ${event.text}`).join('\n') || '- Nothing yet'}
+
+${outcomes[encounter.phase]}
+
+Turn these results into vivid action, in order, written in second person (you/your). Keep every hit, miss and defeat exactly as listed. Do not mention dice, rolls, HP or numbers.
+
+Respond with JSON:
+{
+  "narrationText": "2-4 sentences"
+}`;
+
+            return await this.groqService.generateStructured(
+                "You are a creative storyteller narrating fast, vivid fights.",
+                prompt,
+                COMBAT_NARRATION_SCHEMA,
+                {
+                    purpose: 'combat_narration',
+                    useCreativeModel: true,
+                    temperature: 0.9
+                }
+            );
+
+        } catch (error) {
+            console.error('[StoryWeaver] Failed to narrate combat round:', error);
+            const closings: Record<Encounter['phase'], string> = {
+                active: '',
+                victory: 'The last of your foes falls.',
+                defeat: 'Everything goes dark.',
+                fled: 'You get away.'
+            };
+            return {
+                narrationText: `${events.map(event => event.text).join(' ')} ${closings[encounter.phase]}`.trim()
+            };
+        }
+    }
 }
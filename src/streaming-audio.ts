@@ -0,0 +1,241 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { Playback } from './audio-playback-queue';
+
+const MP3_MIME_TYPE = 'audio/mpeg';
+// How many utterances the running medians are taken over
+const METRICS_WINDOW = 20;
+
+/**
+ * Latency of one utterance, in milliseconds from when its audio was requested. Sentences that
+ * are synthesized ahead of time wait for the one before them to finish, so their first audio
+ * is measured from when playback was asked for instead.
+ */
+export interface SpeechTimings {
+  label: string; // Start of the spoken text, for the logs
+  requestedAt: number; // performance.now() when the TTS request was sent
+  firstByteMs?: number;
+  firstAudioMs?: number;
+  totalBytes: number;
+  isStreamed: boolean; // False when the browser could not play the MP3 stream progressively
+}
+
+export function createSpeechTimings(text: string): SpeechTimings {
+  return {
+    label: text.length > 40 ? `${text.slice(0, 40)}...` : text,
+    requestedAt: performance.now(),
+    totalBytes: 0,
+    isStreamed: false
+  };
+}
+
+const recentTimings: SpeechTimings[] = [];
+
+const median = (values: number[]): number | undefined => {
+  if (!values.length) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const formatMs = (ms: number | undefined) => ms === undefined ? 'n/a' : `${Math.round(ms)}ms`;
+
+/**
+ * Logs an utterance's latency along with the running medians.
+ */
+export function reportSpeechTimings(timings: SpeechTimings): void {
+  recentTimings.push(timings);
+  if (recentTimings.length > METRICS_WINDOW) recentTimings.shift();
+
+  const medianFirstByte = median(recentTimings.flatMap(entry => entry.firstByteMs === undefined ? [] : [entry.firstByteMs]));
+  const medianFirstAudio = median(recentTimings.flatMap(entry => entry.firstAudioMs === undefined ? [] : [entry.firstAudioMs]));
+  console.log(
+    `[SpeechMetrics] "${timings.label}" TTFB ${formatMs(timings.firstByteMs)}, first audio ${formatMs(timings.firstAudioMs)}, ` +
+    `${timings.totalBytes} bytes${timings.isStreamed ? '' : ' (buffered)'} | median of last ${recentTimings.length}: ` +
+    `TTFB ${formatMs(medianFirstByte)}, first audio ${formatMs(medianFirstAudio)}`
+  );
+}
+
+export function supportsStreamingMP3(): boolean {
+  return typeof MediaSource !== 'undefined' && MediaSource.isTypeSupported(MP3_MIME_TYPE);
+}
+
+/**
+ * Reads a stream to the end, noting when the first bytes arrived if timings are given.
+ */
+export function readWholeStream(body: ReadableStream<Uint8Array>, timings?: SpeechTimings): Promise<ArrayBuffer> {
+  return readAll(body.getReader(), timings);
+}
+
+async function readAll(reader: ReadableStreamDefaultReader<Uint8Array>, timings?: SpeechTimings): Promise<ArrayBuffer> {
+  const chunks: Uint8Array[] = [];
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (timings) noteChunk(timings, value);
+    chunks.push(value);
+  }
+  const bytes = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.byteLength, 0));
+  let offset = 0;
+  chunks.forEach(chunk => {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+  return bytes.buffer;
+}
+
+function noteChunk(timings: SpeechTimings, chunk: Uint8Array): void {
+  if (timings.firstByteMs === undefined) {
+    timings.firstByteMs = performance.now() - timings.requestedAt;
+  }
+  timings.totalBytes += chunk.byteLength;
+}
+
+const waitForEvent = (target: EventTarget, type: string): Promise<void> =>
+  new Promise(resolve => target.addEventListener(type, () => resolve(), { once: true }));
+
+/**
+ * An Audio element whose source may arrive after playback was asked for. Stopping it stops the
+ * download too.
+ */
+class MP3Playback implements Playback {
+  readonly finished: Promise<void>;
+  private audio = new Audio();
+  private url?: string;
+  private isPaused = false;
+  private stopped = false;
+  private settle!: () => void;
+  private fail!: (error: unknown) => void;
+
+  constructor(private reader: ReadableStreamDefaultReader<Uint8Array>, onFirstAudio: () => void) {
+    this.audio.addEventListener('playing', onFirstAudio, { once: true });
+    this.finished = new Promise<void>((resolve, reject) => {
+      this.settle = resolve;
+      this.fail = error => {
+        this.release();
+        reject(error);
+      };
+    });
+    this.audio.onended = () => {
+      this.release();
+      this.settle();
+    };
+    this.audio.onerror = error => {
+      console.error('[StreamingAudio] Audio playback error:', error);
+      this.fail(error);
+    };
+  }
+
+  get isStopped(): boolean {
+    return this.stopped;
+  }
+
+  load(url: string): void {
+    if (this.stopped) {
+      URL.revokeObjectURL(url);
+      return;
+    }
+    this.url = url;
+    this.audio.src = url;
+    if (!this.isPaused) this.start();
+  }
+
+  pause(): void {
+    this.isPaused = true;
+    this.audio.pause();
+  }
+
+  resume(): void {
+    this.isPaused = false;
+    if (this.url && !this.stopped) this.start();
+  }
+
+  setVolume(volume: number): void {
+    this.audio.volume = volume;
+  }
+
+  stop(): void {
+    if (this.stopped) return;
+    this.stopped = true;
+    this.audio.onended = null;
+    this.audio.onerror = null;
+    this.audio.pause();
+    this.reader.cancel().catch(() => {});
+    this.release();
+    this.settle();
+  }
+
+  private start(): void {
+    this.audio.play().catch(error => {
+      // Pausing or stopping before playback began is not a failure
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+      console.error('[StreamingAudio] Failed to start audio playback:', error);
+      this.fail(error);
+    });
+  }
+
+  private release(): void {
+    if (this.url) URL.revokeObjectURL(this.url);
+    this.url = undefined;
+  }
+}
+
+/**
+ * Plays an MP3 stream while it is still downloading, through MediaSource. Browsers without
+ * MP3 support in MediaSource (notably iOS Safari) wait for the whole clip instead.
+ */
+export function playMP3Stream(body: ReadableStream<Uint8Array>, timings: SpeechTimings): Playback {
+  const playRequestedAt = performance.now();
+  const markFirstAudio = () => {
+    timings.firstAudioMs = performance.now() - Math.max(timings.requestedAt, playRequestedAt);
+  };
+  const reader = body.getReader();
+  const playback = new MP3Playback(reader, markFirstAudio);
+
+  if (!supportsStreamingMP3()) {
+    readAll(reader, timings)
+      .then(mp3 => playback.load(URL.createObjectURL(new Blob([mp3], { type: MP3_MIME_TYPE }))))
+      .catch(error => {
+        console.error('[StreamingAudio] Downloading the MP3 failed:', error);
+        playback.stop();
+      });
+    return playback;
+  }
+
+  timings.isStreamed = true;
+  const mediaSource = new MediaSource();
+  playback.load(URL.createObjectURL(mediaSource));
+  feedMediaSource(mediaSource, reader, timings, playback);
+  return playback;
+}
+
+async function feedMediaSource(
+  mediaSource: MediaSource,
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  timings: SpeechTimings,
+  playback: MP3Playback
+): Promise<void> {
+  try {
+    await waitForEvent(mediaSource, 'sourceopen');
+    const sourceBuffer = mediaSource.addSourceBuffer(MP3_MIME_TYPE);
+    sourceBuffer.mode = 'sequence';
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done || playback.isStopped) break;
+      noteChunk(timings, value);
+      sourceBuffer.appendBuffer(value);
+      await waitForEvent(sourceBuffer, 'updateend');
+    }
+    if (mediaSource.readyState === 'open') {
+      mediaSource.endOfStream();
+    }
+  } catch (error) {
+    if (playback.isStopped) return;
+    console.error('[StreamingAudio] Feeding the MP3 stream failed:', error);
+    if (mediaSource.readyState === 'open') {
+      mediaSource.endOfStream('decode');
+    }
+  }
+}
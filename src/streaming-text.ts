@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Sentence end: terminal punctuation, optional closing quotes/brackets, then whitespace
+const SENTENCE_END = /[.!?…]+["'”’)\]]*\s+/g;
+const MIN_SENTENCE_LENGTH = 12;
+
+/**
+ * Accumulates streamed text and hands back complete sentences as soon as they end.
+ */
+export class SentenceChunker {
+  private buffer = '';
+
+  push(delta: string): string[] {
+    this.buffer += delta;
+    const sentences: string[] = [];
+    let start = 0;
+
+    SENTENCE_END.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = SENTENCE_END.exec(this.buffer)) !== null) {
+      const end = match.index + match[0].length;
+      const candidate = this.buffer.slice(start, end).trim();
+      // Very short fragments ("Mr. ", "Oh! ") are merged into the next sentence
+      if (candidate.length >= MIN_SENTENCE_LENGTH) {
+        sentences.push(candidate);
+        start = end;
+      }
+    }
+
+    this.buffer = this.buffer.slice(start);
+    return sentences;
+  }
+
+  flush(): string {
+    const rest = this.buffer.trim();
+    this.buffer = '';
+    return rest;
+  }
+}
+
+export interface SpeechPipelineHandlers<T> {
+  /** Starts generating audio for a sentence. Called as soon as the sentence is complete. */
+  synthesize: (sentence: string) => Promise<T | null>;
+  /** Plays generated audio. Calls are strictly sequential, in sentence order. */
+  play: (audio: T) => Promise<void>;
+  /** Called once, right before the first sentence starts playing. */
+  onStart?: () => void;
+  /** Called once after the last sentence has played, only if anything was played. */
+  onEnd?: () => void;
+}
+
+/**
+ * Speech that is fed text incrementally while a response is still being generated.
+ */
+export interface StreamingSpeech {
+  push(delta: string): void;
+  finish(): Promise<void>;
+}
+
+/**
+ * Speaks streamed text sentence by sentence. Audio for each sentence is requested
+ * immediately, so sentence N+1 is usually ready by the time sentence N finishes playing.
+ */
+export class SentenceSpeechPipeline<T> implements StreamingSpeech {
+  private chunker = new SentenceChunker();
+  private playback: Promise<void> = Promise.resolve();
+  private started = false;
+
+  constructor(private handlers: SpeechPipelineHandlers<T>) {}
+
+  push(delta: string): void {
+    for (const sentence of this.chunker.push(delta)) {
+      this.enqueue(sentence);
+    }
+  }
+
+  /** Speaks whatever is left in the buffer and resolves when all playback has finished. */
+  async finish(): Promise<void> {
+    const rest = this.chunker.flush();
+    if (rest) {
+      this.enqueue(rest);
+    }
+    await this.playback;
+    if (this.started) {
+      this.handlers.onEnd?.();
+    }
+  }
+
+  get hasStarted(): boolean {
+    return this.started;
+  }
+
+  private enqueue(sentence: string): void {
+    const audio = this.handlers.synthesize(sentence).catch(error => {
+      console.error('[SpeechPipeline] Sentence synthesis failed:', error);
+      return null;
+    });
+
+    this.playback = this.playback.then(async () => {
+      const ready = await audio;
+      if (ready === null) return;
+      if (!this.started) {
+        this.started = true;
+        this.handlers.onStart?.();
+      }
+      try {
+        await this.handlers.play(ready);
+      } catch (error) {
+        console.error('[SpeechPipeline] Sentence playback failed:', error);
+      }
+    });
+  }
+}
+
+/**
+ * Reads the (possibly still incomplete) string value of `key` from a JSON document that is
+ * being streamed. Returns null until the value has started.
+ */
+export function extractPartialJsonString(partialJson: string, key: string): string | null {
+  const keyMatch = new RegExp(`"${key}"\\s*:\\s*"`).exec(partialJson);
+  if (!keyMatch) return null;
+
+  let value = '';
+  for (let i = keyMatch.index + keyMatch[0].length; i < partialJson.length; i++) {
+    const ch = partialJson[i];
+    if (ch === '"') return value;
+    if (ch !== '\\') {
+      value += ch;
+      continue;
+    }
+
+    const next = partialJson[i + 1];
+    if (next === undefined) break; // Escape sequence split across chunks
+    if (next === 'u') {
+      const hex = partialJson.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+      value += escapes[next] ?? next;
+      i += 1;
+    }
+  }
+  return value;
+}
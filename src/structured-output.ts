@@ -0,0 +1,216 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * A single definition of an LLM payload shape. It gives the TypeScript type (via Infer),
+ * the JSON Schema sent to the provider, and a runtime validator for what comes back.
+ */
+export interface Schema<T> {
+  readonly optional: boolean;
+  /** Phantom field that carries T for Infer; never set at runtime */
+  readonly __type?: T;
+  toJsonSchema(): Record<string, unknown>;
+  /** Appends a message per problem found; an empty list means the value is valid */
+  validate(value: unknown, path: string, errors: string[]): void;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<any>>;
+
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends { optional: true } ? K : never }[keyof S];
+
+type ObjectType<S extends Shape> =
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } &
+  { [K in OptionalKeys<S>]?: Exclude<Infer<S[K]>, undefined> };
+
+// Spread into a plain object type so editors show the resolved shape
+type Flatten<T> = { [K in keyof T]: T[K] } & {};
+
+interface Describable {
+  description?: string;
+}
+
+const typeName = (value: unknown): string => (Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value);
+
+const withDescription = (jsonSchema: Record<string, unknown>, options: Describable) =>
+  options.description ? { ...jsonSchema, description: options.description } : jsonSchema;
+
+function string(options: Describable & { minLength?: number } = {}): Schema<string> {
+  const minLength = options.minLength ?? 0;
+  return {
+    optional: false,
+    toJsonSchema: () => withDescription({ type: 'string' }, options),
+    validate(value, path, errors) {
+      if (typeof value !== 'string') {
+        errors.push(`${path} must be a string, got ${typeName(value)}`);
+      } else if (value.trim().length < minLength) {
+        errors.push(minLength === 1 ? `${path} must not be empty` : `${path} must be at least ${minLength} characters`);
+      }
+    }
+  };
+}
+
+function number(options: Describable & { min?: number; max?: number; integer?: boolean } = {}): Schema<number> {
+  return {
+    optional: false,
+    toJsonSchema: () => withDescription({ type: options.integer ? 'integer' : 'number' }, options),
+    validate(value, path, errors) {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        errors.push(`${path} must be a number, got ${typeName(value)}`);
+        return;
+      }
+      if (options.integer && !Number.isInteger(value)) errors.push(`${path} must be an integer`);
+      if (options.min !== undefined && value < options.min) errors.push(`${path} must be at least ${options.min}`);
+      if (options.max !== undefined && value > options.max) errors.push(`${path} must be at most ${options.max}`);
+    }
+  };
+}
+
+function boolean(options: Describable = {}): Schema<boolean> {
+  return {
+    optional: false,
+    toJsonSchema: () => withDescription({ type: 'boolean' }, options),
+    validate(value, path, errors) {
+      if (typeof value !== 'boolean') errors.push(`${path} must be true or false, got ${typeName(value)}`);
+    }
+  };
+}
+
+function enumeration<const V extends string>(values: readonly V[], options: Describable = {}): Schema<V> {
+  return {
+    optional: false,
+    toJsonSchema: () => withDescription({ type: 'string', enum: [...values] }, options),
+    validate(value, path, errors) {
+      if (typeof value !== 'string' || !values.includes(value as V)) {
+        errors.push(`${path} must be one of ${values.map(v => `"${v}"`).join(', ')}, got ${JSON.stringify(value)}`);
+      }
+    }
+  };
+}
+
+function array<T>(item: Schema<T>, options: Describable & { maxItems?: number } = {}): Schema<T[]> {
+  return {
+    optional: false,
+    toJsonSchema: () => withDescription({ type: 'array', items: item.toJsonSchema() }, options),
+    validate(value, path, errors) {
+      if (!Array.isArray(value)) {
+        errors.push(`${path} must be an array, got ${typeName(value)}`);
+        return;
+      }
+      if (options.maxItems !== undefined && value.length > options.maxItems) {
+        errors.push(`${path} must have at most ${options.maxItems} items`);
+      }
+      value.forEach((entry, index) => item.validate(entry, `${path}[${index}]`, errors));
+    }
+  };
+}
+
+function object<S extends Shape>(shape: S, options: Describable = {}): Schema<Flatten<ObjectType<S>>> {
+  return {
+    optional: false,
+    toJsonSchema: () => withDescription({
+      type: 'object',
+      properties: Object.fromEntries(Object.entries(shape).map(([key, field]) => [key, field.toJsonSchema()])),
+      required: Object.keys(shape).filter(key => !shape[key].optional),
+      additionalProperties: false
+    }, options),
+    validate(value, path, errors) {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        errors.push(`${path} must be an object, got ${typeName(value)}`);
+        return;
+      }
+      const record = value as Record<string, unknown>;
+      for (const [key, field] of Object.entries(shape)) {
+        if (record[key] === undefined || record[key] === null) {
+          if (!field.optional) errors.push(`${path}.${key} is required`);
+          continue;
+        }
+        field.validate(record[key], `${path}.${key}`, errors);
+      }
+    }
+  };
+}
+
+/**
+ * An object whose contents are checked by its consumer rather than here, e.g. world patches
+ * that applyWorldPatch already reads defensively.
+ */
+function freeform<T extends object>(options: Describable = {}): Schema<T> {
+  return {
+    optional: false,
+    toJsonSchema: () => withDescription({ type: 'object' }, options),
+    validate(value, path, errors) {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        errors.push(`${path} must be an object, got ${typeName(value)}`);
+      }
+    }
+  };
+}
+
+function optional<T>(inner: Schema<T>): Schema<T | undefined> & { optional: true } {
+  return {
+    optional: true,
+    toJsonSchema: () => inner.toJsonSchema(),
+    validate: (value, path, errors) => inner.validate(value, path, errors)
+  };
+}
+
+export const s = { string, number, boolean, enum: enumeration, array, object, freeform, optional };
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+export function validateAgainstSchema<T>(schema: Schema<T>, value: unknown): ValidationResult<T> {
+  const errors: string[] = [];
+  schema.validate(value, '$', errors);
+  return errors.length === 0 ? { ok: true, value: value as T } : { ok: false, errors };
+}
+
+/**
+ * True when the schema fits strict structured-output rules: every object lists all of its
+ * properties as required and allows nothing extra.
+ */
+export function isStrictJsonSchema(jsonSchema: any): boolean {
+  if (!jsonSchema || typeof jsonSchema !== 'object') return true;
+  if (jsonSchema.type === 'object') {
+    const properties = Object.keys(jsonSchema.properties || {});
+    if (!jsonSchema.properties || jsonSchema.additionalProperties !== false) return false;
+    const required: string[] = jsonSchema.required || [];
+    if (properties.some(key => !required.includes(key))) return false;
+    return properties.every(key => isStrictJsonSchema(jsonSchema.properties[key]));
+  }
+  if (jsonSchema.type === 'array') {
+    return isStrictJsonSchema(jsonSchema.items);
+  }
+  return true;
+}
+
+/**
+ * Thrown when a payload is still malformed after the repair attempt. Callers catch it and
+ * use their usual fallback content.
+ */
+export class StructuredOutputError extends Error {
+  constructor(message: string, readonly errors: string[], readonly rawResponse: string) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+/**
+ * Follow-up user message asking the model to fix its own payload.
+ */
+export function buildRepairPrompt(originalUserMessage: string, rawResponse: string, errors: string[], jsonSchema: object): string {
+  return `${originalUserMessage}
+
+---
+Your previous response could not be used:
+${rawResponse.trim() || '(empty response)'}
+
+Problems found:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Respond again with ONLY a corrected JSON object that fixes every problem and conforms to this JSON Schema:
+${JSON.stringify(jsonSchema)}`;
+}
@@ -21,8 +21,10 @@ export class STTService {
   private voiceDetectionCooldown = 1000; // 1 second cooldown between triggers
 
   constructor() {
-    // Check if browser supports speech recognition
-    const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+    // Check if browser supports speech recognition (there is no window at all under Node)
+    const SpeechRecognition = typeof window !== 'undefined'
+      ? (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition
+      : undefined;
     
     if (SpeechRecognition) {
       this.recognition = new SpeechRecognition();
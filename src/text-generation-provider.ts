@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { TextModelSet } from './ai-config';
+import { isStrictJsonSchema } from './structured-output';
+
+/** What a request is for. Lets mock/replay providers answer without parsing prompts. */
+export type TextRequestPurpose =
+  | 'story_decision'
+  | 'exploration'
+  | 'companion_introduction'
+  | 'adventure_setup'
+  | 'companion_dialogue'
+  | 'classification'
+  | 'memory_summary'
+  | 'memory_condense'
+  | 'relationship_appraisal'
+  | 'mood_evaluation'
+  | 'epilogue'
+  | 'combat_narration'
+  | 'npc_persona'
+  | 'npc_dialogue'
+  | 'companion_remark';
+
+export interface TextGenerationOptions {
+  purpose?: TextRequestPurpose;
+  useStructuredOutput?: boolean;
+  jsonSchema?: object;
+  useCreativeModel?: boolean;
+  temperature?: number;
+}
+
+export interface TextGenerationRequest extends TextGenerationOptions {
+  systemPrompt: string;
+  userMessage: string;
+  useJsonFormat?: boolean;
+}
+
+/**
+ * A backend that can turn a system prompt + user message into text.
+ * Implementations only deal with transport; prompt shaping lives in the callers.
+ */
+export interface TextGenerationProvider {
+  readonly name: string;
+  generate(request: TextGenerationRequest): Promise<string>;
+  /** Yields text deltas as they arrive. Concatenated, they equal what generate() would return. */
+  stream(request: TextGenerationRequest): AsyncGenerator<string>;
+}
+
+export interface ChatCompletionBody {
+  messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>;
+  model: string;
+  temperature: number;
+  max_tokens: number;
+  seed: number;
+  response_format?: object;
+  stream?: boolean;
+}
+
+const MAX_TOKENS = 2048;
+
+/**
+ * Picks the model for a request: structured output needs a schema-capable model,
+ * otherwise creative vs. fast.
+ */
+export function selectModel(request: TextGenerationRequest, models: TextModelSet): string {
+  if (request.useStructuredOutput && request.jsonSchema) {
+    return models.structured;
+  }
+  return request.useCreativeModel ? models.creative : models.fast;
+}
+
+export function resolveTemperature(request: TextGenerationRequest): number {
+  return request.temperature ?? (request.useCreativeModel ? 1.2 : 0.8);
+}
+
+/**
+ * Builds an OpenAI-style chat completion body. Shared by Groq (SDK-free, direct or via the
+ * Vercel proxy) and any OpenAI-compatible local server.
+ */
+export function buildChatCompletionBody(
+  request: TextGenerationRequest,
+  models: TextModelSet,
+  supportsJsonSchema = true
+): ChatCompletionBody {
+  const body: ChatCompletionBody = {
+    messages: [
+      { role: 'system', content: request.systemPrompt },
+      { role: 'user', content: request.userMessage }
+    ],
+    model: selectModel(request, models),
+    temperature: resolveTemperature(request),
+    max_tokens: MAX_TOKENS,
+    seed: Math.floor(Math.random() * 1000000) // Random seed for variety
+  };
+
+  if (request.useStructuredOutput && request.jsonSchema && supportsJsonSchema) {
+    body.response_format = {
+      type: "json_schema",
+      json_schema: {
+        name: "scene_generation",
+        schema: request.jsonSchema,
+        // Schemas with optional fields are still sent, just without strict enforcement
+        strict: isStrictJsonSchema(request.jsonSchema)
+      }
+    };
+  } else if (request.useJsonFormat || (request.useStructuredOutput && request.jsonSchema)) {
+    // Fallback to basic JSON object mode
+    body.response_format = { type: "json_object" };
+  }
+
+  return body;
+}
+
+/**
+ * Appends the JSON Schema to the system prompt for backends that cannot enforce it natively.
+ */
+export function withInlineSchema(request: TextGenerationRequest): string {
+  if (!request.useStructuredOutput || !request.jsonSchema) {
+    return request.systemPrompt;
+  }
+  return `${request.systemPrompt}
+
+Respond ONLY with a JSON object that conforms to this JSON Schema:
+${JSON.stringify(request.jsonSchema)}`;
+}
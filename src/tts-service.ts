@@ -3,6 +3,8 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 import { GoogleGenAI, Modality } from '@google/genai';
+import { GEMINI_TTS_MODEL } from './ai-config';
+import { Playback } from './audio-playback-queue';
 
 export interface TTSConfig {
   voiceName: string;
@@ -25,7 +27,7 @@ export class TTSService {
       console.log(`[TTS] ${new Date().toISOString()} - Starting speech generation for text (${text.length} chars) with voice: ${config.voiceName}`);
       
       const response = await this.client.models.generateContent({
-        model: "gemini-2.5-flash-preview-tts",
+        model: GEMINI_TTS_MODEL,
         contents: [{ parts: [{ text }] }],
         config: {
           responseModalities: ['AUDIO'],
@@ -75,7 +77,14 @@ export class TTSService {
     }
   }
 
-  async playPCMAudio(pcmArrayBuffer: ArrayBuffer): Promise<void> {
+  playPCMAudio(pcmArrayBuffer: ArrayBuffer): Promise<void> {
+    return this.startPCMAudio(pcmArrayBuffer).finished;
+  }
+
+  /**
+   * Starts playing 24 kHz PCM. Pausing suspends the audio context; stopping ends playback.
+   */
+  startPCMAudio(pcmArrayBuffer: ArrayBuffer): Playback {
     const playbackStartTime = performance.now();
     console.log(`[TTS] ${new Date().toISOString()} - Starting PCM audio playback: ${pcmArrayBuffer.byteLength} bytes`);
     
@@ -83,43 +92,47 @@ export class TTSService {
     const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({
       sampleRate: 24000 // Gemini TTS typically uses 24kHz
     });
+    const volume = audioContext.createGain();
+    volume.connect(audioContext.destination);
+    let source: AudioBufferSourceNode | null = null;
     
-    try {
-      // PCM data from Gemini TTS is typically:
-      // - 16-bit signed integers
-      // - 24kHz sample rate  
-      // - Single channel (mono)
-      
-      const sampleRate = 24000;
-      const channels = 1;
-      const bytesPerSample = 2; // 16-bit = 2 bytes
-      const numSamples = pcmArrayBuffer.byteLength / bytesPerSample;
-      
-      const bufferCreationStart = performance.now();
-      console.log(`[TTS] ${new Date().toISOString()} - PCM format: ${sampleRate}Hz, ${channels} channel(s), ${numSamples} samples`);
-      
-      // Create audio buffer
-      const audioBuffer = audioContext.createBuffer(channels, numSamples, sampleRate);
-      
-      // Convert PCM data to float array
-      const dataView = new DataView(pcmArrayBuffer);
-      const channelData = audioBuffer.getChannelData(0);
-      
-      for (let i = 0; i < numSamples; i++) {
-        // Read 16-bit signed integer and convert to float (-1 to 1)
-        const sample = dataView.getInt16(i * 2, true); // true = little endian
-        channelData[i] = sample / 32768.0; // Convert to -1.0 to 1.0 range
-      }
-      
-      const bufferCreationTime = performance.now();
-      console.log(`[TTS] ${new Date().toISOString()} - Audio buffer created: ${audioBuffer.duration.toFixed(2)}s duration in ${((bufferCreationTime - bufferCreationStart) / 1000).toFixed(3)}s`);
-      
-      // Create source and play
-      const source = audioContext.createBufferSource();
-      source.buffer = audioBuffer;
-      source.connect(audioContext.destination);
-      
-      return new Promise((resolve, reject) => {
+    const finished = new Promise<void>((resolve, reject) => {
+      try {
+        // PCM data from Gemini TTS is typically:
+        // - 16-bit signed integers
+        // - 24kHz sample rate  
+        // - Single channel (mono)
+        
+        const sampleRate = 24000;
+        const channels = 1;
+        const bytesPerSample = 2; // 16-bit = 2 bytes
+        const numSamples = pcmArrayBuffer.byteLength / bytesPerSample;
+        
+        const bufferCreationStart = performance.now();
+        console.log(`[TTS] ${new Date().toISOString()} - PCM format: ${sampleRate}Hz, ${channels} channel(s), ${numSamples} samples`);
+        
+        // Create audio buffer
+        const audioBuffer = audioContext.createBuffer(channels, numSamples, sampleRate);
+        
+        // Convert PCM data to float array
+        const dataView = new DataView(pcmArrayBuffer);
+        const channelData = audioBuffer.getChannelData(0);
+        
+        for (let i = 0; i < numSamples; i++) {
+          // Read 16-bit signed integer and convert to float (-1 to 1)
+          const sample = dataView.getInt16(i * 2, true); // true = little endian
+          channelData[i] = sample / 32768.0; // Convert to -1.0 to 1.0 range
+        }
+        
+        const bufferCreationTime = performance.now();
+        console.log(`[TTS] ${new Date().toISOString()} - Audio buffer created: ${audioBuffer.duration.toFixed(2)}s duration in ${((bufferCreationTime - bufferCreationStart) / 1000).toFixed(3)}s`);
+        
+        // Create source and play
+        source = audioContext.createBufferSource();
+        source.buffer = audioBuffer;
+        source.connect(volume);
+        
+        // Also fires when playback is stopped
         source.onended = () => {
           const playbackEndTime = performance.now();
           console.log(`[TTS] ${new Date().toISOString()} - Audio playback completed after ${((playbackEndTime - playbackStartTime) / 1000).toFixed(2)}s`);
@@ -130,13 +143,32 @@ export class TTSService {
         const actualPlayStart = performance.now();
         console.log(`[TTS] ${new Date().toISOString()} - Starting audio playback (setup took ${((actualPlayStart - playbackStartTime) / 1000).toFixed(3)}s)`);
         source.start(0);
-      });
-      
-    } catch (error) {
-      audioContext.close();
-      console.error('[TTS] PCM audio playback failed:', error);
-      throw error;
-    }
+        
+      } catch (error) {
+        audioContext.close();
+        console.error('[TTS] PCM audio playback failed:', error);
+        reject(error);
+      }
+    });
+
+    return {
+      finished,
+      pause: () => {
+        audioContext.suspend();
+      },
+      resume: () => {
+        audioContext.resume();
+      },
+      stop: () => {
+        if (audioContext.state === 'closed') return;
+        // A suspended context would hold the ended event back
+        audioContext.resume();
+        source?.stop();
+      },
+      setVolume: level => {
+        volume.gain.value = level;
+      }
+    };
   }
 
   async speakText(text: string, voiceName: string): Promise<void> {
@@ -29,13 +29,15 @@ export class VoiceSelectionService {
   }
 
   /**
-   * Selects the most appropriate voice ID based on character traits
+   * Selects the most appropriate voice ID based on character traits. Voices already taken by
+   * other characters are skipped so everyone sounds different, unless no other voice is left.
    */
-  selectVoiceForCharacter(traits: CharacterTraits): string {
+  selectVoiceForCharacter(traits: CharacterTraits, excludeVoiceIds: string[] = []): string {
     const startTime = performance.now();
+    const available = this.voices.filter(voice => !excludeVoiceIds.includes(voice.id));
     
     // Score each voice based on how well it matches the character traits
-    const voiceScores = this.voices.map(voice => {
+    const voiceScores = (available.length ? available : this.voices).map(voice => {
       const score = this.calculateVoiceScore(voice, traits);
       return { voice, score };
     });
@@ -0,0 +1,278 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export interface WorldExit {
+  direction: string;
+  leadsTo: string; // Location name, may not have been visited yet
+}
+
+export interface WorldLocation {
+  name: string;
+  description: string;
+  exits: WorldExit[];
+  visited: boolean;
+}
+
+export interface WorldNPC {
+  name: string;
+  description: string;
+  location?: string;
+  disposition?: string;
+}
+
+export interface WorldItem {
+  name: string;
+  description: string;
+  location?: string;
+}
+
+export interface WorldThread {
+  description: string;
+  status: 'open' | 'resolved';
+}
+
+/**
+ * Everything the Story Weaver has established about the world so far. Locations, NPCs and
+ * items are keyed by lower-cased name so the model can refer to them by name in patches.
+ */
+export interface WorldModel {
+  setting: string;
+  currentLocation: string;
+  locations: Record<string, WorldLocation>;
+  npcs: Record<string, WorldNPC>;
+  items: Record<string, WorldItem>;
+  facts: string[];
+  threads: WorldThread[];
+}
+
+/**
+ * Changes to the world model returned by the Story Weaver each turn. Entries are merged by
+ * name: only the fields that are present overwrite existing values.
+ */
+export interface WorldPatch {
+  setting?: string;
+  currentLocation?: string;
+  locations?: Array<Partial<WorldLocation> & { name: string }>;
+  npcs?: Array<Partial<WorldNPC> & { name: string }>;
+  items?: Array<Partial<WorldItem> & { name: string }>;
+  removedItems?: string[];
+  facts?: string[];
+  openedThreads?: string[];
+  resolvedThreads?: string[];
+}
+
+const MAX_FACTS = 40;
+const MAX_RESOLVED_THREADS = 10;
+
+// Prompt limits so the world summary stays small as the session grows
+const PROMPT_FACT_LIMIT = 12;
+const PROMPT_LOCATION_LIMIT = 15;
+
+export function worldKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+export function createWorldModel(setting = '', startingLocation?: { name: string; description: string }): WorldModel {
+  const world: WorldModel = {
+    setting,
+    currentLocation: '',
+    locations: {},
+    npcs: {},
+    items: {},
+    facts: [],
+    threads: []
+  };
+  return startingLocation
+    ? applyWorldPatch(world, { currentLocation: startingLocation.name, locations: [startingLocation] })
+    : world;
+}
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+const namedEntries = <T extends { name: string }>(value: unknown): T[] =>
+  Array.isArray(value) ? value.filter((entry): entry is T => !!entry && isNonEmptyString(entry.name)) : [];
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter(isNonEmptyString).map(entry => entry.trim()) : [];
+
+function mergeExits(existing: WorldExit[], incoming: unknown): WorldExit[] {
+  const exits = [...existing];
+  if (!Array.isArray(incoming)) return exits;
+
+  for (const exit of incoming) {
+    if (!exit || !isNonEmptyString(exit.direction) || !isNonEmptyString(exit.leadsTo)) continue;
+    const index = exits.findIndex(e => worldKey(e.direction) === worldKey(exit.direction));
+    const merged = { direction: exit.direction.trim(), leadsTo: exit.leadsTo.trim() };
+    if (index >= 0) {
+      exits[index] = merged;
+    } else {
+      exits.push(merged);
+    }
+  }
+  return exits;
+}
+
+/**
+ * Returns a new world model with the patch applied. The patch comes straight from the LLM,
+ * so anything malformed is skipped rather than trusted.
+ */
+export function applyWorldPatch(world: WorldModel, patch: WorldPatch | null | undefined): WorldModel {
+  if (!patch || typeof patch !== 'object') return world;
+
+  const next: WorldModel = {
+    setting: isNonEmptyString(patch.setting) ? patch.setting.trim() : world.setting,
+    currentLocation: world.currentLocation,
+    locations: { ...world.locations },
+    npcs: { ...world.npcs },
+    items: { ...world.items },
+    facts: [...world.facts],
+    threads: [...world.threads]
+  };
+
+  for (const location of namedEntries<Partial<WorldLocation> & { name: string }>(patch.locations)) {
+    const key = worldKey(location.name);
+    const existing = next.locations[key];
+    next.locations[key] = {
+      name: existing?.name || location.name.trim(),
+      description: isNonEmptyString(location.description) ? location.description.trim() : existing?.description || '',
+      exits: mergeExits(existing?.exits || [], location.exits),
+      visited: existing?.visited || false
+    };
+  }
+
+  if (isNonEmptyString(patch.currentLocation)) {
+    const key = worldKey(patch.currentLocation);
+    const existing = next.locations[key];
+    next.locations[key] = existing
+      ? { ...existing, visited: true }
+      : { name: patch.currentLocation.trim(), description: '', exits: [], visited: true };
+    next.currentLocation = key;
+  }
+
+  for (const npc of namedEntries<Partial<WorldNPC> & { name: string }>(patch.npcs)) {
+    const key = worldKey(npc.name);
+    const existing = next.npcs[key];
+    next.npcs[key] = {
+      name: existing?.name || npc.name.trim(),
+      description: isNonEmptyString(npc.description) ? npc.description.trim() : existing?.description || '',
+      location: isNonEmptyString(npc.location) ? npc.location.trim() : existing?.location,
+      disposition: isNonEmptyString(npc.disposition) ? npc.disposition.trim() : existing?.disposition
+    };
+  }
+
+  for (const item of namedEntries<Partial<WorldItem> & { name: string }>(patch.items)) {
+    const key = worldKey(item.name);
+    const existing = next.items[key];
+    next.items[key] = {
+      name: existing?.name || item.name.trim(),
+      description: isNonEmptyString(item.description) ? item.description.trim() : existing?.description || '',
+      location: isNonEmptyString(item.location) ? item.location.trim() : existing?.location
+    };
+  }
+
+  for (const name of stringList(patch.removedItems)) {
+    delete next.items[worldKey(name)];
+  }
+
+  for (const fact of stringList(patch.facts)) {
+    if (!next.facts.some(known => worldKey(known) === worldKey(fact))) {
+      next.facts.push(fact);
+    }
+  }
+  next.facts = next.facts.slice(-MAX_FACTS);
+
+  for (const description of stringList(patch.openedThreads)) {
+    if (!next.threads.some(thread => worldKey(thread.description) === worldKey(description))) {
+      next.threads.push({ description, status: 'open' });
+    }
+  }
+
+  const resolved = stringList(patch.resolvedThreads).map(worldKey);
+  if (resolved.length > 0) {
+    next.threads = next.threads.map(thread =>
+      resolved.includes(worldKey(thread.description)) ? { ...thread, status: 'resolved' as const } : thread
+    );
+  }
+  const resolvedThreads = next.threads.filter(thread => thread.status === 'resolved');
+  if (resolvedThreads.length > MAX_RESOLVED_THREADS) {
+    const dropped = new Set(resolvedThreads.slice(0, resolvedThreads.length - MAX_RESOLVED_THREADS));
+    next.threads = next.threads.filter(thread => !dropped.has(thread));
+  }
+
+  return next;
+}
+
+/**
+ * Compact, prompt-ready description of the parts of the world that matter for the next turn:
+ * where the player is, what is nearby, what they know and what is still unresolved.
+ */
+export function describeWorldForPrompt(world: WorldModel): string {
+  const lines: string[] = [];
+  if (world.setting) {
+    lines.push(`World Setting: ${world.setting}`);
+  }
+
+  const here = world.locations[world.currentLocation];
+  if (here) {
+    lines.push(`Current Location: ${here.name}${here.description ? ` - ${here.description}` : ''}`);
+    if (here.exits.length > 0) {
+      lines.push(`Exits: ${here.exits.map(exit => `${exit.direction} -> ${exit.leadsTo}`).join('; ')}`);
+    }
+  }
+
+  const otherLocations = Object.entries(world.locations)
+    .filter(([key]) => key !== world.currentLocation)
+    .map(([, location]) => `${location.name}${location.visited ? '' : ' (not yet visited)'}`)
+    .slice(-PROMPT_LOCATION_LIMIT);
+  if (otherLocations.length > 0) {
+    lines.push(`Other Known Locations: ${otherLocations.join(', ')}`);
+  }
+
+  const isHere = (location?: string) => !!here && !!location && worldKey(location) === world.currentLocation;
+  const npcs = Object.values(world.npcs);
+  const npcsHere = npcs.filter(npc => isHere(npc.location));
+  const npcsElsewhere = npcs.filter(npc => !isHere(npc.location));
+  const describeNpc = (npc: WorldNPC) =>
+    `${npc.name} (${[npc.description, npc.disposition].filter(Boolean).join(', ') || 'unknown'})`;
+  if (npcsHere.length > 0) {
+    lines.push(`Characters Here: ${npcsHere.map(describeNpc).join('; ')}`);
+  }
+  if (npcsElsewhere.length > 0) {
+    lines.push(`Other Known Characters: ${npcsElsewhere.map(npc => `${npc.name}${npc.location ? ` (last seen: ${npc.location})` : ''}`).join('; ')}`);
+  }
+
+  const itemsHere = Object.values(world.items).filter(item => isHere(item.location));
+  if (itemsHere.length > 0) {
+    lines.push(`Items Here: ${itemsHere.map(item => item.description ? `${item.name} (${item.description})` : item.name).join('; ')}`);
+  }
+
+  const facts = world.facts.slice(-PROMPT_FACT_LIMIT);
+  if (facts.length > 0) {
+    lines.push(`Facts The Player Has Learned:\n${facts.map(fact => `  - ${fact}`).join('\n')}`);
+  }
+
+  const openThreads = world.threads.filter(thread => thread.status === 'open');
+  if (openThreads.length > 0) {
+    lines.push(`Open Story Threads:\n${openThreads.map(thread => `  - ${thread.description}`).join('\n')}`);
+  }
+
+  return lines.length > 0 ? lines.join('\n') : 'No world details established yet.';
+}
+
+/**
+ * Prompt fragment describing the "worldPatch" field the Story Weaver returns each turn.
+ */
+export const WORLD_PATCH_INSTRUCTIONS = `"worldPatch" records what this turn establishes about the world. Only include what is new or changed; omit empty fields:
+{
+  "currentLocation": "Name of the location the player is in after this turn (only if it changed)",
+  "locations": [{ "name": "Location name", "description": "One sentence", "exits": [{ "direction": "north / through the archway / ...", "leadsTo": "Location name" }] }],
+  "npcs": [{ "name": "Name", "description": "Who they are", "location": "Location name", "disposition": "friendly / wary / hostile / ..." }],
+  "items": [{ "name": "Item name", "description": "One sentence", "location": "Location name" }],
+  "removedItems": ["Names of items that were destroyed or taken away"],
+  "facts": ["Short facts the player has just learned"],
+  "openedThreads": ["New mysteries, goals or promises raised this turn"],
+  "resolvedThreads": ["Exact text of open threads this turn resolved"]
+}
+Never contradict the established world; reuse existing names exactly when referring to known locations, characters and items.`;
@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CharacterStats, MIN_DIFFICULTY, SeededRandom, SkillCheckRequest, createDiceSeed, resolveSkillCheck } from '../src/skill-checks';
+
+const STATS: CharacterStats = { might: 2, agility: 0, wits: 1, presence: -1 };
+
+const rolls = (rng: SeededRandom, count: number) => Array.from({ length: count }, () => rng.rollDie(20));
+
+// An RNG whose next d20 comes up as the given natural roll
+function riggedDie(roll: number): SeededRandom {
+    const rng = new SeededRandom(1);
+    vi.spyOn(rng, 'rollDie').mockReturnValue(roll);
+    return rng;
+}
+
+function check(difficulty: number): SkillCheckRequest {
+    return { stat: 'might', difficulty, actor: 'player', reason: 'Forcing the gate' };
+}
+
+describe('skill checks', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+        delete process.env.DICE_SEED;
+    });
+
+    describe('SeededRandom', () => {
+        it('rolls the same sequence from the same seed', () => {
+            expect(rolls(new SeededRandom(42), 20)).toEqual(rolls(new SeededRandom(42), 20));
+            expect(rolls(new SeededRandom(42), 20)).not.toEqual(rolls(new SeededRandom(43), 20));
+        });
+
+        it('continues the sequence from a saved state', () => {
+            const rng = new SeededRandom(42);
+            rolls(rng, 5);
+            const restored = new SeededRandom(rng.state);
+
+            expect(rolls(restored, 10)).toEqual(rolls(rng, 10));
+        });
+
+        it('only rolls faces the die has', () => {
+            const faces = new Set(rolls(new SeededRandom(7), 500));
+            expect(Math.min(...faces)).toBe(1);
+            expect(Math.max(...faces)).toBe(20);
+        });
+    });
+
+    describe('createDiceSeed', () => {
+        it('uses DICE_SEED when it is set', () => {
+            process.env.DICE_SEED = '1234';
+            expect(createDiceSeed()).toBe(1234);
+        });
+
+        it('draws a fresh seed otherwise', () => {
+            vi.spyOn(Math, 'random').mockReturnValue(0.25);
+            expect(createDiceSeed()).toBe(1073741824);
+        });
+    });
+
+    describe('resolveSkillCheck', () => {
+        it('fails a natural 1 even when the total is within the partial band', () => {
+            const result = resolveSkillCheck(check(MIN_DIFFICULTY), STATS, riggedDie(1));
+            expect(result.total).toBeGreaterThanOrEqual(result.difficulty - 4);
+            expect(result.outcome).toBe('fail');
+        });
+
+        it('makes a natural 20 critical even when the total would fail', () => {
+            const result = resolveSkillCheck(check(25), STATS, riggedDie(20));
+            expect(result.total).toBeLessThan(result.difficulty);
+            expect(result.outcome).toBe('critical');
+        });
+
+        it('gives a partial success for missing by up to 4', () => {
+            // Might +2 against difficulty 15: a roll of 13 passes, 9 to 12 are partial, 8 fails
+            expect(resolveSkillCheck(check(15), STATS, riggedDie(13)).outcome).toBe('success');
+            expect(resolveSkillCheck(check(15), STATS, riggedDie(10)).outcome).toBe('partial');
+            expect(resolveSkillCheck(check(15), STATS, riggedDie(9)).outcome).toBe('partial');
+            expect(resolveSkillCheck(check(15), STATS, riggedDie(8)).outcome).toBe('fail');
+        });
+
+        it('adds the stat modifier and clamps the difficulty', () => {
+            const result = resolveSkillCheck({ ...check(40), stat: 'presence' }, STATS, riggedDie(12));
+            expect(result).toMatchObject({ roll: 12, modifier: -1, total: 11, difficulty: 25 });
+        });
+    });
+});
@@ -2,11 +2,32 @@ import path from 'path';
 import { defineConfig } from 'vite';
 import fs from 'fs';
 
+// Text provider selection (see src/groq-service.ts). TEXT_PROVIDER=openai-compatible runs against a local model.
+// PROVIDER_MODE switches every provider to record/replay/mock (see src/fixture-store.ts).
+// SPEECH_PROVIDER picks the voice backend (see src/speech-synthesis-provider.ts); 'none' is text-only.
+const PROVIDER_ENV_KEYS = [
+    'PROVIDER_MODE',
+    'TEXT_PROVIDER',
+    'LOCAL_LLM_BASE_URL',
+    'LOCAL_LLM_MODEL',
+    'LOCAL_LLM_API_KEY',
+    'LOCAL_LLM_JSON_SCHEMA',
+    'GEMINI_TEXT_MODEL',
+    'SPEECH_PROVIDER'
+];
+
+// DICE_SEED fixes the skill check dice so those runs roll the same numbers (see src/skill-checks.ts).
+const TABLETOP_ENV_KEYS = ['DICE_SEED'];
+
+// Settings read from .env.local or the environment and passed through to the app
+const APP_ENV_KEYS = [...PROVIDER_ENV_KEYS, ...TABLETOP_ENV_KEYS];
+
 export default defineConfig(({ mode }) => {
     // Manually read .env.local to override system variables
     let localApiKey = null;
     let localElevenLabsApiKey = null;
     let localGroqApiKey = null;
+    const localAppEnv: Record<string, string> = {};
     try {
         const envLocal = fs.readFileSync('.env.local', 'utf8');
         const geminiMatch = envLocal.match(/GEMINI_API_KEY=(.+)/);
@@ -21,6 +42,12 @@ export default defineConfig(({ mode }) => {
         if (groqMatch) {
             localGroqApiKey = groqMatch[1].trim();
         }
+        for (const name of APP_ENV_KEYS) {
+            const match = envLocal.match(new RegExp(`^${name}=(.+)$`, 'm'));
+            if (match) {
+                localAppEnv[name] = match[1].trim();
+            }
+        }
     } catch (e) {
         console.log('No .env.local file found');
     }
@@ -29,6 +56,10 @@ export default defineConfig(({ mode }) => {
     const apiKey = localApiKey || process.env.GEMINI_API_KEY;
     const elevenLabsApiKey = localElevenLabsApiKey || process.env.ELEVENLABS_API_KEY;
     const groqApiKey = localGroqApiKey || process.env.GROQ_API_KEY;
+    const appEnvDefines = Object.fromEntries(APP_ENV_KEYS.map(name => [
+        `process.env.${name}`,
+        JSON.stringify(localAppEnv[name] || process.env[name] || '')
+    ]));
     
     
     return {
@@ -37,6 +68,7 @@ export default defineConfig(({ mode }) => {
         'process.env.GEMINI_API_KEY': JSON.stringify(apiKey),
         'process.env.ELEVENLABS_API_KEY': JSON.stringify(elevenLabsApiKey),
         'process.env.GROQ_API_KEY': JSON.stringify(groqApiKey),
+        ...appEnvDefines,
         __VUE_OPTIONS_API__: true,
         __VUE_PROD_DEVTOOLS__: false,
         __VUE_PROD_HYDRATION_MISMATCH_DETAILS__: false